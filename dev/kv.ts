@@ -0,0 +1,120 @@
+import fs from "node:fs";
+import path from "node:path";
+
+// ---- File-backed KV for local development ----
+// Implements the slice of Cloudflare's KVNamespace the functions use (get/getWithMetadata/put/
+// delete/list with prefix, limit, cursor, TTLs and metadata) on top of one JSON file, so the
+// waitlist survives dev-server restarts and can be inspected or edited by hand.
+// Not a faithful emulator: it is strongly consistent and has no size limits.
+
+interface Entry {
+  value: string;
+  metadata?: unknown;
+  expiration?: number;         // seconds since epoch, like KV
+}
+
+type GetType = "text" | "json" | "arrayBuffer" | "stream";
+type GetOptions = GetType | { type?: GetType; cacheTtl?: number };
+
+interface PutOptions {
+  expiration?: number;
+  expirationTtl?: number;
+  metadata?: unknown;
+}
+
+interface ListOptions {
+  prefix?: string;
+  limit?: number;
+  cursor?: string;
+}
+
+const LIST_MAX = 1000;
+
+export class FileKV {
+  private entries = new Map<string, Entry>();
+  readonly file: string;
+
+  constructor(file: string) {
+    this.file = file;
+    this.load();
+  }
+
+  private load() {
+    try {
+      const raw = JSON.parse(fs.readFileSync(this.file, "utf8")) as Record<string, Entry>;
+      this.entries = new Map(Object.entries(raw));
+    } catch {
+      this.entries = new Map();   // first run, or the file was reset
+    }
+  }
+
+  // Re-read before every operation: the seed/reset scripts write the same file from another process
+  private fresh() {
+    this.load();
+    const now = Date.now() / 1000;
+    for (const [k, e] of this.entries) if (e.expiration && e.expiration <= now) this.entries.delete(k);
+    return this.entries;
+  }
+
+  private save() {
+    fs.mkdirSync(path.dirname(this.file), { recursive: true });
+    const sorted = Object.fromEntries([...this.entries].sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)));
+    fs.writeFileSync(this.file, JSON.stringify(sorted, null, 2));
+  }
+
+  private decode(value: string, options?: GetOptions) {
+    const type = typeof options === "string" ? options : options?.type ?? "text";
+    if (type === "json") return JSON.parse(value);
+    if (type === "arrayBuffer") return new TextEncoder().encode(value).buffer;
+    if (type === "stream") return new Blob([value]).stream();
+    return value;
+  }
+
+  async get(key: string, options?: GetOptions) {
+    const e = this.fresh().get(key);
+    return e ? this.decode(e.value, options) : null;
+  }
+
+  async getWithMetadata(key: string, options?: GetOptions) {
+    const e = this.fresh().get(key);
+    return e ? { value: this.decode(e.value, options), metadata: e.metadata ?? null } : { value: null, metadata: null };
+  }
+
+  // The functions only ever store strings
+  async put(key: string, value: string, options: PutOptions = {}) {
+    const expiration = options.expiration
+      ?? (options.expirationTtl ? Math.floor(Date.now() / 1000) + options.expirationTtl : undefined);
+    this.fresh().set(key, { value, ...(options.metadata !== undefined ? { metadata: options.metadata } : {}), ...(expiration ? { expiration } : {}) });
+    this.save();
+  }
+
+  async delete(key: string) {
+    if (this.fresh().delete(key)) this.save();
+  }
+
+  // Keys in byte order, paged by an opaque cursor (here just the offset)
+  async list({ prefix = "", limit = LIST_MAX, cursor }: ListOptions = {}) {
+    const keys = [...this.fresh()].filter(([k]) => k.startsWith(prefix)).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    const start = cursor ? Number(cursor) : 0;
+    const page = keys.slice(start, start + Math.min(limit, LIST_MAX));
+    const end = start + page.length;
+    const complete = end >= keys.length;
+    return {
+      keys: page.map(([name, e]) => ({
+        name,
+        ...(e.expiration ? { expiration: e.expiration } : {}),
+        ...(e.metadata !== undefined ? { metadata: e.metadata } : {}),
+      })),
+      list_complete: complete,
+      ...(complete ? {} : { cursor: String(end) }),
+      cacheStatus: null,
+    };
+  }
+
+  // Wipes everything, or only the keys under the given prefixes
+  clear(prefixes?: string[]) {
+    const entries = this.fresh();
+    for (const k of [...entries.keys()]) if (!prefixes || prefixes.some((p) => k.startsWith(p))) entries.delete(k);
+    this.save();
+  }
+}
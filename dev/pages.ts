@@ -0,0 +1,263 @@
+import fs from "node:fs";
+import path from "node:path";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { Plugin, ViteDevServer } from "vite";
+import { FileKV } from "./kv";
+
+// ---- Pages Functions inside `vite` ----
+// Mounts everything under functions/ on the dev server with Pages' file-based routing
+// ([param].ts, [[catchall]].ts, index.ts, _middleware.ts), loaded through Vite's SSR module
+// graph so edits apply on the next request. Bindings: WAITLIST is a FileKV persisted to
+// .dev/kv.json; variables come from .dev.vars (same format wrangler reads) on top of local
+// defaults, with email going to the KV outbox. Sent mail is browsable at /__dev/outbox.
+
+const FUNCTIONS_DIR = "functions";
+export const DEV_DATA_DIR = ".dev";
+export const KV_FILE = path.join(DEV_DATA_DIR, "kv.json");
+const DEV_VARS = ".dev.vars";
+const OUTBOX_PREFIX = "outbox:";          // mirrors functions/_lib/mail/outbox.ts
+const OUTBOX_PATH = "/__dev/outbox";
+
+// Enough to run the whole flow without any setup; .dev.vars overrides any of them
+const DEFAULT_VARS: Record<string, string> = {
+  EMAIL_PROVIDER: "outbox",
+  TOKEN_SECRET: "local-dev-secret-not-for-production",
+  ADMIN_TOKEN: "dev",
+  MAIL_FROM: "erlySense (dev) <noreply@localhost>",
+  LOG_LEVEL: "debug",
+  IP_RETENTION: "region",
+};
+
+type Handler = (context: Record<string, unknown>) => Promise<Response> | Response;
+
+interface Route {
+  file: string;
+  segments: string[];          // "api", "[id]", "[[path]]"
+  middleware: boolean;
+}
+
+// ---- Routing ----
+
+function scan(dir: string, base: string[] = []): Route[] {
+  if (!fs.existsSync(dir)) return [];
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap((d): Route[] => {
+    const full = path.join(dir, d.name);
+    if (d.isDirectory()) return d.name.startsWith("_") ? [] : scan(full, [...base, d.name]);
+    if (!/\.(ts|js)$/.test(d.name)) return [];
+    const name = d.name.replace(/\.(ts|js)$/, "");
+    if (name === "_middleware") return [{ file: full, segments: base, middleware: true }];
+    if (name.startsWith("_")) return [];
+    return [{ file: full, segments: name === "index" ? base : [...base, name], middleware: false }];
+  });
+}
+
+// Static segments beat [param], which beats [[catchall]]; deeper routes first
+function specificity(r: Route) {
+  return r.segments.map((s) => (s.startsWith("[[") ? 0 : s.startsWith("[") ? 1 : 2));
+}
+function compareRoutes(a: Route, b: Route) {
+  const sa = specificity(a), sb = specificity(b);
+  for (let i = 0; i < Math.max(sa.length, sb.length); i++) {
+    const d = (sb[i] ?? -1) - (sa[i] ?? -1);
+    if (d) return d;
+  }
+  return 0;
+}
+
+function match(route: Route, parts: string[]): Record<string, string | string[]> | null {
+  const params: Record<string, string | string[]> = {};
+  for (let i = 0; i < route.segments.length; i++) {
+    const seg = route.segments[i];
+    if (seg.startsWith("[[")) {
+      if (i >= parts.length) return null;
+      params[seg.slice(2, -2)] = parts.slice(i);
+      return params;
+    }
+    if (i >= parts.length) return null;
+    if (seg.startsWith("[")) params[seg.slice(1, -1)] = decodeURIComponent(parts[i]);
+    else if (seg !== parts[i]) return null;
+  }
+  return route.segments.length === parts.length ? params : null;
+}
+
+const within = (mw: Route, route: Route) => mw.segments.every((s, i) => route.segments[i] === s);
+
+// ---- Env ----
+
+function readDevVars(): Record<string, string> {
+  if (!fs.existsSync(DEV_VARS)) return {};
+  const vars: Record<string, string> = {};
+  for (const line of fs.readFileSync(DEV_VARS, "utf8").split(/\r?\n/)) {
+    const m = /^\s*([A-Z0-9_]+)\s*=\s*(.*?)\s*$/.exec(line);
+    if (!m || line.trim().startsWith("#")) continue;
+    vars[m[1]] = m[2].replace(/^(["'])(.*)\1$/, "$2");
+  }
+  return vars;
+}
+
+// ---- Node <-> fetch ----
+
+async function toRequest(req: IncomingMessage): Promise<Request> {
+  const original = (req as IncomingMessage & { originalUrl?: string }).originalUrl;
+  const url = new URL(original ?? req.url ?? "/", `http://${req.headers.host ?? "localhost"}`);
+  const headers = new Headers();
+  for (const [k, v] of Object.entries(req.headers)) if (v !== undefined) headers.set(k, Array.isArray(v) ? v.join(", ") : v);
+  headers.set("cf-connecting-ip", (req.socket.remoteAddress ?? "127.0.0.1").replace(/^::ffff:/, ""));
+  let body: Buffer | undefined;
+  if (req.method !== "GET" && req.method !== "HEAD") {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    body = Buffer.concat(chunks);
+  }
+  const request = new Request(url, { method: req.method, headers, body: body ? new Uint8Array(body) : undefined });
+  // The functions read the visitor's country from request.cf; "XX" is Cloudflare's "unknown"
+  Object.defineProperty(request, "cf", { value: { country: process.env.DEV_COUNTRY || "XX" } });
+  return request;
+}
+
+async function send(res: ServerResponse, response: Response, head: boolean) {
+  res.statusCode = response.status;
+  response.headers.forEach((v, k) => { if (k !== "set-cookie") res.setHeader(k, v); });
+  const cookies = response.headers.getSetCookie();
+  if (cookies.length) res.setHeader("set-cookie", cookies);
+  res.end(response.body && !head ? Buffer.from(await response.arrayBuffer()) : undefined);
+}
+
+// ---- Outbox UI ----
+
+const esc = (s: string) => s.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+
+interface OutboxEntry { from: string; to: string; subject: string; html: string; text?: string; at: string }
+
+async function outboxPage(kv: FileKV) {
+  const list = await kv.list({ prefix: OUTBOX_PREFIX });
+  const entries = (await Promise.all(list.keys.map((k) => kv.get(k.name, "json") as Promise<OutboxEntry | null>)))
+    .flatMap((e) => (e ? [e] : []))
+    .reverse();
+  const items = entries.map((e) => {
+    const links = [...e.html.matchAll(/href="([^"]+)"/g)].map((m) => m[1].replace(/&amp;/g, "&"));
+    return `<article>
+  <h2>${esc(e.subject)}</h2>
+  <p class="meta">${esc(e.at)} · to <b>${esc(e.to)}</b> · from ${esc(e.from)}</p>
+  ${links.length ? `<p class="links">${links.map((l) => `<a href="${esc(l)}">${esc(l.length > 90 ? `${l.slice(0, 90)}…` : l)}</a>`).join("<br>")}</p>` : ""}
+  <iframe sandbox="allow-popups allow-popups-to-escape-sandbox allow-top-navigation-by-user-activation" srcdoc="${esc(`<base target="_top">${e.html}`)}"></iframe>
+</article>`;
+  }).join("\n");
+  return `<!doctype html>
+<html lang="en"><head><meta charset="utf-8"><title>Dev outbox — erlySense</title>
+<style>
+  body{margin:0 auto;max-width:52rem;padding:1.5rem;font-family:system-ui,sans-serif;background:#08141C;color:#fff}
+  h1{font-size:1.2rem}h2{font-size:1rem;margin:0 0 .25rem}.meta{margin:0;color:#ffffffaa;font-size:.85rem}
+  article{margin:1rem 0;padding:1rem;border:1px solid #ffffff22;border-radius:.75rem;background:#ffffff0d}
+  .links{font-size:.8rem;word-break:break-all}a{color:#a6e8ff}
+  iframe{width:100%;height:22rem;margin-top:.5rem;border:0;border-radius:.5rem;background:#fff}
+  button{padding:.4rem .8rem;border-radius:.5rem;border:1px solid #ffffff33;background:#ffffff14;color:#fff;cursor:pointer}
+</style></head>
+<body>
+<h1>Dev outbox <small>(${entries.length})</small></h1>
+<form method="post" action="${OUTBOX_PATH}"><button>Clear outbox</button> <a href="/">Back to the site</a></form>
+${items || "<p>Nothing sent yet. Sign up on the landing page and the confirmation email lands here.</p>"}
+</body></html>`;
+}
+
+// ---- Plugin ----
+
+export function pagesFunctions(): Plugin {
+  let server: ViteDevServer;
+  const kv = new FileKV(KV_FILE);
+
+  const env = () => ({ ...DEFAULT_VARS, ...readDevVars(), WAITLIST: kv });
+
+  async function load(file: string) {
+    return server.ssrLoadModule(`/${file.split(path.sep).join("/")}`) as Promise<Record<string, unknown>>;
+  }
+
+  async function handle(req: IncomingMessage, res: ServerResponse, passThrough: () => void) {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const parts = url.pathname.split("/").filter(Boolean);
+    // Most dev requests are modules and assets; only scan when the path could belong to a function
+    const top = parts[0] ?? "index";
+    if (![top, `${top}.ts`, `${top}.js`].some((n) => fs.existsSync(path.join(FUNCTIONS_DIR, n)))) return passThrough();
+    const all = scan(FUNCTIONS_DIR);
+    const routes = all.filter((r) => !r.middleware).sort(compareRoutes);
+    let route: Route | undefined;
+    let params: Record<string, string | string[]> = {};
+    for (const r of routes) {
+      const p = match(r, parts);
+      if (p) { route = r; params = p; break; }
+    }
+    if (!route) return passThrough();
+
+    const method = (req.method ?? "GET").toUpperCase();
+    const mod = await load(route.file);
+    const handler = (mod[`onRequest${method[0]}${method.slice(1).toLowerCase()}`] ?? mod.onRequest) as Handler | undefined;
+    if (!handler) {
+      res.statusCode = 405;
+      res.end();
+      return;
+    }
+
+    // Outermost directory first, as Pages runs them
+    const middlewares = all.filter((m) => m.middleware && within(m, route!)).sort((a, b) => a.segments.length - b.segments.length);
+    const chain: Handler[] = [];
+    for (const m of middlewares) {
+      const exported = (await load(m.file)).onRequest as Handler | Handler[] | undefined;
+      chain.push(...(Array.isArray(exported) ? exported : exported ? [exported] : []));
+    }
+    chain.push(handler);
+
+    const data: Record<string, unknown> = {};
+    const background: Promise<unknown>[] = [];
+    const bindings = env();
+    const run = (i: number, request: Request): Promise<Response> => Promise.resolve(chain[i]({
+      request,
+      env: bindings,
+      params,
+      data,
+      functionPath: url.pathname,
+      waitUntil: (p: Promise<unknown>) => { background.push(p); },
+      passThroughOnException: () => {},
+      next: (input?: Request | string, init?: RequestInit) =>
+        i + 1 < chain.length ? run(i + 1, input ? new Request(input, init) : request) : Promise.resolve(new Response("Not found", { status: 404 })),
+    }));
+
+    const response = await run(0, await toRequest(req));
+    await send(res, response, method === "HEAD");
+    // Like the real runtime, background work outlives the response; surface its failures here
+    Promise.allSettled(background).then((results) => results.forEach((r) => {
+      if (r.status === "rejected") server.config.logger.error(`waitUntil: ${String(r.reason)}`);
+    }));
+  }
+
+  return {
+    name: "erlysense:pages-functions",
+    apply: "serve",
+    configureServer(s) {
+      server = s;
+      s.middlewares.use(OUTBOX_PATH, (req, res) => {
+        if (req.method === "POST") {
+          kv.clear([OUTBOX_PREFIX]);
+          res.statusCode = 303;
+          res.setHeader("Location", OUTBOX_PATH);
+          res.end();
+          return;
+        }
+        outboxPage(kv).then((html) => {
+          res.setHeader("Content-Type", "text/html; charset=utf-8");
+          res.end(html);
+        });
+      });
+      s.middlewares.use((req, res, next) => {
+        handle(req, res, next).catch((err) => {
+          server.ssrFixStacktrace(err as Error);
+          server.config.logger.error(`functions: ${(err as Error).stack ?? err}`);
+          if (!res.headersSent) { res.statusCode = 500; res.end("Function threw; see the dev server log"); }
+        });
+      });
+      s.httpServer?.once("listening", () => {
+        const vars = { ...DEFAULT_VARS, ...readDevVars() };
+        s.config.logger.info(`  Pages functions mounted from ${FUNCTIONS_DIR}/ · KV in ${KV_FILE} · mail at ${OUTBOX_PATH} · admin token "${vars.ADMIN_TOKEN}"`);
+      });
+    },
+  };
+}
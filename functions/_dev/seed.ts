@@ -0,0 +1,73 @@
+import { resolveCampus } from "../_lib/academic";
+import { creditReferral, ensureRefCode } from "../_lib/referrals";
+import { putRecord, recordKey, tagsFor, type WaitlistRecord } from "../_lib/waitlist";
+import { CURRENT_VERSIONS, type ConsentReceipt } from "../../src/legal";
+import type { Role } from "../../src/shared/institution";
+import type { Locale } from "../../src/shared/locale";
+
+// ---- Sample waitlist for local development ----
+// Loaded by scripts/dev-data.mjs into the dev server's file-backed KV (never deployed: nothing
+// under functions/_dev exports a route). Records go through the same helpers the functions use,
+// so list metadata, tags, referral codes and positions come out exactly as in production.
+
+interface Sample {
+  email: string;
+  daysAgo: number;
+  locale: Locale;
+  role?: Role;
+  institution?: string;
+  note?: string;
+  confirmed?: boolean;
+  referredBy?: string;           // email of an earlier sample, credited once this one confirms
+  region: string;
+}
+
+const SAMPLES: Sample[] = [
+  { email: "ada@mit.edu", daysAgo: 21, locale: "en", role: "researcher", confirmed: true, region: "US-MA", note: "Interested in the research API" },
+  { email: "lucia.romero@example.com", daysAgo: 18, locale: "es", role: "counselor", institution: "Colegio San Martín", confirmed: true, region: "ES-MD" },
+  { email: "priya@iitb.ac.in", daysAgo: 15, locale: "hi", role: "student", confirmed: true, referredBy: "ada@mit.edu", region: "IN-MH" },
+  { email: "camille@example.fr", daysAgo: 12, locale: "fr", role: "administrator", institution: "Lycée Victor Hugo", confirmed: true, region: "FR-IDF" },
+  { email: "omar@example.org", daysAgo: 9, locale: "ar", role: "student", confirmed: true, referredBy: "ada@mit.edu", region: "AE-DU" },
+  { email: "sam@ox.ac.uk", daysAgo: 6, locale: "en", role: "student", confirmed: true, referredBy: "priya@iitb.ac.in", region: "GB-OXF" },
+  { email: "jordan@example.net", daysAgo: 1, locale: "en", role: "counselor", region: "US-CA", note: "Our district has 12 schools" },
+  { email: "mei@stanford.edu", daysAgo: 0, locale: "en", role: "researcher", region: "US-CA" },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export async function seedWaitlist(kv: KVNamespace) {
+  // Oldest first, so referrers hold their codes before anyone names them
+  const ordered = [...SAMPLES].sort((a, b) => b.daysAgo - a.daysAgo);
+  const codes = new Map<string, string>();
+  for (const s of ordered) {
+    const at = new Date(Date.now() - s.daysAgo * DAY_MS).toISOString();
+    const campus = resolveCampus(s.email, s.institution || "");
+    const consent: ConsentReceipt = { at, locale: s.locale, checkbox: true, documents: { ...CURRENT_VERSIONS } };
+    const referredBy = s.referredBy ? codes.get(s.referredBy) : undefined;
+    const key = recordKey(s.email);
+    const record: WaitlistRecord = {
+      email: s.email,
+      note: s.note || "",
+      source: "coming-soon",
+      ua: null,
+      ip: null,
+      region: s.region,
+      at,
+      locale: s.locale,
+      consent,
+      state: s.confirmed ? "confirmed" : "pending",
+      touches: [{ at, source: "coming-soon", consent, ...(s.note ? { note: s.note } : {}) }],
+      ...(s.role ? { role: s.role } : {}),
+      ...(campus ? { campus } : {}),
+      tags: tagsFor(s.role, campus),
+      ...(s.confirmed ? { confirmed: { at, ip: null, ua: null, region: s.region } } : {}),
+      ...(referredBy ? { referredBy } : {}),
+    };
+    await putRecord(kv, key, record);
+    if (!s.confirmed) continue;
+    const withCode = await ensureRefCode(kv, key, record);
+    codes.set(s.email, withCode.ref!);
+    if (referredBy) await creditReferral(kv, referredBy, key);
+  }
+  return { records: SAMPLES.length, confirmed: SAMPLES.filter((s) => s.confirmed).length };
+}
@@ -0,0 +1,44 @@
+// ---- Bundled academic domain data ----
+// Suffixes cover national academic namespaces; the table maps well-known campus domains to the
+// institution's canonical name. Extend both as pilot conversations bring in new campuses.
+
+export const ACADEMIC_SUFFIXES = [
+  "edu",
+  "ac.uk", "ac.in", "edu.in", "res.in", "ac.jp", "ac.kr", "ac.nz", "ac.za", "ac.il", "ac.at", "ac.be",
+  "edu.au", "edu.sg", "edu.hk", "edu.cn", "edu.tw", "edu.my", "edu.pk", "edu.ng", "edu.br", "edu.mx",
+  "edu.ar", "edu.co", "edu.tr", "edu.eg", "edu.sa", "edu.ph",
+];
+
+export const KNOWN_INSTITUTIONS: Record<string, string> = {
+  "mit.edu": "Massachusetts Institute of Technology",
+  "stanford.edu": "Stanford University",
+  "harvard.edu": "Harvard University",
+  "berkeley.edu": "University of California, Berkeley",
+  "ucla.edu": "University of California, Los Angeles",
+  "umich.edu": "University of Michigan",
+  "utexas.edu": "The University of Texas at Austin",
+  "nyu.edu": "New York University",
+  "columbia.edu": "Columbia University",
+  "cmu.edu": "Carnegie Mellon University",
+  "gatech.edu": "Georgia Institute of Technology",
+  "uw.edu": "University of Washington",
+  "ox.ac.uk": "University of Oxford",
+  "cam.ac.uk": "University of Cambridge",
+  "imperial.ac.uk": "Imperial College London",
+  "ucl.ac.uk": "University College London",
+  "ed.ac.uk": "University of Edinburgh",
+  "iitb.ac.in": "Indian Institute of Technology Bombay",
+  "iitd.ac.in": "Indian Institute of Technology Delhi",
+  "iitm.ac.in": "Indian Institute of Technology Madras",
+  "iisc.ac.in": "Indian Institute of Science",
+  "du.ac.in": "University of Delhi",
+  "unimelb.edu.au": "University of Melbourne",
+  "sydney.edu.au": "University of Sydney",
+  "nus.edu.sg": "National University of Singapore",
+  "utoronto.ca": "University of Toronto",
+  "mcgill.ca": "McGill University",
+  "ubc.ca": "University of British Columbia",
+  "ethz.ch": "ETH Zurich",
+  "epfl.ch": "EPFL",
+  "tum.de": "Technical University of Munich",
+};
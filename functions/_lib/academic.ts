@@ -0,0 +1,47 @@
+import { institutionKey, normalizeInstitution } from "../../src/shared/institution";
+import { ACADEMIC_SUFFIXES, KNOWN_INSTITUTIONS } from "./academic-domains";
+
+// ---- Academic domain recognition ----
+
+export interface Campus {
+  name: string;         // canonical display name
+  key: string;          // grouping key (see institutionKey)
+  domain?: string;      // academic email domain, when the address had one
+  fromDomain: boolean;  // name came from our domain table rather than the free-text field
+}
+
+// Matches the domain or any parent domain: "cs.umich.edu" → "umich.edu"
+function lookupKnown(domain: string) {
+  const parts = domain.split(".");
+  for (let i = 0; i < parts.length - 1; i++) {
+    const candidate = parts.slice(i).join(".");
+    if (KNOWN_INSTITUTIONS[candidate]) return { domain: candidate, name: KNOWN_INSTITUTIONS[candidate] };
+  }
+  return null;
+}
+
+// The registrable academic domain ("cs.umich.edu" → "umich.edu"), or null for non-academic mail
+export function academicDomain(email: string) {
+  const domain = email.slice(email.lastIndexOf("@") + 1).toLowerCase();
+  const known = lookupKnown(domain);
+  if (known) return known.domain;
+  const suffix = ACADEMIC_SUFFIXES
+    .filter((s) => domain.endsWith(`.${s}`))
+    .sort((a, b) => b.length - a.length)[0];
+  if (!suffix) return null;
+  const labels = domain.slice(0, -suffix.length - 1).split(".");
+  return `${labels[labels.length - 1]}.${suffix}`;
+}
+
+// Known domains win over whatever was typed; otherwise the typed name is normalized
+export function resolveCampus(email: string, typed: string): Campus | null {
+  const domain = academicDomain(email) || undefined;
+  const known = domain ? lookupKnown(domain) : null;
+  if (known) return { name: known.name, key: institutionKey(known.name), domain, fromDomain: true };
+  if (typed.trim()) {
+    const name = normalizeInstitution(typed);
+    return { name, key: institutionKey(name), domain, fromDomain: false };
+  }
+  // Academic address with no name: group by domain until someone tells us the name
+  return domain ? { name: domain, key: institutionKey(domain), domain, fromDomain: false } : null;
+}
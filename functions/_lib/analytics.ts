@@ -0,0 +1,75 @@
+import { EVENTS, UTM_KEYS, type AnalyticsEvent, type Utm, type UtmKey } from "../../src/shared/analytics";
+import { EXPERIMENT_IDS, type Assignment, type ExperimentId } from "../../src/shared/experiments";
+
+// ---- Daily funnel counters ----
+// One KV value per UTC day: event totals plus the same totals broken down by each utm_* tag
+// and by A/B variant.
+// Increments are read-modify-write, so concurrent beacons can occasionally lose a count;
+// that's acceptable for funnel ratios and keeps us on plain KV.
+
+export const STATS_PREFIX = "stats:";
+const STATS_TTL_SECONDS = 400 * 24 * 60 * 60;   // a little over a year of history
+const MAX_UTM_VALUES = 50;                        // per tag per day; the rest count as "(other)"
+
+export type Counts = Partial<Record<AnalyticsEvent, number>>;
+
+export interface DayStats {
+  day: string;                                     // YYYY-MM-DD (UTC)
+  events: Counts;
+  utm: Partial<Record<UtmKey, Record<string, Counts>>>;
+  exp?: Partial<Record<ExperimentId, Record<string, Counts>>>;   // absent on days before experiments
+}
+
+export const dayOf = (d: Date) => d.toISOString().slice(0, 10);
+
+async function getDay(kv: KVNamespace, day: string): Promise<DayStats> {
+  return (await kv.get<DayStats>(`${STATS_PREFIX}${day}`, "json")) || { day, events: {}, utm: {} };
+}
+
+export async function recordEvent(kv: KVNamespace, event: AnalyticsEvent, utm: Utm = {}, exp: Assignment = {}) {
+  const stats = await getDay(kv, dayOf(new Date()));
+  stats.events[event] = (stats.events[event] || 0) + 1;
+  for (const k of UTM_KEYS) {
+    const value = utm[k];
+    if (!value) continue;
+    const byValue = (stats.utm[k] ||= {});
+    const bucket = value in byValue || Object.keys(byValue).length < MAX_UTM_VALUES ? value : "(other)";
+    const counts = (byValue[bucket] ||= {});
+    counts[event] = (counts[event] || 0) + 1;
+  }
+  // Variants are a fixed, short list (see src/shared/experiments), so no overflow bucket is needed
+  for (const id of EXPERIMENT_IDS) {
+    const variant = exp[id];
+    if (!variant) continue;
+    const byVariant = ((stats.exp ||= {})[id] ||= {});
+    const counts = (byVariant[variant] ||= {});
+    counts[event] = (counts[event] || 0) + 1;
+  }
+  await kv.put(`${STATS_PREFIX}${stats.day}`, JSON.stringify(stats), { expirationTtl: STATS_TTL_SECONDS });
+}
+
+// Most recent `days` days, oldest first; days without traffic come back empty
+export async function readDays(kv: KVNamespace, days: number): Promise<DayStats[]> {
+  const today = Date.now();
+  const keys = Array.from({ length: days }, (_, i) => dayOf(new Date(today - (days - 1 - i) * 864e5)));
+  return Promise.all(keys.map((day) => getDay(kv, day)));
+}
+
+export function sumCounts(list: Counts[]): Record<AnalyticsEvent, number> {
+  const total = Object.fromEntries(EVENTS.map((e) => [e, 0])) as Record<AnalyticsEvent, number>;
+  for (const c of list) for (const e of EVENTS) total[e] += c[e] || 0;
+  return total;
+}
+
+const rate = (num: number, den: number) => (den ? num / den : null);
+
+// Conversion through the form funnel, against page views. Not step to step: the "open" form
+// variant shows the form without a click, so interest_click is no denominator for what follows.
+export function funnelRates(t: Record<AnalyticsEvent, number>) {
+  return {
+    open: rate(t.interest_click, t.page_view),        // views where the form was opened by the button
+    submit: rate(t.submit, t.page_view),              // views that sent the form
+    success: rate(t.submit_success, t.submit),        // sends the server accepted
+    overall: rate(t.submit_success, t.page_view),
+  };
+}
@@ -0,0 +1,89 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { FileKV } from "../../dev/kv";
+import { onRequestPatch as patchCampaign } from "../api/admin/campaigns/[id]";
+import { onRequestPost as sendCampaign } from "../api/admin/campaigns/[id]/send";
+import { createCampaign, getCampaign, saveCampaign } from "./campaigns";
+import type { Env } from "./env";
+import { configureLogging } from "./log";
+import { OUTBOX_PREFIX } from "./mail/outbox";
+import { putRecord, recordKey, type WaitlistRecord } from "./waitlist";
+
+// ---- Campaign sends: pausing and resuming ----
+// The admin routes against the dev stack's file-backed KV, with mail going to the outbox.
+
+let dir: string;
+let env: Env;
+
+const subscriber: WaitlistRecord = {
+  email: "ada@mit.edu", note: "", source: "coming-soon", ua: null, ip: null,
+  at: "2026-10-01T12:00:00.000Z", state: "confirmed", touches: [], locale: "en",
+  confirmed: { at: "2026-10-01T12:05:00.000Z", ip: null, ua: null },
+};
+
+async function call(handler: PagesFunction<Env, "id">, id: string, init: RequestInit & { query?: string } = {}) {
+  const request = new Request(`https://erlysense.example/api/admin/campaigns/${id}${init.query ?? ""}`, init);
+  const context = { request, env, params: { id }, data: {}, waitUntil: () => {} };
+  return handler(context as unknown as Parameters<PagesFunction<Env, "id">>[0]);
+}
+
+const send = (id: string, query = "") => call(sendCampaign, id, { method: "POST", query: `/send${query}` });
+const setStatus = (id: string, status: string) =>
+  call(patchCampaign, id, { method: "PATCH", headers: { "Content-Type": "application/json" }, body: JSON.stringify({ status }) });
+
+async function outbox() {
+  return (await env.WAITLIST!.list({ prefix: OUTBOX_PREFIX })).keys;
+}
+
+async function pausedCampaign() {
+  const campaign = await createCampaign(env.WAITLIST!, { name: "Launch", template: "launch", content: { url: "https://erlysense.example/" }, segment: {} });
+  await saveCampaign(env.WAITLIST!, { ...campaign, status: "paused" });
+  return campaign.id;
+}
+
+beforeAll(() => {
+  configureLogging({ LOG_LEVEL: "silent" });
+});
+
+beforeEach(async () => {
+  dir = mkdtempSync(path.join(tmpdir(), "campaigns-test-"));
+  const kv = new FileKV(path.join(dir, "kv.json")) as unknown as KVNamespace;
+  env = { WAITLIST: kv, TOKEN_SECRET: "test-secret", EMAIL_PROVIDER: "outbox", CAMPAIGN_RATE_PER_SEC: "1000" };
+  await putRecord(kv, recordKey(subscriber.email), subscriber);
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("paused campaigns", () => {
+  it("refuses to send, or retry, until resumed", async () => {
+    const id = await pausedCampaign();
+
+    for (const query of ["", "?retryFailed=1"]) {
+      const res = await send(id, query);
+      expect(res.status).toBe(409);
+      expect(await res.json()).toEqual({ ok: false, error: "Campaign is paused" });
+    }
+    expect(await outbox()).toEqual([]);
+    expect((await getCampaign(env.WAITLIST!, id))?.status).toBe("paused");
+  });
+
+  it("sends again once resumed", async () => {
+    const id = await pausedCampaign();
+
+    expect((await setStatus(id, "sending")).status).toBe(200);
+    const res = await send(id);
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({ ok: true, processed: 1, campaign: { status: "done", stats: { sent: 1 } } });
+    expect(await outbox()).toHaveLength(1);
+  });
+
+  it("only resumes a paused campaign", async () => {
+    const { id } = await createCampaign(env.WAITLIST!, { name: "Launch", template: "launch", content: { url: "https://erlysense.example/" }, segment: {} });
+    expect((await setStatus(id, "sending")).status).toBe(409);
+    expect((await setStatus(id, "done")).status).toBe(400);
+  });
+});
@@ -0,0 +1,170 @@
+import type { Env } from "./env";
+import { sendEmail } from "./email";
+import { listUnsubscribeHeaders, unsubscribeLink } from "./links";
+import { announcementEmail, betaInviteEmail, launchEmail, type Rendered } from "./mail/templates";
+import { queryWaitlist, type WaitlistFilter } from "./query";
+import { hashId } from "./ratelimit";
+import { getTombstone, normalizeEmail } from "./waitlist";
+import type { Locale } from "../../src/shared/locale";
+
+// ---- Broadcast campaigns ----
+// A campaign walks the waitlist in KV-list order, one batch per admin call. The list cursor is
+// saved after each batch and every recipient gets a status key, so a run that dies halfway
+// resumes without emailing anyone twice. Status keys hold a keyed hash of the address, never the
+// address itself, and expire on their own, so erasing a subscriber leaves nothing behind here.
+
+export type CampaignTemplate = "announcement" | "launch" | "beta-invite";
+export type CampaignStatus = "draft" | "sending" | "paused" | "done";
+export type RecipientStatus = "sent" | "queued" | "failed" | "skipped";
+
+export interface CampaignContent {
+  subject?: string;           // announcement only
+  heading?: string;
+  body?: string;              // paragraphs separated by blank lines
+  url?: string;               // CTA target (announcement optional; launch/beta-invite required)
+  ctaLabel?: string;
+}
+
+export interface Campaign {
+  id: string;
+  name: string;
+  template: CampaignTemplate;
+  content: CampaignContent;
+  // Who gets it. Only confirmed subscribers are ever targeted, whatever the filter says.
+  segment: Omit<WaitlistFilter, "state">;
+  status: CampaignStatus;
+  createdAt: string;
+  lastRunAt?: string;
+  cursor: string | null;      // KV list cursor of the next unscanned page
+  stats: Record<RecipientStatus, number>;
+}
+
+export interface Recipient {
+  status: RecipientStatus;
+  at: string;
+  error?: string;
+}
+
+const TEMPLATES: CampaignTemplate[] = ["announcement", "launch", "beta-invite"];
+const DEFAULT_BATCH = 25;
+const DEFAULT_RATE_PER_SEC = 2;   // Resend's default API limit; raise via CAMPAIGN_RATE_PER_SEC
+
+const campaignKey = (id: string) => `campaign:${id}`;
+const recipientPrefix = (id: string) => `campaign-r:${id}:`;
+const recipientKey = async (secret: string, id: string, email: string) => `${recipientPrefix(id)}${await hashId(secret, `campaign:${normalizeEmail(email)}`)}`;
+// Long enough to finish and retry any campaign; retryFailed is refused once the keys may be gone
+export const RECIPIENT_TTL_SECONDS = 90 * 24 * 60 * 60;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export function isTemplate(value: unknown): value is CampaignTemplate {
+  return TEMPLATES.includes(value as CampaignTemplate);
+}
+
+// Returns an error message, or null when the campaign can be rendered
+export function validateContent(template: CampaignTemplate, c: CampaignContent) {
+  if (template === "announcement" && (!c.subject || !c.heading || !c.body)) return "Announcements need a subject, heading and body";
+  if (template !== "announcement" && !c.url) return `The ${template} template needs a url`;
+  if (c.url && !/^https:\/\//.test(c.url)) return "Links must be https://";
+  return null;
+}
+
+export function renderCampaign(c: Campaign, unsubscribeUrl: string, locale?: Locale): Rendered {
+  switch (c.template) {
+    case "launch":
+      return launchEmail({ url: c.content.url!, unsubscribeUrl, locale });
+    case "beta-invite":
+      return betaInviteEmail({ inviteUrl: c.content.url!, unsubscribeUrl, locale });
+    case "announcement":
+      return announcementEmail({
+        subject: c.content.subject!,
+        heading: c.content.heading!,
+        paragraphs: c.content.body!.split(/\n\s*\n/).map((p) => p.trim()).filter(Boolean),
+        cta: c.content.url ? { label: c.content.ctaLabel, url: c.content.url } : undefined,
+        unsubscribeUrl,
+        locale,
+      });
+  }
+}
+
+export async function createCampaign(kv: KVNamespace, input: Pick<Campaign, "name" | "template" | "content" | "segment">) {
+  const campaign: Campaign = {
+    ...input,
+    id: `${Date.now().toString(36)}-${crypto.randomUUID().slice(0, 8)}`,
+    status: "draft",
+    createdAt: new Date().toISOString(),
+    cursor: null,
+    stats: { sent: 0, queued: 0, failed: 0, skipped: 0 },
+  };
+  await saveCampaign(kv, campaign);
+  return campaign;
+}
+
+export async function getCampaign(kv: KVNamespace, id: string) {
+  return kv.get<Campaign>(campaignKey(id), "json");
+}
+
+export async function saveCampaign(kv: KVNamespace, c: Campaign) {
+  await kv.put(campaignKey(c.id), JSON.stringify(c));
+}
+
+export async function listCampaigns(kv: KVNamespace) {
+  const list = await kv.list({ prefix: "campaign:" });
+  const all = await Promise.all(list.keys.map((k) => kv.get<Campaign>(k.name, "json")));
+  return all.filter((c): c is Campaign => !!c).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function listRecipients(kv: KVNamespace, id: string, status?: RecipientStatus) {
+  const out: Recipient[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await kv.list({ prefix: recipientPrefix(id), cursor });
+    const values = await Promise.all(page.keys.map((k) => kv.get<Recipient>(k.name, "json")));
+    values.forEach((r) => { if (r && (!status || r.status === status)) out.push(r); });
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
+  return out;
+}
+
+// Sends one throttled batch and advances the cursor. Call repeatedly until status is "done".
+export async function runBatch(env: Env, request: Request, c: Campaign, batchSize = DEFAULT_BATCH) {
+  const kv = env.WAITLIST!;
+  const secret = env.TOKEN_SECRET!;
+  const gapMs = 1000 / (Number(env.CAMPAIGN_RATE_PER_SEC) || DEFAULT_RATE_PER_SEC);
+
+  const page = await queryWaitlist(kv, { ...c.segment, state: "confirmed" }, { cursor: c.cursor, limit: batchSize });
+  for (const row of page.items) {
+    const rKey = await recipientKey(secret, c.id, row.email);
+    const prior = await kv.get<Recipient>(rKey, "json");
+    if (prior && prior.status !== "failed") continue; // already handled in an earlier run
+
+    let status: RecipientStatus;
+    let error: string | undefined;
+    if (await getTombstone(kv, row.email)) {
+      status = "skipped"; // unsubscribed/deleted but somehow re-imported; never email them
+    } else {
+      const unsubscribeUrl = await unsubscribeLink(request, secret, row.key);
+      const outcome = await sendEmail(env, {
+        to: row.email,
+        ...renderCampaign(c, unsubscribeUrl, row.locale),
+        headers: await listUnsubscribeHeaders(request, secret, row.key),
+      });
+      status = outcome;
+      if (outcome === "failed") error = "Provider rejected the message";
+      await sleep(gapMs);
+    }
+
+    if (prior?.status === "failed") c.stats.failed--;
+    c.stats[status]++;
+    const rec: Recipient = { status, at: new Date().toISOString(), ...(error ? { error } : {}) };
+    await kv.put(rKey, JSON.stringify(rec), { expirationTtl: RECIPIENT_TTL_SECONDS });
+  }
+
+  c.cursor = page.cursor;
+  c.lastRunAt = new Date().toISOString();
+  // A pause that landed while this batch was sending still holds
+  const latest = await getCampaign(kv, c.id);
+  c.status = !page.cursor ? "done" : latest?.status === "paused" ? "paused" : "sending";
+  await saveCampaign(kv, c);
+  return { processed: page.items.length, campaign: c };
+}
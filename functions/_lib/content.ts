@@ -0,0 +1,54 @@
+import { DEFAULT_CONTENT, validateLandingContent, type LandingContent } from "../../src/shared/content";
+import { log } from "./log";
+
+// ---- Landing content storage ----
+// The published config lives under one KV key; previews are short-lived drafts under random ids,
+// so a preview link can be shared with a teammate without exposing the admin token.
+
+const LIVE_KEY = "content:live";
+const DRAFT_PREFIX = "content:draft:";
+const DRAFT_TTL_SECONDS = 24 * 60 * 60;
+
+export interface StoredContent {
+  content: LandingContent;
+  publishedAt?: string;
+}
+
+// A stored config that no longer validates (e.g. after a schema change) falls back to the default
+// rather than breaking the landing page
+function checked(stored: StoredContent | null): StoredContent | null {
+  if (!stored) return null;
+  const result = validateLandingContent(stored.content);
+  if (!result.ok) {
+    log.error("Stored content config is invalid, serving the default", { errors: result.errors });
+    return null;
+  }
+  return { ...stored, content: result.value };
+}
+
+export async function readLiveContent(kv: KVNamespace): Promise<StoredContent & { source: "kv" | "default" }> {
+  const stored = checked(await kv.get<StoredContent>(LIVE_KEY, "json"));
+  return stored ? { ...stored, source: "kv" } : { content: DEFAULT_CONTENT, source: "default" };
+}
+
+export async function publishContent(kv: KVNamespace, content: LandingContent) {
+  const stored: StoredContent = { content, publishedAt: new Date().toISOString() };
+  await kv.put(LIVE_KEY, JSON.stringify(stored));
+  return stored;
+}
+
+// Back to src/content/landing.json
+export async function resetContent(kv: KVNamespace) {
+  await kv.delete(LIVE_KEY);
+}
+
+export async function saveDraft(kv: KVNamespace, content: LandingContent) {
+  const id = crypto.randomUUID();
+  await kv.put(`${DRAFT_PREFIX}${id}`, JSON.stringify({ content }), { expirationTtl: DRAFT_TTL_SECONDS });
+  return id;
+}
+
+export async function readDraft(kv: KVNamespace, id: string) {
+  if (!/^[0-9a-f-]{36}$/.test(id)) return null;
+  return checked(await kv.get<StoredContent>(`${DRAFT_PREFIX}${id}`, "json"));
+}
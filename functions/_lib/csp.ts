@@ -0,0 +1,73 @@
+// ---- Content-Security-Policy violation reports ----
+// Browsers send two formats: the legacy report-uri body ({ "csp-report": { "document-uri", … } },
+// application/csp-report) and the Reporting API batch ([{ type: "csp-violation", body: { documentURL, … } }],
+// application/reports+json). Both are boiled down to a CspReport and kept, like the webhook delivery
+// log, as KV metadata under an inverted timestamp so listing returns the newest first.
+
+export const CSP_REPORT_PREFIX = "csp:";
+
+const REPORT_TTL_SECONDS = 30 * 24 * 60 * 60;
+const MAX_PER_REQUEST = 10;
+const URL_MAX = 200;
+
+export interface CspReport {
+  at: string;
+  document: string;              // page the violation happened on (no query string)
+  blocked: string;               // blocked URL, or "inline" / "eval" / …
+  directive: string;             // effective directive, e.g. "style-src-elem"
+  disposition: "enforce" | "report";
+  source?: string;               // file:line where the offending code sits
+  sample?: string;               // first 40 characters of the inline code, when the policy asks for it
+}
+
+const str = (v: unknown) => (typeof v === "string" ? v : "");
+
+// Query strings and fragments can hold tokens (status links, previews); keep origin and path only
+function scrubUrl(v: unknown) {
+  const raw = str(v);
+  try {
+    const u = new URL(raw);
+    return `${u.origin}${u.pathname}`.slice(0, URL_MAX);
+  } catch {
+    return raw.slice(0, URL_MAX);    // "inline", "eval", "data" and other keywords
+  }
+}
+
+function normalize(r: Record<string, unknown>, at: string): CspReport | null {
+  const document = scrubUrl(r.documentURL ?? r["document-uri"]);
+  const directive = str(r.effectiveDirective ?? r["effective-directive"] ?? r["violated-directive"]).slice(0, 60);
+  if (!document || !directive) return null;
+  const file = scrubUrl(r.sourceFile ?? r["source-file"]);
+  const line = r.lineNumber ?? r["line-number"];
+  const sample = str(r.sample ?? r["script-sample"]).slice(0, 40);
+  return {
+    at,
+    document,
+    blocked: scrubUrl(r.blockedURL ?? r["blocked-uri"]) || "inline",
+    directive,
+    disposition: r.disposition === "report" ? "report" : "enforce",
+    ...(file ? { source: typeof line === "number" ? `${file}:${line}` : file } : {}),
+    ...(sample ? { sample } : {}),
+  };
+}
+
+const isObject = (v: unknown): v is Record<string, unknown> => !!v && typeof v === "object" && !Array.isArray(v);
+
+// Either format in, zero or more reports out; anything unrecognizable is dropped
+export function parseCspReports(input: unknown): CspReport[] {
+  const at = new Date().toISOString();
+  const bodies = Array.isArray(input)
+    ? input.filter((e) => isObject(e) && e.type === "csp-violation" && isObject(e.body)).map((e) => e.body as Record<string, unknown>)
+    : isObject(input) && isObject(input["csp-report"]) ? [input["csp-report"]] : [];
+  return bodies.slice(0, MAX_PER_REQUEST).flatMap((b) => normalize(b, at) ?? []);
+}
+
+export async function storeCspReport(kv: KVNamespace, report: CspReport) {
+  const inverted = String(9_999_999_999_999 - Date.now()).padStart(13, "0");
+  await kv.put(`${CSP_REPORT_PREFIX}${inverted}:${crypto.randomUUID()}`, "", { expirationTtl: REPORT_TTL_SECONDS, metadata: report });
+}
+
+export async function readCspReports(kv: KVNamespace, limit = 100) {
+  const list = await kv.list<CspReport>({ prefix: CSP_REPORT_PREFIX, limit });
+  return list.keys.flatMap((k) => (k.metadata ? [k.metadata] : []));
+}
@@ -0,0 +1,121 @@
+import type { Env } from "./env";
+import { log } from "./log";
+import { outbox } from "./mail/outbox";
+import { postmark } from "./mail/postmark";
+import { resend } from "./mail/resend";
+import { sendgrid } from "./mail/sendgrid";
+import type { Message, SendResult, Transport } from "./mail/transport";
+
+export type { Message };
+
+// ---- Outbound email: provider choice, retries and the retry queue ----
+
+const DEFAULT_FROM = "erlySense <noreply@mail.erlysense.example>";
+
+// Quick in-request retries for blips, then the KV queue takes over with longer gaps
+const INLINE_DELAYS_MS = [0, 250, 1000];
+const QUEUE_BACKOFF_MS = [60_000, 5 * 60_000, 30 * 60_000, 2 * 60 * 60_000, 12 * 60 * 60_000];
+const LEASE_MS = 5 * 60_000;
+const DEAD_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+export const QUEUE_PREFIX = "mailq:";
+export const DEAD_PREFIX = "mailq-dead:";
+
+export interface QueuedMail {
+  msg: Message;
+  attempts: number;
+  nextAt: number;
+  queuedAt: string;
+  lastError?: string;
+}
+
+// "sent": provider accepted it · "queued": will be retried later · "failed": dropped (misconfigured or rejected)
+export type SendOutcome = "sent" | "queued" | "failed";
+
+export function transportFor(env: Env): Transport | null {
+  const provider = env.EMAIL_PROVIDER
+    || (env.RESEND_API_KEY ? "resend" : env.SENDGRID_API_KEY ? "sendgrid" : env.POSTMARK_SERVER_TOKEN ? "postmark" : null);
+  switch (provider) {
+    case "resend":   return env.RESEND_API_KEY ? resend(env.RESEND_API_KEY) : null;
+    case "sendgrid": return env.SENDGRID_API_KEY ? sendgrid(env.SENDGRID_API_KEY) : null;
+    case "postmark": return env.POSTMARK_SERVER_TOKEN ? postmark(env.POSTMARK_SERVER_TOKEN) : null;
+    case "outbox":   return env.WAITLIST ? outbox(env.WAITLIST) : null;
+    default:         return null;
+  }
+}
+
+async function attempt(t: Transport, from: string, msg: Message): Promise<SendResult> {
+  try {
+    return await t.send(from, msg);
+  } catch (err) {
+    return { ok: false, retryable: true, error: String(err) }; // network errors are transient
+  }
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function enqueue(kv: KVNamespace, msg: Message, error?: string) {
+  const item: QueuedMail = { msg, attempts: 0, nextAt: Date.now() + QUEUE_BACKOFF_MS[0], queuedAt: new Date().toISOString(), lastError: error };
+  await kv.put(`${QUEUE_PREFIX}${crypto.randomUUID()}`, JSON.stringify(item), { metadata: { nextAt: item.nextAt } });
+}
+
+// Never throws. Transient failures land in the queue rather than being lost.
+export async function sendEmail(env: Env, msg: Message): Promise<SendOutcome> {
+  const t = transportFor(env);
+  if (!t) {
+    log.error("No email provider configured; dropping message", { subject: msg.subject });
+    return "failed";
+  }
+  const from = env.MAIL_FROM || DEFAULT_FROM;
+  let last: SendResult = { ok: false };
+  for (const delay of INLINE_DELAYS_MS) {
+    if (delay) await sleep(delay);
+    last = await attempt(t, from, msg);
+    if (last.ok) return "sent";
+    if (!last.retryable) break;
+  }
+  log.warn("Email send failed", { provider: t.name, to: msg.to, error: last.error });
+  if (last.retryable && env.WAITLIST) {
+    await enqueue(env.WAITLIST, msg, last.error);
+    return "queued";
+  }
+  return "failed";
+}
+
+// Retries due queue entries. Safe to call from waitUntil on any request; a short lease keeps
+// two overlapping drains from double-sending (best effort — KV is eventually consistent).
+export async function drainMailQueue(env: Env, max = 20) {
+  const result = { sent: 0, retrying: 0, dead: 0 };
+  const t = transportFor(env);
+  if (!t || !env.WAITLIST) return result;
+  const kv = env.WAITLIST;
+  const from = env.MAIL_FROM || DEFAULT_FROM;
+  const now = Date.now();
+
+  const list = await kv.list<{ nextAt: number }>({ prefix: QUEUE_PREFIX });
+  const due = list.keys.filter((k) => (k.metadata?.nextAt ?? 0) <= now).slice(0, max);
+  for (const k of due) {
+    const item = await kv.get<QueuedMail>(k.name, "json");
+    if (!item) continue;
+    await kv.put(k.name, JSON.stringify(item), { metadata: { nextAt: now + LEASE_MS } });
+
+    const r = await attempt(t, from, item.msg);
+    if (r.ok) {
+      await kv.delete(k.name);
+      result.sent++;
+      continue;
+    }
+    const next: QueuedMail = { ...item, attempts: item.attempts + 1, lastError: r.error };
+    if (!r.retryable || next.attempts >= QUEUE_BACKOFF_MS.length) {
+      log.error("Mail queue giving up", { subject: item.msg.subject, attempts: next.attempts, error: r.error });
+      await kv.put(`${DEAD_PREFIX}${k.name.slice(QUEUE_PREFIX.length)}`, JSON.stringify(next), { expirationTtl: DEAD_TTL_SECONDS });
+      await kv.delete(k.name);
+      result.dead++;
+    } else {
+      next.nextAt = Date.now() + QUEUE_BACKOFF_MS[next.attempts];
+      await kv.put(k.name, JSON.stringify(next), { metadata: { nextAt: next.nextAt } });
+      result.retrying++;
+    }
+  }
+  return result;
+}
@@ -0,0 +1,16 @@
+export interface Env {
+  // Bindings (configure in Cloudflare Pages → Settings → Functions → Environment Variables/Bindings)
+  EMAIL_PROVIDER?: "resend" | "sendgrid" | "postmark" | "outbox"; // default: whichever key below is set
+  MAIL_FROM?: string;        // e.g. "erlySense <noreply@mail.erlysense.example>"
+  RESEND_API_KEY?: string;
+  SENDGRID_API_KEY?: string;
+  POSTMARK_SERVER_TOKEN?: string;
+  CAMPAIGN_RATE_PER_SEC?: string; // broadcast throttle; keep under the provider's API limit (default 2)
+  NOTIFY_TO?: string;        // e.g. "founders@erlysense.example"
+  WEBHOOKS?: string;         // JSON array of outbound webhook targets (Slack, signed JSON, CRM); see _lib/webhooks.ts
+  WAITLIST?: KVNamespace;    // KV namespace binding name: WAITLIST
+  TOKEN_SECRET?: string;     // HMAC key for confirmation links (any long random string)
+  ADMIN_TOKEN?: string;      // shared bearer secret for /api/admin/* (and the /admin dashboard)
+  LOG_LEVEL?: string;        // debug | info | warn | error | silent (default info)
+  IP_RETENTION?: string;     // region | hashed | full: what signup records keep of IP/user agent (default region)
+}
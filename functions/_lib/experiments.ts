@@ -0,0 +1,42 @@
+// ---- A/B report statistics ----
+// A pooled two-proportion z-test per variant against the control. Good enough to tell a real
+// difference from noise on a landing page; it does not correct for peeking or for several
+// variants at once, so treat p-values near 0.05 as "keep running", not "ship it".
+
+export interface ProportionTest {
+  lift: number | null;               // relative change vs. control
+  diff: number;                      // absolute difference in rate
+  ci95: [number, number];            // unpooled 95% interval for the difference
+  z: number | null;
+  p: number | null;                  // two-sided
+  significant: boolean;              // p < 0.05
+}
+
+// Abramowitz & Stegun 7.1.26; max error ~1.5e-7, plenty for a p-value
+function erf(x: number) {
+  const sign = Math.sign(x);
+  const t = 1 / (1 + 0.3275911 * Math.abs(x));
+  const y = 1 - ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-x * x);
+  return sign * y;
+}
+
+const normalCdf = (z: number) => 0.5 * (1 + erf(z / Math.SQRT2));
+
+// Successes/trials for the control (a) and a variant (b)
+export function twoProportionTest(a: { x: number; n: number }, b: { x: number; n: number }): ProportionTest | null {
+  if (!a.n || !b.n) return null;
+  const pa = a.x / a.n, pb = b.x / b.n;
+  const pooled = (a.x + b.x) / (a.n + b.n);
+  const se = Math.sqrt(pooled * (1 - pooled) * (1 / a.n + 1 / b.n));
+  const z = se ? (pb - pa) / se : null;
+  const p = z === null ? null : 2 * (1 - normalCdf(Math.abs(z)));
+  const seDiff = Math.sqrt((pa * (1 - pa)) / a.n + (pb * (1 - pb)) / b.n);
+  return {
+    lift: pa ? (pb - pa) / pa : null,
+    diff: pb - pa,
+    ci95: [pb - pa - 1.96 * seDiff, pb - pa + 1.96 * seDiff],
+    z,
+    p,
+    significant: p !== null && p < 0.05,
+  };
+}
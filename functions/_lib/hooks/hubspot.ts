@@ -0,0 +1,37 @@
+import type { Driver } from "./target";
+
+// HubSpot-style CRM: contacts upserted by email through the batch upsert endpoint, with the
+// waitlist state in custom properties (create erlysense_status / erlysense_source / … in the CRM
+// first). Erasure requests use the GDPR delete endpoint instead, so nothing is left behind.
+// `url` is the API base (https://api.hubapi.com), which lets a local stand-in take its place.
+
+export const hubspot: Driver = {
+  async request(target, payload) {
+    const base = target.url.replace(/\/+$/, "");
+    const headers = { "Content-Type": "application/json", ...(target.token ? { Authorization: `Bearer ${target.token}` } : {}) };
+    const s = payload.subscriber;
+
+    if (payload.event === "unsubscribed" && payload.reason === "deleted") {
+      return {
+        url: `${base}/crm/v3/objects/contacts/gdpr-delete`,
+        init: { method: "POST", headers, body: JSON.stringify({ idProperty: "email", objectId: s.email }) },
+      };
+    }
+
+    const status = payload.event === "unsubscribed" ? "unsubscribed" : "confirmed";
+    const properties: Record<string, string> = {
+      email: s.email,
+      erlysense_status: status,
+      ...(s.source ? { erlysense_source: s.source } : {}),
+      ...(s.role ? { erlysense_role: s.role } : {}),
+      ...(s.institution ? { company: s.institution } : {}),
+      ...(s.locale ? { hs_language: s.locale } : {}),
+      ...(s.signedUpAt ? { erlysense_signed_up_at: s.signedUpAt } : {}),
+      ...(s.confirmedAt ? { erlysense_confirmed_at: s.confirmedAt } : {}),
+    };
+    return {
+      url: `${base}/crm/v3/objects/contacts/batch/upsert`,
+      init: { method: "POST", headers, body: JSON.stringify({ inputs: [{ idProperty: "email", id: s.email, properties }] }) },
+    };
+  },
+};
@@ -0,0 +1,28 @@
+import type { Driver } from "./target";
+
+// Generic JSON webhook. The body is the payload as-is; receivers verify
+//   X-Erlysense-Signature: sha256=<hex HMAC-SHA256 of "<timestamp>.<raw body>">
+// with the shared secret, and reject timestamps more than a few minutes old to stop replays.
+
+const enc = new TextEncoder();
+
+async function sign(secret: string, message: string) {
+  const key = await crypto.subtle.importKey("raw", enc.encode(secret), { name: "HMAC", hash: "SHA-256" }, false, ["sign"]);
+  const sig = await crypto.subtle.sign("HMAC", key, enc.encode(message));
+  return Array.from(new Uint8Array(sig), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+export const jsonWebhook: Driver = {
+  async request(target, payload) {
+    const body = JSON.stringify(payload);
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      "X-Erlysense-Event": payload.event,
+      "X-Erlysense-Delivery": payload.id,
+      "X-Erlysense-Timestamp": timestamp,
+    };
+    if (target.secret) headers["X-Erlysense-Signature"] = `sha256=${await sign(target.secret, `${timestamp}.${body}`)}`;
+    return { url: target.url, init: { method: "POST", headers, body } };
+  },
+};
@@ -0,0 +1,25 @@
+import type { Driver, WebhookPayload } from "./target";
+
+// Slack incoming webhook: a one-line message for the founders' channel
+
+function describe(p: WebhookPayload) {
+  const s = p.subscriber;
+  const details = [s.role, s.institution, s.source, s.locale].filter(Boolean).join(" · ");
+  switch (p.event) {
+    case "confirmed":    return `:white_check_mark: Confirmed: ${s.email}${details ? ` — ${details}` : ""}`;
+    case "unsubscribed": return p.reason === "deleted" ? `:wastebasket: Data deleted on request: ${s.email}` : `:no_bell: Unsubscribed: ${s.email}`;
+  }
+}
+
+export const slack: Driver = {
+  async request(target, payload) {
+    return {
+      url: target.url,
+      init: {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ text: describe(payload) }),
+      },
+    };
+  },
+};
@@ -0,0 +1,55 @@
+// ---- Webhook target contract ----
+
+// Only subscribers who confirmed are ever reported: a pending signup is an unproven claim on
+// someone's address, and never leaves our storage
+export const WEBHOOK_EVENTS = ["confirmed", "unsubscribed"] as const;
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+export const TARGET_TYPES = ["slack", "json", "hubspot"] as const;
+export type TargetType = (typeof TARGET_TYPES)[number];
+
+// One entry of the WEBHOOKS env var (a JSON array)
+export interface TargetConfig {
+  id: string;                    // short name, shown in the delivery log
+  type: TargetType;
+  url: string;                   // Slack incoming-webhook URL, JSON endpoint, or the CRM API base
+  events?: WebhookEvent[];       // default: all
+  secret?: string;               // json: HMAC-SHA256 signing key
+  token?: string;                // hubspot: private-app bearer token
+}
+
+// What the subscriber-facing flows report; drivers pick what their service needs
+export interface WebhookPayload {
+  id: string;                    // delivery id; the same across retries so receivers can dedupe
+  event: WebhookEvent;
+  at: string;
+  reason?: "unsubscribed" | "deleted";   // unsubscribed: a plain opt-out, or an erasure request
+  subscriber: {
+    email: string;
+    state?: "pending" | "confirmed";
+    source?: string;
+    locale?: string;
+    role?: string;
+    institution?: string;
+    signedUpAt?: string;
+    confirmedAt?: string;
+  };
+}
+
+export interface DeliveryResult {
+  ok: boolean;
+  retryable?: boolean;           // 429/5xx/network: worth trying again later
+  status?: number;
+  error?: string;
+}
+
+export interface Driver {
+  request(target: TargetConfig, payload: WebhookPayload): Promise<{ url: string; init: RequestInit }>;
+}
+
+// Same rule as the mail drivers: 429 and 5xx are transient, other 4xx mean the request is wrong
+export async function fromResponse(r: Response): Promise<DeliveryResult> {
+  if (r.ok) return { ok: true, status: r.status };
+  const text = await r.text().catch(() => "");
+  return { ok: false, retryable: r.status === 429 || r.status >= 500, status: r.status, error: `${r.status}: ${text.slice(0, 300)}` };
+}
@@ -0,0 +1,63 @@
+// ---- Minimal server-rendered pages (unsubscribe, data requests) ----
+
+export function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+// public/_headers doesn't reach function responses, so these pages carry their own policy.
+// The one inline <style> is allowed by a per-response nonce; nothing else inline runs.
+function nonce() {
+  return btoa(String.fromCharCode(...crypto.getRandomValues(new Uint8Array(16))));
+}
+
+function contentSecurityPolicy(nonce: string) {
+  return [
+    "default-src 'none'",
+    `style-src 'nonce-${nonce}'`,
+    "img-src 'self'",
+    "form-action 'self'",
+    "base-uri 'none'",
+    "frame-ancestors 'none'",
+    "report-uri /api/csp-report",
+  ].join("; ");
+}
+
+// `body` is trusted markup; escape anything user-supplied before passing it in
+export function page(title: string, body: string, init: ResponseInit = {}) {
+  const styleNonce = nonce();
+  const html = `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="robots" content="noindex">
+<title>${escapeHtml(title)} — erlySense</title>
+<style nonce="${styleNonce}">
+  body{margin:0;min-height:100vh;display:flex;align-items:center;justify-content:center;background:#08141C;color:#fff;font-family:system-ui,-apple-system,Segoe UI,Roboto,sans-serif}
+  main{max-width:28rem;margin:1.5rem;padding:1.5rem;border:1px solid rgba(255,255,255,.1);border-radius:1rem;background:rgba(255,255,255,.05)}
+  h1{font-size:1.1rem;margin:0 0 .75rem}p{line-height:1.5;color:rgba(255,255,255,.8)}a{color:#a6e8ff}
+  button{margin-top:.5rem;padding:.6rem 1rem;border-radius:.75rem;border:1px solid rgba(47,179,196,.4);background:rgba(47,179,196,.12);color:#e9fbff;font:inherit;cursor:pointer}
+</style>
+</head>
+<body><main><h1>${escapeHtml(title)}</h1>${body}</main></body>
+</html>`;
+  const headers = new Headers(init.headers);
+  headers.set("Content-Type", "text/html; charset=utf-8");
+  headers.set("Cache-Control", "no-store");
+  headers.set("Content-Security-Policy", contentSecurityPolicy(styleNonce));
+  headers.set("Strict-Transport-Security", "max-age=63072000; includeSubDomains");
+  headers.set("Referrer-Policy", "no-referrer");   // these URLs carry signed tokens
+  headers.set("X-Content-Type-Options", "nosniff");
+  return new Response(html, { ...init, headers });
+}
+
+// A one-button form that POSTs back to the current URL (GET links must never change state:
+// mail scanners and link previewers fetch them)
+export function confirmForm(action: string, label: string) {
+  return `<form method="post" action="${escapeHtml(action)}"><button type="submit">${escapeHtml(label)}</button></form>`;
+}
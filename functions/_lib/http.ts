@@ -0,0 +1,16 @@
+// ---- Response helpers shared by the Pages functions ----
+
+export function json(body: unknown, init: ResponseInit = {}) {
+  const headers = new Headers(init.headers);
+  headers.set("Content-Type", "application/json");
+  return new Response(JSON.stringify(body), { ...init, headers });
+}
+
+// Redirect back into the SPA with a query flag the UI knows how to render
+export function redirectToApp(request: Request, path: string) {
+  return Response.redirect(new URL(path, request.url).toString(), 303);
+}
+
+export function tooManyRequests(retryAfter: number, error = "Too many requests") {
+  return json({ ok:false, error, retryAfter }, { status: 429, headers: { "Retry-After": String(retryAfter) } });
+}
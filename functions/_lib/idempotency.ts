@@ -0,0 +1,36 @@
+// ---- Idempotent POSTs ----
+// Clients that may resend a request (the service worker replaying an offline signup) send an
+// Idempotency-Key header. The first successful response is kept under idem:<key> for a day and
+// handed back verbatim to any repeat, so a replay never triggers a second confirmation email.
+// Failures are not kept: the client is meant to retry those.
+
+const IDEM_PREFIX = "idem:";
+const IDEM_TTL_SECONDS = 24 * 60 * 60;
+const KEY_RE = /^[A-Za-z0-9_-]{16,64}$/;
+
+interface StoredResponse {
+  status: number;
+  body: unknown;
+}
+
+export function idempotencyKey(request: Request) {
+  const key = request.headers.get("idempotency-key")?.trim() || "";
+  return KEY_RE.test(key) ? key : null;
+}
+
+// The remembered response for this key, replayed with a marker header; null the first time
+export async function replayed(kv: KVNamespace, key: string | null) {
+  if (!key) return null;
+  const stored = await kv.get<StoredResponse>(`${IDEM_PREFIX}${key}`, "json");
+  if (!stored) return null;
+  return new Response(JSON.stringify(stored.body), {
+    status: stored.status,
+    headers: { "Content-Type": "application/json", "Idempotent-Replayed": "true" },
+  });
+}
+
+export async function remember(kv: KVNamespace, key: string | null, status: number, body: unknown) {
+  if (!key) return;
+  const stored: StoredResponse = { status, body };
+  await kv.put(`${IDEM_PREFIX}${key}`, JSON.stringify(stored), { expirationTtl: IDEM_TTL_SECONDS });
+}
@@ -0,0 +1,112 @@
+import { randomCode } from "./referrals";
+import { getRecord, putRecord, type BetaAccess, type WaitlistRecord } from "./waitlist";
+import type { InviteProblem } from "../../src/shared/invite";
+
+// ---- Beta invitations ----
+// An invite is a code tied to the waitlist record it was issued to. Personal codes (maxUses 1)
+// only ever activate that record; multi-use codes (a counselor's team, a pilot cohort) activate
+// any confirmed subscriber who enters their address and then opens the link emailed to it, until
+// the uses run out. Either way the redeemer accepts the Early Access Terms and the receipt goes
+// on their record.
+// Like the rate limits, use counts ride on eventually consistent KV: a burst on a multi-use
+// code can overshoot maxUses by a redemption or two.
+
+export interface Invite {
+  code: string;               // XXXX-XXXX-XXXX
+  key: string;                // waitlist record it was issued to
+  email: string;
+  maxUses: number;
+  uses: number;
+  createdAt: string;
+  expiresAt: string;
+  lastUsedAt?: string;
+  revokedAt?: string;
+}
+
+export const INVITE_PREFIX = "invite:";
+export const DEFAULT_INVITE_DAYS = 14;
+export const MAX_INVITE_DAYS = 90;
+export const MAX_INVITE_USES = 500;
+
+// Expired and revoked codes linger this long, so the page can say "expired" rather than "invalid"
+const RETENTION_SECONDS = 30 * 24 * 60 * 60;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const inviteKey = (code: string) => `${INVITE_PREFIX}${code}`;
+
+function newCode() {
+  const raw = randomCode(12);
+  return `${raw.slice(0, 4)}-${raw.slice(4, 8)}-${raw.slice(8)}`;
+}
+
+export async function getInvite(kv: KVNamespace, code: string) {
+  return kv.get<Invite>(inviteKey(code), "json");
+}
+
+async function saveInvite(kv: KVNamespace, invite: Invite) {
+  const expiration = Math.floor(Date.parse(invite.expiresAt) / 1000) + RETENTION_SECONDS;
+  await kv.put(inviteKey(invite.code), JSON.stringify(invite), { expiration });
+}
+
+export async function listInvites(kv: KVNamespace) {
+  const out: Invite[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await kv.list({ prefix: INVITE_PREFIX, cursor });
+    const values = await Promise.all(page.keys.map((k) => kv.get<Invite>(k.name, "json")));
+    values.forEach((i) => { if (i) out.push(i); });
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
+  return out.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+// Issues a code for a confirmed record and marks it invited. Reissuing replaces the previous
+// code; someone already in the beta stays activated (a multi-use code for them to share).
+export async function createInvite(kv: KVNamespace, key: string, record: WaitlistRecord, opts: { maxUses: number; days: number }) {
+  let code = newCode();
+  while (await kv.get(inviteKey(code))) code = newCode();
+  const now = Date.now();
+  const invite: Invite = {
+    code,
+    key,
+    email: record.email,
+    maxUses: opts.maxUses,
+    uses: 0,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + opts.days * DAY_MS).toISOString(),
+  };
+  await saveInvite(kv, invite);
+  if (record.beta?.invite) await kv.delete(inviteKey(record.beta.invite));
+  const beta: BetaAccess = { ...record.beta, state: record.beta?.state === "activated" ? "activated" : "invited", invite: code, invitedAt: invite.createdAt };
+  await putRecord(kv, key, { ...record, beta });
+  return invite;
+}
+
+// The code stays (marked revoked) until retention runs out; an invitee who never used it is un-invited
+export async function revokeInvite(kv: KVNamespace, invite: Invite) {
+  const revoked = { ...invite, revokedAt: new Date().toISOString() };
+  await saveInvite(kv, revoked);
+  const record = await getRecord(kv, invite.key);
+  if (record?.beta?.state === "invited" && record.beta.invite === invite.code) {
+    await putRecord(kv, invite.key, { ...record, beta: undefined });
+  }
+  return revoked;
+}
+
+export const isActivated = (record: WaitlistRecord | null) => record?.beta?.state === "activated";
+
+// Why the code can't be redeemed right now, or null. Someone already in the beta coming back
+// through their link gets past expiry and use limits; redeeming again changes nothing.
+export function inviteProblem(invite: Invite | null, returning = false): InviteProblem | null {
+  if (!invite || invite.revokedAt) return "invalid";
+  if (returning) return null;
+  if (Date.parse(invite.expiresAt) <= Date.now()) return "expired";
+  if (invite.uses >= invite.maxUses) return "used";
+  return null;
+}
+
+export async function redeemInvite(kv: KVNamespace, invite: Invite, key: string, record: WaitlistRecord, terms: NonNullable<BetaAccess["terms"]>) {
+  const beta: BetaAccess = { ...record.beta, state: "activated", activatedAt: terms.at, via: invite.code, terms };
+  await putRecord(kv, key, { ...record, beta });
+  await saveInvite(kv, { ...invite, uses: invite.uses + 1, lastUsedAt: terms.at });
+}
@@ -0,0 +1,40 @@
+import { signToken, type TokenPurpose } from "./tokens";
+
+// ---- Signed links back into the functions ----
+
+const HOUR = 60 * 60 * 1000;
+export const UNSUBSCRIBE_TTL_MS = 365 * 24 * HOUR; // must outlive any email we send
+export const PRIVACY_TTL_MS = HOUR;
+export const STATUS_TTL_MS = 365 * 24 * HOUR;
+export const INVITE_ACTIVATION_TTL_MS = 48 * HOUR;
+
+export async function signedLink(request: Request, secret: string, path: string, purpose: TokenPurpose, subject: string, ttlMs: number) {
+  const token = await signToken(secret, purpose, subject, ttlMs);
+  return new URL(`${path}?token=${encodeURIComponent(token)}`, request.url).toString();
+}
+
+export function unsubscribeLink(request: Request, secret: string, key: string) {
+  return signedLink(request, secret, "/api/unsubscribe", "unsubscribe", key, UNSUBSCRIBE_TTL_MS);
+}
+
+// The subscriber's own queue-position page (an SPA route, not a function)
+export function statusLink(request: Request, secret: string, key: string) {
+  return signedLink(request, secret, "/status", "status", key, STATUS_TTL_MS);
+}
+
+export function referralLink(request: Request, code: string) {
+  return new URL(`/?ref=${encodeURIComponent(code)}`, request.url).toString();
+}
+
+// Landing page in its invitation state; the code is also printed in the email for typing in
+export function inviteLink(request: Request, code: string) {
+  return new URL(`/?invite=${encodeURIComponent(code)}`, request.url).toString();
+}
+
+// RFC 2369 + RFC 8058: mail clients show an "Unsubscribe" button and POST to the link directly
+export async function listUnsubscribeHeaders(request: Request, secret: string, key: string) {
+  return {
+    "List-Unsubscribe": `<${await unsubscribeLink(request, secret, key)}>`,
+    "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+  };
+}
@@ -0,0 +1,28 @@
+import type { Env } from "./env";
+import { createLogger, isLogLevel, type Logger } from "../../src/shared/log";
+
+export type { Logger };
+
+// ---- Server logger ----
+// One JSON object per line, which the Pages/Workers log viewer indexes field by field. The level
+// comes from LOG_LEVEL (default "info"); functions/api/_middleware.ts applies it on every request
+// and hands each route a child logger tagged with the request ID, method and path.
+
+export const log = createLogger({
+  level: "info",
+  sink: (level, msg, fields) => {
+    const line = JSON.stringify({ level, msg, ...fields, at: new Date().toISOString() });
+    if (level === "error") console.error(line);
+    else if (level === "warn") console.warn(line);
+    else console.log(line);
+  },
+});
+
+export function configureLogging(env: Env) {
+  log.level = isLogLevel(env.LOG_LEVEL) ? env.LOG_LEVEL : "info";
+}
+
+// The request's logger as set up by the middleware; the root logger when called outside one
+export function requestLog(data: Record<string, unknown>): Logger {
+  return (data.log as Logger | undefined) ?? log;
+}
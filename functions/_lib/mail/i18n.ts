@@ -0,0 +1,398 @@
+import { DEFAULT_LOCALE, isLocale, type Locale } from "../../../src/shared/locale";
+
+// ---- Subscriber email copy per locale ----
+// Only subscriber-facing mail is translated; internal notifications stay in English.
+
+export interface EmailStrings {
+  unsubscribe: string;
+  confirm: { subject: string; preheader: string; heading: string; paragraphs: string[]; cta: string; footnote: string };
+  update: { subject: string; preheader: string; heading: string; paragraphs: string[]; cta: string; footnote: string };
+  welcome: { subject: string; preheader: string; heading: string; confirmed: string; share: (url: string) => string; whisper: string; cta: string };
+  betaInvite: { subject: string; preheader: string; heading: string; intro: string; code: (code: string) => string; expires: (date: string) => string; cta: string; footnote: string };
+  betaJoin: { subject: string; preheader: string; heading: string; paragraphs: string[]; cta: string; footnote: string };
+  launch: { subject: string; preheader: string; heading: string; paragraphs: string[]; cta: string };
+  privacy: { export: string; delete: string; subject: (action: string) => string; preheader: string; body: (action: string) => string; footnote: string };
+  learnMore: string;          // default button label for announcements
+}
+
+const en: EmailStrings = {
+  unsubscribe: "Unsubscribe",
+  confirm: {
+    subject: "Confirm your erlySense waitlist signup",
+    preheader: "One click and you're on the list.",
+    heading: "Confirm your email",
+    paragraphs: [
+      "Thanks for your interest in erlySense.",
+      "Please confirm your email to join the waitlist. The link expires in 48 hours.",
+    ],
+    cta: "Confirm my signup",
+    footnote: "If you didn't request this, ignore this email and we'll forget your address.",
+  },
+  update: {
+    subject: "Confirm the changes to your erlySense signup",
+    preheader: "Nothing changes until you confirm.",
+    heading: "Confirm your changes",
+    paragraphs: [
+      "The erlySense waitlist form was sent again with your address.",
+      "If that was you, confirm below to update your details and consent with what you submitted. The link expires in 48 hours.",
+    ],
+    cta: "Update my details",
+    footnote: "If this wasn't you, ignore this email. Your signup stays exactly as it was.",
+  },
+  welcome: {
+    subject: "You're on the erlySense waitlist",
+    preheader: "Launch updates, and a beta invitation if you'd like one.",
+    heading: "Welcome — you're on the list",
+    confirmed: "Your email is confirmed. We'll write when there's something worth your time: launch updates and, if you opt in, an invitation to the private beta.",
+    share: (url) => `Want in sooner? Share your personal link — every friend who confirms moves you up the queue: ${url}`,
+    whisper: "erlySense is an innovative step toward proactive student well-being. For now, just a whisper.",
+    cta: "See my place in line",
+  },
+  betaInvite: {
+    subject: "Your erlySense private beta invitation",
+    preheader: "A seat in the private beta is waiting for you.",
+    heading: "You're invited to the private beta",
+    intro: "A seat in the erlySense private beta is yours. Participation is covered by our Early Access Terms, which you'll accept when you join.",
+    code: (code) => `Your invitation code: ${code}`,
+    expires: (date) => `This invitation expires on ${date}.`,
+    cta: "Join the beta",
+    footnote: "Invitations are personal; please don't forward this email.",
+  },
+  betaJoin: {
+    subject: "Finish joining the erlySense private beta",
+    preheader: "One click to use your invitation.",
+    heading: "Finish joining the beta",
+    paragraphs: [
+      "An erlySense invitation code was used with your address.",
+      "If that was you, open the link to join the private beta under the Early Access Terms you accepted. The link expires in 48 hours.",
+    ],
+    cta: "Join the beta",
+    footnote: "If this wasn't you, ignore this email. Nothing changes until the link is used.",
+  },
+  launch: {
+    subject: "erlySense is live",
+    preheader: "The wait is over.",
+    heading: "erlySense is live",
+    paragraphs: [
+      "Thank you for waiting with us. erlySense is now available.",
+      "Sign in to get started — your waitlist address is already recognized.",
+    ],
+    cta: "Get started",
+  },
+  privacy: {
+    export: "Download my data",
+    delete: "Delete my data",
+    subject: (action) => `erlySense: ${action.toLowerCase()}`,
+    preheader: "Confirm your data request.",
+    body: (action) => `We received a request to ${action.toLowerCase()} for this address. The link below is valid for 1 hour.`,
+    footnote: "Didn't ask for this? You can ignore this email; nothing changes until the link is used.",
+  },
+  learnMore: "Learn more",
+};
+
+const es: EmailStrings = {
+  unsubscribe: "Darse de baja",
+  confirm: {
+    subject: "Confirma tu registro en la lista de espera de erlySense",
+    preheader: "Un clic y estarás en la lista.",
+    heading: "Confirma tu correo",
+    paragraphs: [
+      "Gracias por tu interés en erlySense.",
+      "Confirma tu correo para unirte a la lista de espera. El enlace caduca en 48 horas.",
+    ],
+    cta: "Confirmar mi registro",
+    footnote: "Si no lo solicitaste, ignora este correo y olvidaremos tu dirección.",
+  },
+  update: {
+    subject: "Confirma los cambios en tu registro de erlySense",
+    preheader: "Nada cambia hasta que lo confirmes.",
+    heading: "Confirma tus cambios",
+    paragraphs: [
+      "Se volvió a enviar el formulario de la lista de espera de erlySense con tu dirección.",
+      "Si fuiste tú, confirma abajo para actualizar tus datos y tu consentimiento con lo que enviaste. El enlace caduca en 48 horas.",
+    ],
+    cta: "Actualizar mis datos",
+    footnote: "Si no fuiste tú, ignora este correo. Tu registro se queda exactamente como estaba.",
+  },
+  welcome: {
+    subject: "Ya estás en la lista de espera de erlySense",
+    preheader: "Novedades del lanzamiento y, si quieres, una invitación a la beta.",
+    heading: "Bienvenido/a: ya estás en la lista",
+    confirmed: "Tu correo está confirmado. Te escribiremos cuando haya algo que valga la pena: novedades del lanzamiento y, si lo aceptas, una invitación a la beta privada.",
+    share: (url) => `¿Quieres entrar antes? Comparte tu enlace personal: cada amigo que confirme te hará avanzar en la cola: ${url}`,
+    whisper: "erlySense es un paso innovador hacia el bienestar estudiantil proactivo. Por ahora, solo un susurro.",
+    cta: "Ver mi lugar en la cola",
+  },
+  betaInvite: {
+    subject: "Tu invitación a la beta privada de erlySense",
+    preheader: "Te espera un lugar en la beta privada.",
+    heading: "Estás invitado/a a la beta privada",
+    intro: "Tienes un lugar en la beta privada de erlySense. La participación se rige por nuestros Términos de acceso anticipado, que aceptarás al unirte.",
+    code: (code) => `Tu código de invitación: ${code}`,
+    expires: (date) => `Esta invitación caduca el ${date}.`,
+    cta: "Unirme a la beta",
+    footnote: "Las invitaciones son personales; no reenvíes este correo.",
+  },
+  betaJoin: {
+    subject: "Termina de unirte a la beta privada de erlySense",
+    preheader: "Un clic para usar tu invitación.",
+    heading: "Termina de unirte a la beta",
+    paragraphs: [
+      "Se usó un código de invitación de erlySense con tu dirección.",
+      "Si fuiste tú, abre el enlace para unirte a la beta privada según los Términos de acceso anticipado que aceptaste. El enlace caduca en 48 horas.",
+    ],
+    cta: "Unirme a la beta",
+    footnote: "Si no fuiste tú, ignora este correo. Nada cambia hasta que se use el enlace.",
+  },
+  launch: {
+    subject: "erlySense ya está disponible",
+    preheader: "Se acabó la espera.",
+    heading: "erlySense ya está disponible",
+    paragraphs: [
+      "Gracias por esperar con nosotros. erlySense ya está disponible.",
+      "Inicia sesión para empezar: ya reconocemos tu dirección de la lista de espera.",
+    ],
+    cta: "Empezar",
+  },
+  privacy: {
+    export: "Descargar mis datos",
+    delete: "Eliminar mis datos",
+    subject: (action) => `erlySense: ${action.toLowerCase()}`,
+    preheader: "Confirma tu solicitud de datos.",
+    body: (action) => `Recibimos una solicitud para ${action.toLowerCase()} de esta dirección. El enlace de abajo es válido durante 1 hora.`,
+    footnote: "¿No lo pediste? Puedes ignorar este correo; nada cambia hasta que se use el enlace.",
+  },
+  learnMore: "Más información",
+};
+
+const fr: EmailStrings = {
+  unsubscribe: "Se désinscrire",
+  confirm: {
+    subject: "Confirmez votre inscription à la liste d’attente erlySense",
+    preheader: "Un clic et vous êtes sur la liste.",
+    heading: "Confirmez votre adresse",
+    paragraphs: [
+      "Merci de votre intérêt pour erlySense.",
+      "Confirmez votre adresse pour rejoindre la liste d’attente. Le lien expire dans 48 heures.",
+    ],
+    cta: "Confirmer mon inscription",
+    footnote: "Si vous n’êtes pas à l’origine de cette demande, ignorez cet e-mail et nous oublierons votre adresse.",
+  },
+  update: {
+    subject: "Confirmez les modifications de votre inscription erlySense",
+    preheader: "Rien ne change tant que vous n’avez pas confirmé.",
+    heading: "Confirmez vos modifications",
+    paragraphs: [
+      "Le formulaire de la liste d’attente erlySense a de nouveau été envoyé avec votre adresse.",
+      "Si c’était vous, confirmez ci-dessous pour mettre à jour vos informations et votre consentement avec ce que vous avez envoyé. Le lien expire dans 48 heures.",
+    ],
+    cta: "Mettre à jour mes informations",
+    footnote: "Si ce n’était pas vous, ignorez cet e-mail. Votre inscription reste telle quelle.",
+  },
+  welcome: {
+    subject: "Vous êtes sur la liste d’attente erlySense",
+    preheader: "Des nouvelles du lancement, et une invitation à la bêta si vous le souhaitez.",
+    heading: "Bienvenue — vous êtes sur la liste",
+    confirmed: "Votre adresse est confirmée. Nous vous écrirons quand cela en vaudra la peine : nouvelles du lancement et, si vous l’acceptez, invitation à la bêta privée.",
+    share: (url) => `Envie d’y accéder plus tôt ? Partagez votre lien personnel : chaque ami qui confirme vous fait avancer dans la file : ${url}`,
+    whisper: "erlySense est une avancée innovante vers un bien-être étudiant proactif. Pour l’instant, juste un murmure.",
+    cta: "Voir ma place dans la file",
+  },
+  betaInvite: {
+    subject: "Votre invitation à la bêta privée erlySense",
+    preheader: "Une place dans la bêta privée vous attend.",
+    heading: "Vous êtes invité·e à la bêta privée",
+    intro: "Une place dans la bêta privée d’erlySense vous est réservée. La participation est régie par nos Conditions d’accès anticipé, que vous accepterez en rejoignant la bêta.",
+    code: (code) => `Votre code d’invitation : ${code}`,
+    expires: (date) => `Cette invitation expire le ${date}.`,
+    cta: "Rejoindre la bêta",
+    footnote: "Les invitations sont personnelles ; merci de ne pas transférer cet e-mail.",
+  },
+  betaJoin: {
+    subject: "Finalisez votre accès à la bêta privée erlySense",
+    preheader: "Un clic pour utiliser votre invitation.",
+    heading: "Finalisez votre accès à la bêta",
+    paragraphs: [
+      "Un code d’invitation erlySense a été utilisé avec votre adresse.",
+      "Si c’était vous, ouvrez le lien pour rejoindre la bêta privée selon les Conditions d’accès anticipé que vous avez acceptées. Le lien expire dans 48 heures.",
+    ],
+    cta: "Rejoindre la bêta",
+    footnote: "Si ce n’était pas vous, ignorez cet e-mail. Rien ne change tant que le lien n’est pas utilisé.",
+  },
+  launch: {
+    subject: "erlySense est disponible",
+    preheader: "L’attente est terminée.",
+    heading: "erlySense est disponible",
+    paragraphs: [
+      "Merci d’avoir patienté avec nous. erlySense est désormais disponible.",
+      "Connectez-vous pour commencer : votre adresse de la liste d’attente est déjà reconnue.",
+    ],
+    cta: "Commencer",
+  },
+  privacy: {
+    export: "Télécharger mes données",
+    delete: "Supprimer mes données",
+    subject: (action) => `erlySense : ${action.toLowerCase()}`,
+    preheader: "Confirmez votre demande concernant vos données.",
+    body: (action) => `Nous avons reçu une demande « ${action.toLowerCase()} » pour cette adresse. Le lien ci-dessous est valable 1 heure.`,
+    footnote: "Vous n’avez rien demandé ? Ignorez cet e-mail ; rien ne change tant que le lien n’est pas utilisé.",
+  },
+  learnMore: "En savoir plus",
+};
+
+const hi: EmailStrings = {
+  unsubscribe: "अनसब्सक्राइब करें",
+  confirm: {
+    subject: "erlySense प्रतीक्षा सूची में अपने साइनअप की पुष्टि करें",
+    preheader: "एक क्लिक, और आप सूची में हैं।",
+    heading: "अपने ईमेल की पुष्टि करें",
+    paragraphs: [
+      "erlySense में रुचि दिखाने के लिए धन्यवाद।",
+      "प्रतीक्षा सूची में शामिल होने के लिए कृपया अपने ईमेल की पुष्टि करें। यह लिंक 48 घंटों में समाप्त हो जाएगा।",
+    ],
+    cta: "मेरे साइनअप की पुष्टि करें",
+    footnote: "अगर आपने यह अनुरोध नहीं किया, तो इस ईमेल को अनदेखा करें; हम आपका पता भूल जाएँगे।",
+  },
+  update: {
+    subject: "अपने erlySense साइनअप में बदलावों की पुष्टि करें",
+    preheader: "आपकी पुष्टि के बिना कुछ नहीं बदलेगा।",
+    heading: "अपने बदलावों की पुष्टि करें",
+    paragraphs: [
+      "erlySense प्रतीक्षा सूची का फ़ॉर्म आपके पते के साथ फिर से भेजा गया।",
+      "अगर यह आप थे, तो भेजी गई जानकारी से अपना विवरण और सहमति अपडेट करने के लिए नीचे पुष्टि करें। यह लिंक 48 घंटों में समाप्त हो जाएगा।",
+    ],
+    cta: "मेरा विवरण अपडेट करें",
+    footnote: "अगर यह आप नहीं थे, तो इस ईमेल को अनदेखा करें। आपका साइनअप जैसा था वैसा ही रहेगा।",
+  },
+  welcome: {
+    subject: "आप erlySense प्रतीक्षा सूची में हैं",
+    preheader: "लॉन्च अपडेट, और चाहें तो बीटा आमंत्रण।",
+    heading: "स्वागत है — आप सूची में हैं",
+    confirmed: "आपके ईमेल की पुष्टि हो गई है। जब कुछ काम की बात होगी तब हम लिखेंगे: लॉन्च अपडेट और, यदि आप सहमति दें, निजी बीटा का आमंत्रण।",
+    share: (url) => `जल्दी पहुँच चाहिए? अपना निजी लिंक साझा करें — पुष्टि करने वाला हर दोस्त आपको कतार में आगे बढ़ाता है: ${url}`,
+    whisper: "erlySense विद्यार्थियों की भलाई की ओर एक नया, सक्रिय कदम है। अभी के लिए, बस एक फुसफुसाहट।",
+    cta: "कतार में मेरी जगह देखें",
+  },
+  betaInvite: {
+    subject: "erlySense निजी बीटा के लिए आपका आमंत्रण",
+    preheader: "निजी बीटा में आपकी जगह इंतज़ार कर रही है।",
+    heading: "आप निजी बीटा में आमंत्रित हैं",
+    intro: "erlySense निजी बीटा में एक जगह आपकी है। भागीदारी हमारी अर्ली एक्सेस शर्तों के अधीन है, जिन्हें आप जुड़ते समय स्वीकार करेंगे।",
+    code: (code) => `आपका आमंत्रण कोड: ${code}`,
+    expires: (date) => `यह आमंत्रण ${date} को समाप्त हो जाएगा।`,
+    cta: "बीटा से जुड़ें",
+    footnote: "आमंत्रण व्यक्तिगत हैं; कृपया यह ईमेल आगे न भेजें।",
+  },
+  betaJoin: {
+    subject: "erlySense निजी बीटा में शामिल होना पूरा करें",
+    preheader: "अपना आमंत्रण इस्तेमाल करने के लिए एक क्लिक।",
+    heading: "बीटा में शामिल होना पूरा करें",
+    paragraphs: [
+      "आपके पते के साथ erlySense आमंत्रण कोड का इस्तेमाल किया गया।",
+      "अगर यह आप थे, तो आपके द्वारा स्वीकार की गई अर्ली एक्सेस शर्तों के तहत निजी बीटा में शामिल होने के लिए लिंक खोलें। यह लिंक 48 घंटों में समाप्त हो जाएगा।",
+    ],
+    cta: "बीटा में शामिल हों",
+    footnote: "अगर यह आप नहीं थे, तो इस ईमेल को अनदेखा करें। लिंक इस्तेमाल होने तक कुछ नहीं बदलेगा।",
+  },
+  launch: {
+    subject: "erlySense अब उपलब्ध है",
+    preheader: "इंतज़ार ख़त्म हुआ।",
+    heading: "erlySense अब उपलब्ध है",
+    paragraphs: [
+      "हमारे साथ इंतज़ार करने के लिए धन्यवाद। erlySense अब उपलब्ध है।",
+      "शुरू करने के लिए साइन इन करें — आपका प्रतीक्षा सूची वाला पता पहले से पहचाना जाता है।",
+    ],
+    cta: "शुरू करें",
+  },
+  privacy: {
+    export: "मेरा डेटा डाउनलोड करें",
+    delete: "मेरा डेटा हटाएँ",
+    subject: (action) => `erlySense: ${action}`,
+    preheader: "अपने डेटा अनुरोध की पुष्टि करें।",
+    body: (action) => `हमें इस पते के लिए “${action}” का अनुरोध मिला है। नीचे दिया लिंक 1 घंटे तक मान्य है।`,
+    footnote: "आपने यह नहीं माँगा? इस ईमेल को अनदेखा करें; लिंक इस्तेमाल होने तक कुछ नहीं बदलेगा।",
+  },
+  learnMore: "और जानें",
+};
+
+const ar: EmailStrings = {
+  unsubscribe: "إلغاء الاشتراك",
+  confirm: {
+    subject: "أكّد تسجيلك في قائمة انتظار erlySense",
+    preheader: "نقرة واحدة وتصبح على القائمة.",
+    heading: "أكّد بريدك الإلكتروني",
+    paragraphs: [
+      "شكرًا لاهتمامك بـ erlySense.",
+      "يُرجى تأكيد بريدك الإلكتروني للانضمام إلى قائمة الانتظار. تنتهي صلاحية الرابط خلال 48 ساعة.",
+    ],
+    cta: "تأكيد تسجيلي",
+    footnote: "إذا لم تطلب ذلك، فتجاهل هذه الرسالة وسننسى عنوانك.",
+  },
+  update: {
+    subject: "أكّد التغييرات على تسجيلك في erlySense",
+    preheader: "لن يتغيّر شيء حتى تؤكّد.",
+    heading: "أكّد تغييراتك",
+    paragraphs: [
+      "أُرسل نموذج قائمة انتظار erlySense مرة أخرى بعنوانك.",
+      "إذا كنت أنت، فأكّد أدناه لتحديث بياناتك وموافقتك بما أرسلته. تنتهي صلاحية الرابط خلال 48 ساعة.",
+    ],
+    cta: "تحديث بياناتي",
+    footnote: "إذا لم تكن أنت، فتجاهل هذه الرسالة. سيبقى تسجيلك كما هو تمامًا.",
+  },
+  welcome: {
+    subject: "أنت الآن على قائمة انتظار erlySense",
+    preheader: "تحديثات الإطلاق، ودعوة إلى النسخة التجريبية إن رغبت.",
+    heading: "مرحبًا بك — أنت على القائمة",
+    confirmed: "تم تأكيد بريدك الإلكتروني. سنراسلك عندما يكون هناك ما يستحق وقتك: تحديثات الإطلاق، ودعوة إلى النسخة التجريبية الخاصة إن وافقت.",
+    share: (url) => `تريد الوصول أسرع؟ شارك رابطك الشخصي — كل صديق يؤكد تسجيله يقدّمك في الدور: ${url}`,
+    whisper: "erlySense خطوة مبتكرة نحو رفاه استباقي للطلاب. أما الآن، فمجرد همسة.",
+    cta: "عرض مكاني في الدور",
+  },
+  betaInvite: {
+    subject: "دعوتك إلى النسخة التجريبية الخاصة من erlySense",
+    preheader: "مقعد في النسخة التجريبية الخاصة بانتظارك.",
+    heading: "أنت مدعو إلى النسخة التجريبية الخاصة",
+    intro: "لك مقعد في النسخة التجريبية الخاصة من erlySense. تخضع المشاركة لشروط الوصول المبكر التي ستوافق عليها عند الانضمام.",
+    code: (code) => `رمز دعوتك: ${code}`,
+    expires: (date) => `تنتهي صلاحية هذه الدعوة في ${date}.`,
+    cta: "الانضمام إلى النسخة التجريبية",
+    footnote: "الدعوات شخصية؛ يُرجى عدم إعادة توجيه هذه الرسالة.",
+  },
+  betaJoin: {
+    subject: "أكمل انضمامك إلى النسخة التجريبية الخاصة من erlySense",
+    preheader: "نقرة واحدة لاستخدام دعوتك.",
+    heading: "أكمل انضمامك إلى النسخة التجريبية",
+    paragraphs: [
+      "استُخدم رمز دعوة erlySense مع عنوانك.",
+      "إذا كنت أنت، فافتح الرابط للانضمام إلى النسخة التجريبية الخاصة وفق شروط الوصول المبكر التي قبلتها. تنتهي صلاحية الرابط خلال 48 ساعة.",
+    ],
+    cta: "الانضمام إلى النسخة التجريبية",
+    footnote: "إذا لم تكن أنت، فتجاهل هذه الرسالة. لن يتغيّر شيء حتى يُستخدم الرابط.",
+  },
+  launch: {
+    subject: "erlySense متاح الآن",
+    preheader: "انتهى الانتظار.",
+    heading: "erlySense متاح الآن",
+    paragraphs: [
+      "شكرًا لانتظارك معنا. أصبح erlySense متاحًا الآن.",
+      "سجّل الدخول للبدء — عنوانك في قائمة الانتظار معروف لدينا مسبقًا.",
+    ],
+    cta: "ابدأ الآن",
+  },
+  privacy: {
+    export: "تنزيل بياناتي",
+    delete: "حذف بياناتي",
+    subject: (action) => `erlySense: ${action}`,
+    preheader: "أكّد طلبك بشأن بياناتك.",
+    body: (action) => `تلقّينا طلب «${action}» لهذا العنوان. الرابط أدناه صالح لمدة ساعة واحدة.`,
+    footnote: "لم تطلب ذلك؟ يمكنك تجاهل هذه الرسالة؛ لن يتغير شيء ما لم يُستخدم الرابط.",
+  },
+  learnMore: "اعرف المزيد",
+};
+
+const STRINGS: Record<Locale, EmailStrings> = { en, es, fr, hi, ar };
+
+// Records created before locales existed (or with an unknown value) get English
+export function emailStrings(locale: unknown): EmailStrings {
+  return STRINGS[isLocale(locale) ? locale : DEFAULT_LOCALE];
+}
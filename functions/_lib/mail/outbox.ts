@@ -0,0 +1,24 @@
+import type { Message, Transport } from "./transport";
+
+// ---- Local outbox: "sends" by writing to KV, for development and tests ----
+
+export const OUTBOX_PREFIX = "outbox:";
+const OUTBOX_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+export interface OutboxEntry extends Message {
+  from: string;
+  at: string;
+}
+
+export function outbox(kv: KVNamespace): Transport {
+  return {
+    name: "outbox",
+    async send(from, msg) {
+      const at = new Date().toISOString();
+      const entry: OutboxEntry = { ...msg, from, at };
+      // Time-ordered keys so listing reads oldest → newest
+      await kv.put(`${OUTBOX_PREFIX}${at}:${crypto.randomUUID()}`, JSON.stringify(entry), { expirationTtl: OUTBOX_TTL_SECONDS });
+      return { ok: true };
+    },
+  };
+}
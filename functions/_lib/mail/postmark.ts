@@ -0,0 +1,27 @@
+import { fromResponse, type Transport } from "./transport";
+
+export function postmark(serverToken: string): Transport {
+  return {
+    name: "postmark",
+    async send(from, msg) {
+      const r = await fetch("https://api.postmarkapp.com/email", {
+        method: "POST",
+        headers: {
+          "X-Postmark-Server-Token": serverToken,
+          "Content-Type": "application/json",
+          "Accept": "application/json",
+        },
+        body: JSON.stringify({
+          From: from,
+          To: msg.to,
+          Subject: msg.subject,
+          HtmlBody: msg.html,
+          TextBody: msg.text,
+          Headers: Object.entries(msg.headers || {}).map(([Name, Value]) => ({ Name, Value })),
+          MessageStream: "outbound",
+        }),
+      });
+      return fromResponse("Postmark", r);
+    },
+  };
+}
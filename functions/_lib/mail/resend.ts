@@ -0,0 +1,18 @@
+import { fromResponse, type Transport } from "./transport";
+
+export function resend(apiKey: string): Transport {
+  return {
+    name: "resend",
+    async send(from, msg) {
+      const r = await fetch("https://api.resend.com/emails", {
+        method: "POST",
+        headers: {
+          "Authorization": `Bearer ${apiKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ from, to: [msg.to], subject: msg.subject, html: msg.html, text: msg.text, headers: msg.headers }),
+      });
+      return fromResponse("Resend", r);
+    },
+  };
+}
@@ -0,0 +1,30 @@
+import { fromResponse, parseAddress, type Transport } from "./transport";
+
+export function sendgrid(apiKey: string): Transport {
+  return {
+    name: "sendgrid",
+    async send(from, msg) {
+      const sender = parseAddress(from);
+      // SendGrid requires text/plain before text/html
+      const content = [
+        ...(msg.text ? [{ type: "text/plain", value: msg.text }] : []),
+        { type: "text/html", value: msg.html },
+      ];
+      const r = await fetch("https://api.sendgrid.com/v3/mail/send", {
+        method: "POST",
+        headers: {
+          "Authorization": `Bearer ${apiKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          personalizations: [{ to: [{ email: msg.to }] }],
+          from: sender.name ? sender : { email: sender.email },
+          subject: msg.subject,
+          content,
+          headers: msg.headers,
+        }),
+      });
+      return fromResponse("SendGrid", r);
+    },
+  };
+}
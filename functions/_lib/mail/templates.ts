@@ -0,0 +1,229 @@
+import { BRAND } from "../../../src/shared/brand";
+import { DEFAULT_LOCALE, dirOf, isLocale, type Locale } from "../../../src/shared/locale";
+import { escapeHtml } from "../html";
+import { emailStrings } from "./i18n";
+
+// ---- Email templates: branded HTML + plain text ----
+// Every interpolated value goes through escapeHtml (HTML part) or is emitted verbatim
+// into the text part only. URLs are escaped too — they end up inside attributes.
+// Subscriber-facing templates take the record's locale; copy lives in ./i18n.
+
+export interface Rendered {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+interface Layout {
+  preheader: string;          // inbox preview line
+  heading: string;
+  paragraphs: string[];       // plain text, escaped here
+  cta?: { label: string; url: string };
+  footnote?: string;
+  unsubscribeUrl?: string;
+  locale?: Locale;
+}
+
+const e = escapeHtml;
+
+function layout(l: Layout) {
+  const locale = isLocale(l.locale) ? l.locale : DEFAULT_LOCALE;
+  const paras = l.paragraphs
+    .map((p) => `<p style="margin:0 0 14px;font-size:15px;line-height:1.55;color:#d7eef5">${e(p)}</p>`)
+    .join("");
+  const cta = l.cta
+    ? `<p style="margin:22px 0"><a href="${e(l.cta.url)}" style="display:inline-block;padding:12px 20px;border-radius:12px;background:${BRAND.teal};color:${BRAND.ink};font-weight:600;text-decoration:none">${e(l.cta.label)}</a></p>`
+    : "";
+  const footnote = l.footnote ? `<p style="margin:0 0 8px">${e(l.footnote)}</p>` : "";
+  const unsubscribe = l.unsubscribeUrl
+    ? `<p style="margin:0"><a href="${e(l.unsubscribeUrl)}" style="color:#8fb3c2">${e(emailStrings(locale).unsubscribe)}</a></p>`
+    : "";
+
+  return `<!doctype html>
+<html lang="${locale}" dir="${dirOf(locale)}"><head><meta charset="utf-8"><meta name="viewport" content="width=device-width,initial-scale=1"><title>${e(l.heading)}</title></head>
+<body style="margin:0;padding:0;background:${BRAND.ink}">
+<span style="display:none;max-height:0;overflow:hidden;opacity:0">${e(l.preheader)}</span>
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background:linear-gradient(180deg,${BRAND.ink} 0%,${BRAND.deep} 100%);background-color:${BRAND.ink}">
+<tr><td align="center" style="padding:32px 16px">
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="max-width:520px;font-family:system-ui,-apple-system,Segoe UI,Roboto,Helvetica,Arial,sans-serif">
+<tr><td style="padding:0 0 20px;font-size:22px;font-weight:600"><span style="color:${BRAND.aqua}">erly</span><span style="color:${BRAND.blue}">Sense</span></td></tr>
+<tr><td style="padding:24px;border-radius:16px;border:1px solid rgba(255,255,255,0.1);background:rgba(255,255,255,0.05)">
+<h1 style="margin:0 0 16px;font-size:20px;color:#ffffff">${e(l.heading)}</h1>
+${paras}${cta}
+</td></tr>
+<tr><td style="padding:18px 4px 0;font-size:12px;line-height:1.5;color:#8fb3c2">${footnote}${unsubscribe}</td></tr>
+</table>
+</td></tr>
+</table>
+</body></html>`;
+}
+
+function text(l: Layout) {
+  return [
+    l.heading,
+    "",
+    ...l.paragraphs.flatMap((p) => [p, ""]),
+    ...(l.cta ? [`${l.cta.label}: ${l.cta.url}`, ""] : []),
+    ...(l.footnote ? [l.footnote, ""] : []),
+    ...(l.unsubscribeUrl ? [`${emailStrings(l.locale).unsubscribe}: ${l.unsubscribeUrl}`] : []),
+  ].join("\n").trim() + "\n";
+}
+
+function render(subject: string, l: Layout): Rendered {
+  return { subject, html: layout(l), text: text(l) };
+}
+
+// ---- Subscriber-facing ----
+
+// Dates in emails are calendar dates in the reader's language (UTC, so everyone sees the same day)
+function formatDate(iso: string, locale: Locale) {
+  return new Date(iso).toLocaleDateString(locale, { dateStyle: "long", timeZone: "UTC" });
+}
+
+export function confirmEmail(p: { confirmUrl: string; unsubscribeUrl: string; locale?: Locale }) {
+  const t = emailStrings(p.locale).confirm;
+  return render(t.subject, {
+    preheader: t.preheader,
+    heading: t.heading,
+    paragraphs: t.paragraphs,
+    cta: { label: t.cta, url: p.confirmUrl },
+    footnote: t.footnote,
+    unsubscribeUrl: p.unsubscribeUrl,
+    locale: p.locale,
+  });
+}
+
+// A confirmed subscriber's details only change once they confirm the repeat submission
+export function updateEmail(p: { updateUrl: string; unsubscribeUrl: string; locale?: Locale }) {
+  const t = emailStrings(p.locale).update;
+  return render(t.subject, {
+    preheader: t.preheader,
+    heading: t.heading,
+    paragraphs: t.paragraphs,
+    cta: { label: t.cta, url: p.updateUrl },
+    footnote: t.footnote,
+    unsubscribeUrl: p.unsubscribeUrl,
+    locale: p.locale,
+  });
+}
+
+export function welcomeEmail(p: { unsubscribeUrl: string; statusUrl: string; referralUrl: string; locale?: Locale }) {
+  const t = emailStrings(p.locale).welcome;
+  return render(t.subject, {
+    preheader: t.preheader,
+    heading: t.heading,
+    paragraphs: [t.confirmed, t.share(p.referralUrl), t.whisper],
+    cta: { label: t.cta, url: p.statusUrl },
+    unsubscribeUrl: p.unsubscribeUrl,
+    locale: p.locale,
+  });
+}
+
+// `personal`: a single-use code issued to this subscriber; shared codes (and campaign links) may be passed on
+export function betaInviteEmail(p: { inviteUrl: string; code?: string; expiresAt?: string; personal?: boolean; unsubscribeUrl: string; locale?: Locale }) {
+  const t = emailStrings(p.locale).betaInvite;
+  const locale = isLocale(p.locale) ? p.locale : DEFAULT_LOCALE;
+  return render(t.subject, {
+    preheader: t.preheader,
+    heading: t.heading,
+    paragraphs: [
+      t.intro,
+      ...(p.code ? [t.code(p.code)] : []),
+      ...(p.expiresAt ? [t.expires(formatDate(p.expiresAt, locale))] : []),
+    ],
+    cta: { label: t.cta, url: p.inviteUrl },
+    ...(p.personal ? { footnote: t.footnote } : {}),
+    unsubscribeUrl: p.unsubscribeUrl,
+    locale: p.locale,
+  });
+}
+
+// Multi-use codes: the redeemer proves the address by opening this link
+export function betaJoinEmail(p: { joinUrl: string; unsubscribeUrl: string; locale?: Locale }) {
+  const t = emailStrings(p.locale).betaJoin;
+  return render(t.subject, {
+    preheader: t.preheader,
+    heading: t.heading,
+    paragraphs: t.paragraphs,
+    cta: { label: t.cta, url: p.joinUrl },
+    footnote: t.footnote,
+    unsubscribeUrl: p.unsubscribeUrl,
+    locale: p.locale,
+  });
+}
+
+export function launchEmail(p: { url: string; unsubscribeUrl: string; locale?: Locale }) {
+  const t = emailStrings(p.locale).launch;
+  return render(t.subject, {
+    preheader: t.preheader,
+    heading: t.heading,
+    paragraphs: t.paragraphs,
+    cta: { label: t.cta, url: p.url },
+    unsubscribeUrl: p.unsubscribeUrl,
+    locale: p.locale,
+  });
+}
+
+// Free-form broadcast composed in the admin campaign screen. The copy is whatever the admin
+// wrote; only the chrome (unsubscribe link, default button label) follows the locale.
+export function announcementEmail(p: { subject: string; heading: string; paragraphs: string[]; cta?: { label?: string; url: string }; unsubscribeUrl: string; locale?: Locale }) {
+  return render(p.subject, {
+    preheader: p.paragraphs[0] || p.heading,
+    heading: p.heading,
+    paragraphs: p.paragraphs,
+    cta: p.cta && { label: p.cta.label || emailStrings(p.locale).learnMore, url: p.cta.url },
+    unsubscribeUrl: p.unsubscribeUrl,
+    locale: p.locale,
+  });
+}
+
+export function privacyLinkEmail(p: { action: "export" | "delete"; url: string; locale?: Locale }) {
+  const t = emailStrings(p.locale).privacy;
+  const action = t[p.action];
+  return render(t.subject(action), {
+    preheader: t.preheader,
+    heading: action,
+    paragraphs: [t.body(action)],
+    cta: { label: action, url: p.url },
+    footnote: t.footnote,
+    locale: p.locale,
+  });
+}
+
+// ---- Internal ----
+
+export function founderNotificationEmail(p: { email: string; note: string; source: string; at: string; confirmedAt: string }) {
+  return render(`erlySense waitlist: ${p.email}`, {
+    preheader: `New confirmed signup from ${p.source}`,
+    heading: "New confirmed waitlist signup",
+    paragraphs: [
+      `Email: ${p.email}`,
+      `Note: ${p.note || "(none)"}`,
+      `Source: ${p.source} @ ${p.at} · confirmed ${p.confirmedAt}`,
+    ],
+  });
+}
+
+// ---- Preview registry (admin) ----
+
+const SAMPLE_URL = "https://www.erlysense.ai/";
+
+// Each takes an optional locale so the admin can check every translation
+export const PREVIEWS: Record<string, (locale?: Locale) => Rendered> = {
+  confirm: (locale) => confirmEmail({ confirmUrl: `${SAMPLE_URL}api/interest/confirm?token=sample`, unsubscribeUrl: `${SAMPLE_URL}api/unsubscribe?token=sample`, locale }),
+  update: (locale) => updateEmail({ updateUrl: `${SAMPLE_URL}api/interest/update?token=sample`, unsubscribeUrl: `${SAMPLE_URL}api/unsubscribe?token=sample`, locale }),
+  welcome: (locale) => welcomeEmail({ unsubscribeUrl: `${SAMPLE_URL}api/unsubscribe?token=sample`, statusUrl: `${SAMPLE_URL}status?token=sample`, referralUrl: `${SAMPLE_URL}?ref=SAMPLE23`, locale }),
+  "beta-invite": (locale) => betaInviteEmail({ inviteUrl: `${SAMPLE_URL}?invite=K7QM-4WXP-9RTH`, code: "K7QM-4WXP-9RTH", expiresAt: new Date(Date.now() + 14 * 864e5).toISOString(), personal: true, unsubscribeUrl: `${SAMPLE_URL}api/unsubscribe?token=sample`, locale }),
+  "beta-join": (locale) => betaJoinEmail({ joinUrl: `${SAMPLE_URL}api/invite/join?token=sample`, unsubscribeUrl: `${SAMPLE_URL}api/unsubscribe?token=sample`, locale }),
+  launch: (locale) => launchEmail({ url: SAMPLE_URL, unsubscribeUrl: `${SAMPLE_URL}api/unsubscribe?token=sample`, locale }),
+  announcement: (locale) => announcementEmail({
+    subject: "A quick update from erlySense", heading: "Almost there",
+    paragraphs: ["We're putting the finishing touches on the private beta.", "Thanks for your patience — more soon."],
+    cta: { label: "See what's new", url: SAMPLE_URL }, unsubscribeUrl: `${SAMPLE_URL}api/unsubscribe?token=sample`, locale,
+  }),
+  "privacy-link": (locale) => privacyLinkEmail({ action: "export", url: `${SAMPLE_URL}api/privacy/export?token=sample`, locale }),
+  "founder-notification": () => founderNotificationEmail({
+    email: "<script>alert(1)</script>@example.edu", note: "Escaping check: <b>bold</b> & \"quotes\"",
+    source: "coming-soon", at: new Date().toISOString(), confirmedAt: new Date().toISOString(),
+  }),
+};
@@ -0,0 +1,33 @@
+// ---- Email transport contract ----
+
+export interface Message {
+  to: string;
+  subject: string;
+  html: string;
+  text?: string;
+  headers?: Record<string, string>;
+}
+
+export interface SendResult {
+  ok: boolean;
+  retryable?: boolean;   // provider hiccup (429/5xx/network) worth trying again later
+  error?: string;
+}
+
+export interface Transport {
+  name: string;
+  send(from: string, msg: Message): Promise<SendResult>;
+}
+
+// Shared by the HTTP drivers: 429 and 5xx are transient, other 4xx mean the message is wrong
+export async function fromResponse(provider: string, r: Response): Promise<SendResult> {
+  if (r.ok) return { ok: true };
+  const text = await r.text().catch(() => "");
+  return { ok: false, retryable: r.status === 429 || r.status >= 500, error: `${provider} ${r.status}: ${text.slice(0, 500)}` };
+}
+
+// "erlySense <noreply@x>" → { name: "erlySense", email: "noreply@x" }
+export function parseAddress(address: string) {
+  const m = /^\s*(.*?)\s*<([^>]+)>\s*$/.exec(address);
+  return m ? { name: m[1].replace(/^"|"$/g, ""), email: m[2] } : { name: "", email: address.trim() };
+}
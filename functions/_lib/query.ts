@@ -0,0 +1,118 @@
+import { getRecord, normalizeEmail, recordMeta, type RecordMeta, type WaitlistRecord, type WaitlistState } from "./waitlist";
+
+// ---- Waitlist queries (admin listing, export) ----
+
+export interface WaitlistFilter {
+  q?: string;             // substring of the email, or "@domain" to match a domain (and its subdomains)
+  from?: number;          // signup time bounds, epoch ms (inclusive)
+  to?: number;
+  source?: string;
+  state?: WaitlistState;
+}
+
+export interface WaitlistRow extends WaitlistRecord {
+  key: string;
+}
+
+export interface Page {
+  items: WaitlistRow[];
+  cursor: string | null;  // pass back to continue; null when the namespace is exhausted
+}
+
+const PREFIX = "waitlist:";
+const MAX_PAGE = 200;
+
+function parseDate(value: string | null, endOfDay = false) {
+  if (!value) return undefined;
+  // Bare dates ("2025-10-01") cover the whole day on the upper bound
+  const t = Date.parse(/^\d{4}-\d{2}-\d{2}$/.test(value) && endOfDay ? `${value}T23:59:59.999Z` : value);
+  return Number.isNaN(t) ? undefined : t;
+}
+
+export function parseFilter(params: URLSearchParams): WaitlistFilter {
+  const state = params.get("state");
+  return {
+    q: params.get("q")?.trim().toLowerCase() || undefined,
+    from: parseDate(params.get("from")),
+    to: parseDate(params.get("to"), true),
+    source: params.get("source")?.trim() || undefined,
+    state: state === "pending" || state === "confirmed" ? state : undefined,
+  };
+}
+
+export function matches(meta: RecordMeta, f: WaitlistFilter) {
+  if (f.state && meta.state !== f.state) return false;
+  if (f.source && meta.source !== f.source) return false;
+  const at = Date.parse(meta.at);
+  if (f.from !== undefined && at < f.from) return false;
+  if (f.to !== undefined && at > f.to) return false;
+  if (f.q) {
+    const email = meta.email.toLowerCase();
+    if (f.q.startsWith("@")) {
+      const domain = email.slice(email.lastIndexOf("@") + 1);
+      const want = f.q.slice(1);
+      if (domain !== want && !domain.endsWith(`.${want}`)) return false;
+    } else {
+      // As typed, or in the canonical form dedupe uses ("Test.User+x@Gmail.com" is testuser@gmail.com)
+      const canonical = normalizeEmail(email);
+      if (!email.includes(f.q) && !canonical.includes(f.q) && !canonical.includes(normalizeEmail(f.q))) return false;
+    }
+  }
+  return true;
+}
+
+// Walks KV list pages until `limit` matches are collected. Stops on page boundaries only,
+// so the returned cursor never skips records.
+export async function queryWaitlist(kv: KVNamespace, f: WaitlistFilter, opts: { cursor?: string | null; limit?: number } = {}): Promise<Page> {
+  const limit = Math.min(MAX_PAGE, Math.max(1, opts.limit || 50));
+  const items: WaitlistRow[] = [];
+  let cursor = opts.cursor || undefined;
+  do {
+    const page = await kv.list<RecordMeta>({ prefix: PREFIX, cursor, limit });
+    for (const k of page.keys) {
+      // Records written before metadata existed need a value read to be filtered
+      let record: WaitlistRecord | null = null;
+      let meta = k.metadata;
+      if (!meta) {
+        record = await getRecord(kv, k.name);
+        if (!record) continue;
+        meta = recordMeta(record);
+      }
+      if (!matches(meta, f)) continue;
+      record = record || (await getRecord(kv, k.name));
+      if (record) items.push({ key: k.name, ...record });
+    }
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor && items.length < limit);
+  return { items, cursor: cursor || null };
+}
+
+// Every match, for exports
+export async function queryAll(kv: KVNamespace, f: WaitlistFilter) {
+  const all: WaitlistRow[] = [];
+  let cursor: string | null = null;
+  do {
+    const page = await queryWaitlist(kv, f, { cursor, limit: MAX_PAGE });
+    all.push(...page.items);
+    cursor = page.cursor;
+  } while (cursor);
+  return all;
+}
+
+const CSV_COLUMNS = ["email", "state", "source", "at", "confirmedAt", "beta", "role", "institution", "tags", "locale", "consent", "experiments", "note", "touches"] as const;
+
+function csvCell(value: string) {
+  // Neutralize spreadsheet formulas, then quote
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return `"${safe.replace(/"/g, '""')}"`;
+}
+
+export function toCsv(rows: WaitlistRow[]) {
+  const lines = rows.map((r) => [
+    r.email, r.state, r.source, r.at, r.confirmed?.at || "", r.beta?.state || "", r.role || "", r.campus?.name || "", (r.tags || []).join(" "), r.locale || "",
+    r.consent ? `terms@${r.consent.documents.terms} privacy@${r.consent.documents.privacy} ${r.consent.at}` : "",
+    Object.entries(r.experiments || {}).map(([id, v]) => `${id}:${v}`).join(" "),
+    r.note, String(r.touches?.length || 1),
+  ].map(csvCell).join(","));
+  return [CSV_COLUMNS.join(","), ...lines].join("\r\n") + "\r\n";
+}
@@ -0,0 +1,33 @@
+// ---- Sliding-window rate limits backed by KV ----
+// Each key holds the timestamps of recent hits. KV is eventually consistent, so this is a
+// best-effort brake against floods rather than an exact counter; a Durable Object can take
+// its place later without changing callers.
+
+export interface Limit {
+  limit: number;     // max hits…
+  windowMs: number;  // …per rolling window
+}
+
+export type LimitResult = { ok: true } | { ok: false; retryAfter: number }; // retryAfter in seconds
+
+// KV refuses TTLs under 60s
+const MIN_TTL_SECONDS = 60;
+
+export async function hit(kv: KVNamespace, key: string, { limit, windowMs }: Limit): Promise<LimitResult> {
+  const now = Date.now();
+  const recent = ((await kv.get<number[]>(key, "json")) || []).filter((t) => t > now - windowMs);
+  if (recent.length >= limit) {
+    return { ok: false, retryAfter: Math.max(1, Math.ceil((recent[0] + windowMs - now) / 1000)) };
+  }
+  recent.push(now);
+  await kv.put(key, JSON.stringify(recent), {
+    expirationTtl: Math.max(MIN_TTL_SECONDS, Math.ceil(windowMs / 1000)),
+  });
+  return { ok: true };
+}
+
+// Rate-limit keys must not hold raw IPs or addresses, so identifiers are hashed with the server secret
+export async function hashId(secret: string, value: string) {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(`${secret}:${value}`));
+  return Array.from(new Uint8Array(digest).slice(0, 16), (b) => b.toString(16).padStart(2, "0")).join("");
+}
@@ -0,0 +1,65 @@
+import { getRecord, putRecord, recordMeta, type RecordMeta, type WaitlistRecord } from "./waitlist";
+
+// ---- Referral codes and queue position ----
+// Position is derived from KV alone: confirmed records ordered by signup time, where each
+// confirmed referral counts as having signed up REFERRAL_BOOST_MS earlier. Everyone sees the
+// same ordering because nothing about it is computed in the browser.
+
+const ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789"; // no 0/O, 1/I/L
+const CODE_LENGTH = 8;
+export const REF_RE = /^[A-HJKMNP-Z2-9]{8}$/;
+export const REFERRAL_BOOST_MS = 3 * 24 * 60 * 60 * 1000;
+
+const refKey = (code: string) => `ref:${code}`;
+
+// Also used for beta invitation codes
+export function randomCode(length: number) {
+  const bytes = crypto.getRandomValues(new Uint8Array(length));
+  return Array.from(bytes, (b) => ALPHABET[b % ALPHABET.length]).join("");
+}
+
+const newCode = () => randomCode(CODE_LENGTH);
+
+// Issues the record's shareable code on first use and indexes it for lookups
+export async function ensureRefCode(kv: KVNamespace, key: string, record: WaitlistRecord) {
+  if (record.ref) return record;
+  let code = newCode();
+  while (await kv.get(refKey(code))) code = newCode();
+  await kv.put(refKey(code), key);
+  const updated = { ...record, ref: code };
+  await putRecord(kv, key, updated);
+  return updated;
+}
+
+// Called once the referee confirms; pending signups never count
+export async function creditReferral(kv: KVNamespace, code: string, refereeKey: string) {
+  const referrerKey = await kv.get(refKey(code));
+  if (!referrerKey || referrerKey === refereeKey) return;
+  const referrer = await getRecord(kv, referrerKey);
+  if (!referrer) return;
+  await putRecord(kv, referrerKey, { ...referrer, referrals: (referrer.referrals || 0) + 1 });
+}
+
+// 1-based position among confirmed subscribers, or null if the key isn't confirmed
+export async function positionOf(kv: KVNamespace, key: string) {
+  const entries: { key: string; score: number }[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await kv.list<RecordMeta>({ prefix: "waitlist:", cursor });
+    for (const k of page.keys) {
+      let meta = k.metadata;
+      if (!meta) {
+        const record = await getRecord(kv, k.name);
+        if (!record) continue;
+        meta = recordMeta(record);
+      }
+      if (meta.state !== "confirmed") continue;
+      entries.push({ key: k.name, score: Date.parse(meta.at) - (meta.refs || 0) * REFERRAL_BOOST_MS });
+    }
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
+
+  entries.sort((a, b) => a.score - b.score || a.key.localeCompare(b.key));
+  const idx = entries.findIndex((e) => e.key === key);
+  return idx < 0 ? null : { position: idx + 1, total: entries.length };
+}
@@ -0,0 +1,50 @@
+// ---- Signed, expiring tokens (HMAC-SHA256) ----
+// Format: base64url(JSON payload) + "." + base64url(signature)
+
+export type TokenPurpose = "confirm" | "update" | "invite" | "form" | "unsubscribe" | "privacy-export" | "privacy-delete" | "status";
+
+export interface TokenPayload {
+  p: TokenPurpose; // purpose, so a token minted for one flow can't be replayed in another
+  k: string;       // subject (waitlist record key, or issue time for form tokens)
+  x: number;       // expiry, epoch ms
+}
+
+const enc = new TextEncoder();
+
+function b64url(bytes: Uint8Array) {
+  let s = "";
+  bytes.forEach((b) => { s += String.fromCharCode(b); });
+  return btoa(s).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromB64url(s: string) {
+  const bin = atob(s.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(bin, (c) => c.charCodeAt(0));
+}
+
+function hmacKey(secret: string) {
+  return crypto.subtle.importKey("raw", enc.encode(secret), { name: "HMAC", hash: "SHA-256" }, false, ["sign", "verify"]);
+}
+
+export async function signToken(secret: string, purpose: TokenPurpose, subject: string, ttlMs: number) {
+  const payload: TokenPayload = { p: purpose, k: subject, x: Date.now() + ttlMs };
+  const body = b64url(enc.encode(JSON.stringify(payload)));
+  const sig = await crypto.subtle.sign("HMAC", await hmacKey(secret), enc.encode(body));
+  return `${body}.${b64url(new Uint8Array(sig))}`;
+}
+
+// Returns the payload when the signature, purpose and expiry all check out; null otherwise.
+export async function verifyToken(secret: string, purpose: TokenPurpose, token: string): Promise<TokenPayload | null> {
+  const [body, sig] = token.split(".");
+  if (!body || !sig) return null;
+  try {
+    const ok = await crypto.subtle.verify("HMAC", await hmacKey(secret), fromB64url(sig), enc.encode(body));
+    if (!ok) return null;
+    const payload = JSON.parse(new TextDecoder().decode(fromB64url(body))) as TokenPayload;
+    if (payload.p !== purpose || typeof payload.k !== "string") return null;
+    if (typeof payload.x !== "number" || payload.x < Date.now()) return null;
+    return payload;
+  } catch {
+    return null;
+  }
+}
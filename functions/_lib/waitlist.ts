@@ -0,0 +1,287 @@
+import type { Env } from "./env";
+import type { Role } from "../../src/shared/institution";
+import type { Locale } from "../../src/shared/locale";
+import type { ConsentReceipt } from "../../src/legal";
+import type { Assignment } from "../../src/shared/experiments";
+import type { Campus } from "./academic";
+import { DEAD_PREFIX, QUEUE_PREFIX, type QueuedMail } from "./email";
+import { OUTBOX_PREFIX, type OutboxEntry } from "./mail/outbox";
+import { hashId } from "./ratelimit";
+import { HOOK_QUEUE_PREFIX, type QueuedDelivery } from "./webhooks";
+
+// ---- Waitlist records in KV ----
+
+export type WaitlistState = "pending" | "confirmed";
+
+// Private beta: an admin invitation (see _lib/invites), then activation once the Early Access Terms are accepted
+export type BetaState = "invited" | "activated";
+
+export interface BetaAccess {
+  state: BetaState;
+  invite?: string;            // code issued to this record (reissuing replaces it)
+  invitedAt?: string;
+  activatedAt?: string;
+  via?: string;               // code that was redeemed: their own, or someone's multi-use code
+  // Receipt for the Early Access Terms, with the same network detail kept as for confirmations
+  terms?: { at: string; version: string; locale: Locale; ip: string | null; ua: string | null; region?: string };
+}
+
+// One entry per submission of the form, so repeat visits are visible without duplicating records
+export interface Touch {
+  at: string;
+  source: string;
+  note?: string;
+  consent?: ConsentReceipt;
+  experiments?: Assignment;
+}
+
+// What a repeat submission for a confirmed record would change. Anyone can type an address into
+// the form, so it waits here until the subscriber opens the link we email (api/interest/update).
+export interface ProfileUpdate {
+  at: string;                 // also in the link, so only the latest submission can be applied
+  note: string;
+  source: string;
+  consent: ConsentReceipt;
+  locale: Locale;
+  role?: Role;
+  campus?: Campus;
+  tags: string[];
+}
+
+export interface WaitlistRecord {
+  email: string;              // as typed (trimmed); the key uses the normalized form
+  note: string;
+  source: string;
+  ua: string | null;          // raw, hashed or null depending on IP_RETENTION (see networkOrigin)
+  ip: string | null;
+  region?: string;            // approximate: country, plus the subdivision when known ("US-CA")
+  at: string;                 // first submission
+  locale?: Locale;            // language of the latest signup; subscriber emails use it
+  consent?: ConsentReceipt;   // latest receipt; each touch keeps its own
+  state: WaitlistState;
+  touches: Touch[];
+  // Proof of consent: when and from where the confirmation link was opened
+  confirmed?: { at: string; ip: string | null; ua: string | null; region?: string };
+  // Referrals: own shareable code (issued on confirmation), who referred us, confirmed referrals made
+  ref?: string;
+  referredBy?: string;
+  referrals?: number;
+  // University pilots: who they are, where they are, and tags the pilot team filters on
+  role?: Role;
+  campus?: Campus;
+  tags?: string[];
+  // A/B variants shown when they first signed up; conversions are credited to these
+  experiments?: Assignment;
+  beta?: BetaAccess;
+  update?: ProfileUpdate;
+}
+
+// Unconfirmed signups expire on their own; the confirmation link lives exactly as long.
+export const PENDING_TTL_SECONDS = 48 * 60 * 60;
+
+const MAX_TOUCHES = 20;
+
+// Mailbox providers that ignore dots and/or +tags in the local part
+const PROVIDER_RULES: Record<string, { dots?: boolean; plus?: boolean; canonical?: string }> = {
+  "gmail.com":       { dots: true, plus: true },
+  "googlemail.com":  { dots: true, plus: true, canonical: "gmail.com" },
+  "outlook.com":     { plus: true },
+  "hotmail.com":     { plus: true },
+  "live.com":        { plus: true },
+  "icloud.com":      { plus: true },
+  "me.com":          { plus: true },
+  "fastmail.com":    { plus: true },
+  "proton.me":       { plus: true },
+  "protonmail.com":  { plus: true },
+};
+
+// Canonical form used for dedupe: case-folded, trimmed, provider aliases collapsed
+export function normalizeEmail(email: string) {
+  const e = email.trim().toLowerCase();
+  const at = e.lastIndexOf("@");
+  if (at < 1) return e;
+  let local = e.slice(0, at);
+  let domain = e.slice(at + 1);
+  const rule = PROVIDER_RULES[domain];
+  if (rule?.plus) local = local.split("+")[0];
+  if (rule?.dots) local = local.replace(/\./g, "");
+  if (rule?.canonical) domain = rule.canonical;
+  return `${local}@${domain}`;
+}
+
+// ---- Network origin ----
+// What we keep about where a signup or confirmation came from is set by IP_RETENTION:
+//   "region" (default) — approximate region only, which is all the privacy notice promises
+//   "hashed" — region plus keyed hashes of the IP and user agent: comparable (abuse, consent disputes), not readable
+//   "full"   — region plus the raw IP and user agent
+export const IP_RETENTION_MODES = ["region", "hashed", "full"] as const;
+export type IpRetention = (typeof IP_RETENTION_MODES)[number];
+
+export interface NetworkOrigin {
+  ip: string | null;
+  ua: string | null;
+  region?: string;
+}
+
+export function ipRetention(env: Env): IpRetention {
+  return (IP_RETENTION_MODES as readonly string[]).includes(env.IP_RETENTION || "") ? (env.IP_RETENTION as IpRetention) : "region";
+}
+
+export async function networkOrigin(request: Request, env: Env): Promise<NetworkOrigin> {
+  const cf = request.cf as { country?: string; regionCode?: string } | undefined;
+  const region = cf?.country ? (cf.regionCode ? `${cf.country}-${cf.regionCode}` : cf.country) : undefined;
+  const ip = request.headers.get("cf-connecting-ip");
+  const ua = request.headers.get("user-agent");
+  const mode = ipRetention(env);
+  const base = region ? { region } : {};
+  if (mode === "full") return { ip, ua, ...base };
+  // Without the secret a hash would be a plain SHA-256 of the IP, trivially reversed; keep nothing instead
+  if (mode === "hashed" && env.TOKEN_SECRET) {
+    const secret = env.TOKEN_SECRET;
+    const hashed = async (kind: string, v: string | null) => (v ? `h:${await hashId(secret, `${kind}:${v}`)}` : null);
+    return { ip: await hashed("origin-ip", ip), ua: await hashed("origin-ua", ua), ...base };
+  }
+  return { ip: null, ua: null, ...base };
+}
+
+export function recordKey(email: string) {
+  return `waitlist:${normalizeEmail(email)}`;
+}
+
+// Fold a repeat submission into the existing record
+export function mergeTouch(record: WaitlistRecord, touch: Touch): WaitlistRecord {
+  return {
+    ...record,
+    note: touch.note || record.note,
+    source: touch.source || record.source,
+    consent: touch.consent || record.consent,
+    experiments: record.experiments || touch.experiments,
+    touches: [...(record.touches || []), touch].slice(-MAX_TOUCHES),
+  };
+}
+
+// A confirmed record only logs the touch; the rest is parked until the subscriber confirms it
+export function proposeUpdate(record: WaitlistRecord, touch: Touch, update: ProfileUpdate): WaitlistRecord {
+  return { ...record, touches: [...(record.touches || []), touch].slice(-MAX_TOUCHES), update };
+}
+
+export function applyUpdate(record: WaitlistRecord): WaitlistRecord {
+  const { update, ...rest } = record;
+  if (!update) return record;
+  return {
+    ...rest,
+    note: update.note || rest.note,
+    source: update.source || rest.source,
+    consent: update.consent,
+    locale: update.locale,
+    tags: update.tags,
+    ...(update.role ? { role: update.role } : {}),
+    ...(update.campus ? { campus: update.campus } : {}),
+  };
+}
+
+// Copied into KV list metadata so admin queries can filter without reading every value
+export interface RecordMeta {
+  email: string;
+  at: string;
+  source: string;
+  state: WaitlistState;
+  refs: number;
+  role?: Role;
+  campus?: { key: string; name: string; academic: boolean };
+  exp?: Assignment;
+  beta?: BetaState;
+}
+
+export function recordMeta(record: WaitlistRecord): RecordMeta {
+  return {
+    email: record.email, at: record.at, source: record.source, state: record.state, refs: record.referrals || 0,
+    ...(record.role ? { role: record.role } : {}),
+    ...(record.campus ? { campus: { key: record.campus.key, name: record.campus.name, academic: !!record.campus.domain } } : {}),
+    ...(record.experiments ? { exp: record.experiments } : {}),
+    ...(record.beta ? { beta: record.beta.state } : {}),
+  };
+}
+
+// "academic" for academic email domains, plus role:/campus: tags for the pilot team
+export function tagsFor(role: Role | undefined, campus: Campus | null | undefined) {
+  return [
+    ...(campus?.domain ? ["academic"] : []),
+    ...(role ? [`role:${role}`] : []),
+    ...(campus ? [`campus:${campus.key}`] : []),
+  ];
+}
+
+export async function getRecord(kv: KVNamespace, key: string) {
+  return kv.get<WaitlistRecord>(key, "json");
+}
+
+export async function putRecord(kv: KVNamespace, key: string, record: WaitlistRecord) {
+  const opts = record.state === "pending" ? { expirationTtl: PENDING_TTL_SECONDS } : {};
+  await kv.put(key, JSON.stringify(record), { ...opts, metadata: recordMeta(record) });
+}
+
+// ---- Erasure ----
+// Unsubscribing and deletion both purge the record. What remains is a tombstone keyed by an
+// unkeyed SHA-256 of the normalized address (so it survives secret rotation): enough to stop
+// an import or campaign from quietly re-adding the person, and nothing more.
+
+export type TombstoneReason = "unsubscribed" | "deleted";
+
+export interface Tombstone {
+  at: string;
+  reason: TombstoneReason;
+}
+
+async function tombstoneKey(email: string) {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(normalizeEmail(email)));
+  return `tomb:${Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("")}`;
+}
+
+export async function getTombstone(kv: KVNamespace, email: string) {
+  return kv.get<Tombstone>(await tombstoneKey(email), "json");
+}
+
+// A fresh, confirmed signup is new consent and lifts the suppression
+export async function clearTombstone(kv: KVNamespace, email: string) {
+  await kv.delete(await tombstoneKey(email));
+}
+
+// Queued mail and webhook deliveries carry the address as well. Left in place, a retry would
+// mail someone who just left, or re-create the CRM contact their erasure request deleted.
+const QUEUED: [prefix: string, address: (value: unknown) => string | undefined][] = [
+  [QUEUE_PREFIX, (v) => (v as QueuedMail).msg?.to],
+  [DEAD_PREFIX, (v) => (v as QueuedMail).msg?.to],
+  [OUTBOX_PREFIX, (v) => (v as OutboxEntry).to],
+  [HOOK_QUEUE_PREFIX, (v) => (v as QueuedDelivery).payload?.subscriber.email],
+];
+
+async function dropQueued(kv: KVNamespace, normalized: string) {
+  for (const [prefix, address] of QUEUED) {
+    let cursor: string | undefined;
+    do {
+      const page = await kv.list({ prefix, cursor });
+      for (const k of page.keys) {
+        const to = address(await kv.get(k.name, "json"));
+        if (to && normalizeEmail(to) === normalized) await kv.delete(k.name);
+      }
+      cursor = page.list_complete ? undefined : page.cursor;
+    } while (cursor);
+  }
+}
+
+// Removes every key tied to the address, then leaves the tombstone
+export async function purgeSubscriber(kv: KVNamespace, secret: string, email: string, reason: TombstoneReason) {
+  const normalized = normalizeEmail(email);
+  const record = await getRecord(kv, recordKey(normalized));
+  await Promise.all([
+    dropQueued(kv, normalized),
+    kv.delete(recordKey(normalized)),
+    record?.ref ? kv.delete(`ref:${record.ref}`) : Promise.resolve(),
+    record?.beta?.invite ? kv.delete(`invite:${record.beta.invite}`) : Promise.resolve(),
+    kv.delete(`rl:email:${await hashId(secret, normalized)}`),
+    kv.delete(`rl:privacy:${await hashId(secret, `email:${normalized}`)}`),
+  ]);
+  const tomb: Tombstone = { at: new Date().toISOString(), reason };
+  await kv.put(await tombstoneKey(normalized), JSON.stringify(tomb));
+}
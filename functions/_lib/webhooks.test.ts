@@ -0,0 +1,286 @@
+import { createHmac } from "node:crypto";
+import { createServer, type IncomingHttpHeaders, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { FileKV } from "../../dev/kv";
+import { onRequestPost as submitInterest } from "../api/interest";
+import { onRequestPost as confirmInterest } from "../api/interest/confirm";
+import { onRequestPost as deleteData } from "../api/privacy/delete";
+import { CURRENT_VERSIONS } from "../../src/legal";
+import { QUEUE_PREFIX } from "./email";
+import type { Env } from "./env";
+import { configureLogging } from "./log";
+import { signToken } from "./tokens";
+import { drainWebhookQueue, emitWebhook, readDeliveryLog, HOOK_QUEUE_PREFIX, type QueuedDelivery, type TargetConfig } from "./webhooks";
+import { recordKey, type WaitlistRecord } from "./waitlist";
+
+// ---- Webhook delivery, end to end ----
+// Real HTTP against a local server standing in for Slack, a signed-JSON receiver and the CRM,
+// with the dev stack's file-backed KV holding the retry queue and the delivery log.
+
+interface Received {
+  method: string;
+  path: string;
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+const MINUTE = 60_000;
+
+let server: Server;
+let base: string;
+let received: Received[] = [];
+let statuses: number[] = [];        // answers for the next requests, in order; 200 once used up
+
+let dir: string;
+let kv: KVNamespace;
+
+const record: WaitlistRecord = {
+  email: "ada@mit.edu", note: "", source: "coming-soon", ua: null, ip: null,
+  at: "2026-10-01T12:00:00.000Z", state: "confirmed", touches: [], locale: "en", role: "counselor",
+  campus: { key: "mit.edu", name: "MIT", domain: "mit.edu", fromDomain: true },
+  confirmed: { at: "2026-10-01T12:05:00.000Z", ip: null, ua: null },
+};
+
+const envWith = (...targets: TargetConfig[]): Env => ({ WAITLIST: kv, WEBHOOKS: JSON.stringify(targets) });
+
+const SECRET = "test-secret";
+
+// Runs a Pages handler and waits for its waitUntil work, where the webhooks go out
+async function run(handler: PagesFunction<Env>, request: Request, env: Env) {
+  const pending: Promise<unknown>[] = [];
+  const context = { request, env, data: {}, waitUntil: (p: Promise<unknown>) => { pending.push(p); } };
+  const response = await handler(context as unknown as Parameters<PagesFunction<Env>>[0]);
+  await Promise.all(pending);
+  return response;
+}
+
+async function queued() {
+  const list = await kv.list({ prefix: HOOK_QUEUE_PREFIX });
+  return Promise.all(list.keys.map(async (k) => (await kv.get<QueuedDelivery>(k.name, "json"))!));
+}
+
+beforeAll(async () => {
+  configureLogging({ LOG_LEVEL: "silent" });   // failed deliveries are expected here
+  server = createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => { body += chunk; });
+    req.on("end", () => {
+      received.push({ method: req.method!, path: req.url!, headers: req.headers, body });
+      const status = statuses.shift() ?? 200;
+      res.writeHead(status, { "Content-Type": "text/plain" }).end(status === 200 ? "ok" : "nope");
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  dir = mkdtempSync(path.join(tmpdir(), "webhooks-test-"));
+  kv = new FileKV(path.join(dir, "kv.json")) as unknown as KVNamespace;
+  received = [];
+  statuses = [];
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("drivers", () => {
+  it("posts a one-line message to Slack", async () => {
+    await emitWebhook(envWith({ id: "team", type: "slack", url: `${base}/slack` }), "confirmed", record);
+
+    expect(received).toHaveLength(1);
+    expect(received[0].path).toBe("/slack");
+    expect(JSON.parse(received[0].body)).toEqual({ text: ":white_check_mark: Confirmed: ada@mit.edu — counselor · MIT · coming-soon · en" });
+  });
+
+  it("signs JSON deliveries so the receiver can check them", async () => {
+    await emitWebhook(envWith({ id: "zap", type: "json", url: `${base}/hook`, secret: "shh" }), "confirmed", record);
+
+    const [req] = received;
+    const timestamp = req.headers["x-erlysense-timestamp"] as string;
+    const expected = createHmac("sha256", "shh").update(`${timestamp}.${req.body}`).digest("hex");
+    expect(req.headers["x-erlysense-signature"]).toBe(`sha256=${expected}`);
+    expect(req.headers["x-erlysense-event"]).toBe("confirmed");
+
+    const payload = JSON.parse(req.body);
+    expect(req.headers["x-erlysense-delivery"]).toBe(payload.id);
+    expect(payload).toMatchObject({
+      event: "confirmed",
+      subscriber: { email: "ada@mit.edu", state: "confirmed", role: "counselor", institution: "MIT", confirmedAt: "2026-10-01T12:05:00.000Z" },
+    });
+  });
+
+  it("upserts the CRM contact, and erases it on a deletion request", async () => {
+    const env = envWith({ id: "crm", type: "hubspot", url: `${base}/`, token: "pat-1" });
+    await emitWebhook(env, "confirmed", record);
+    await emitWebhook(env, "unsubscribed", record, "deleted");
+
+    const [upsert, erase] = received;
+    expect(upsert.path).toBe("/crm/v3/objects/contacts/batch/upsert");
+    expect(upsert.headers.authorization).toBe("Bearer pat-1");
+    expect(JSON.parse(upsert.body).inputs[0]).toEqual({
+      idProperty: "email",
+      id: "ada@mit.edu",
+      properties: {
+        email: "ada@mit.edu", erlysense_status: "confirmed", erlysense_source: "coming-soon", erlysense_role: "counselor",
+        company: "MIT", hs_language: "en", erlysense_signed_up_at: "2026-10-01T12:00:00.000Z", erlysense_confirmed_at: "2026-10-01T12:05:00.000Z",
+      },
+    });
+    expect(erase.path).toBe("/crm/v3/objects/contacts/gdpr-delete");
+    expect(JSON.parse(erase.body)).toEqual({ idProperty: "email", objectId: "ada@mit.edu" });
+  });
+
+  it("only sends the events a target asked for", async () => {
+    await emitWebhook(envWith({ id: "team", type: "slack", url: `${base}/slack`, events: ["confirmed"] }), "unsubscribed", record, "unsubscribed");
+    expect(received).toHaveLength(0);
+  });
+});
+
+describe("consent", () => {
+  it("tells no one about a signup until it is confirmed", async () => {
+    const env: Env = {
+      ...envWith({ id: "team", type: "slack", url: `${base}/slack` }, { id: "crm", type: "hubspot", url: `${base}/`, token: "pat-1" }),
+      TOKEN_SECRET: SECRET, EMAIL_PROVIDER: "outbox",
+    };
+    const formToken = await signToken(SECRET, "form", String(Date.now() - 10_000), MINUTE);
+    const body = {
+      email: "ada@mit.edu", source: "coming-soon", role: "counselor", consent: true, formToken,
+      termsVersion: CURRENT_VERSIONS.terms, privacyVersion: CURRENT_VERSIONS.privacy,
+    };
+    const submitted = await run(submitInterest, new Request("https://erlysense.example/api/interest", { method: "POST", body: JSON.stringify(body) }), env);
+    expect(await submitted.json()).toMatchObject({ ok: true, status: "pending" });
+    expect(received).toEqual([]);
+    expect(await queued()).toEqual([]);
+
+    const token = await signToken(SECRET, "confirm", recordKey("ada@mit.edu"), MINUTE);
+    await run(confirmInterest, new Request(`https://erlysense.example/api/interest/confirm?token=${token}`, { method: "POST" }), env);
+    expect(received.map((r) => r.path).sort()).toEqual(["/crm/v3/objects/contacts/batch/upsert", "/slack"]);
+  });
+
+  it("sends nothing for a record that was never confirmed", async () => {
+    const env = envWith({ id: "team", type: "slack", url: `${base}/slack` }, { id: "crm", type: "hubspot", url: `${base}/`, token: "pat-1" });
+    const pending: WaitlistRecord = { ...record, state: "pending", confirmed: undefined };
+    await emitWebhook(env, "confirmed", pending);
+    await emitWebhook(env, "unsubscribed", pending, "unsubscribed");
+    expect(received).toEqual([]);
+  });
+});
+
+describe("retries", () => {
+  it("queues a delivery that keeps failing and retries it with backoff", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const start = Date.now();
+    const env = envWith({ id: "zap", type: "json", url: `${base}/hook` });
+
+    // Two quick tries inline, then the queue takes over, first retry a minute out
+    statuses = [503, 503];
+    await emitWebhook(env, "confirmed", record);
+    expect(received).toHaveLength(2);
+    let [item] = await queued();
+    expect(item).toMatchObject({ target: "zap", attempts: 0, lastError: "503: nope" });
+    expect(item.nextAt - start).toBeGreaterThanOrEqual(MINUTE);
+    expect(item.nextAt - start).toBeLessThan(2 * MINUTE);
+
+    // Not due yet: nothing is sent
+    expect(await drainWebhookQueue(env)).toEqual({ delivered: 0, retrying: 0, dead: 0 });
+    expect(received).toHaveLength(2);
+
+    // Due, still failing: the next try backs off to five minutes
+    vi.setSystemTime(start + MINUTE + 1000);
+    statuses = [500];
+    expect(await drainWebhookQueue(env)).toEqual({ delivered: 0, retrying: 1, dead: 0 });
+    [item] = await queued();
+    expect(item.attempts).toBe(1);
+    expect(item.nextAt - Date.now()).toBeGreaterThanOrEqual(5 * MINUTE - 1000);
+
+    vi.setSystemTime(start + 3 * MINUTE);
+    expect(await drainWebhookQueue(env)).toEqual({ delivered: 0, retrying: 0, dead: 0 });
+
+    // Receiver is back: delivered, and the queue is empty
+    vi.setSystemTime(start + 7 * MINUTE);
+    expect(await drainWebhookQueue(env)).toEqual({ delivered: 1, retrying: 0, dead: 0 });
+    expect(await queued()).toEqual([]);
+    expect(received).toHaveLength(4);
+    expect(new Set(received.map((r) => r.headers["x-erlysense-delivery"])).size).toBe(1);   // one delivery id throughout
+  });
+
+  it("gives up on a rejected request without queueing it", async () => {
+    statuses = [400];
+    await emitWebhook(envWith({ id: "zap", type: "json", url: `${base}/hook` }), "confirmed", record);
+    expect(received).toHaveLength(1);
+    expect(await queued()).toEqual([]);
+  });
+
+  it("drops queued deliveries for a target that was removed from the config", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const start = Date.now();
+    statuses = [503, 503];
+    await emitWebhook(envWith({ id: "zap", type: "json", url: `${base}/hook` }), "confirmed", record);
+
+    vi.setSystemTime(start + 2 * MINUTE);
+    expect(await drainWebhookQueue(envWith())).toEqual({ delivered: 0, retrying: 0, dead: 1 });
+    expect(await queued()).toEqual([]);
+  });
+});
+
+describe("erasure", () => {
+  it("drops queued deliveries and mail for the address, so a retry can't re-create the contact", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const start = Date.now();
+    const env: Env = { ...envWith({ id: "crm", type: "hubspot", url: `${base}/`, token: "pat-1" }), TOKEN_SECRET: SECRET };
+    const key = recordKey(record.email);
+    await kv.put(key, JSON.stringify(record));
+    await kv.put(`${QUEUE_PREFIX}1`, JSON.stringify({ msg: { to: "Ada@MIT.edu", subject: "Welcome", html: "" }, attempts: 0, nextAt: start, queuedAt: "" }));
+    await kv.put(`${QUEUE_PREFIX}2`, JSON.stringify({ msg: { to: "grace@yale.edu", subject: "Welcome", html: "" }, attempts: 0, nextAt: start, queuedAt: "" }));
+
+    // The CRM is down when the confirmation goes out: the upsert waits in the queue
+    statuses = [503, 503];
+    await emitWebhook(env, "confirmed", record);
+    expect(await queued()).toHaveLength(1);
+
+    const token = await signToken(SECRET, "privacy-delete", key, MINUTE);
+    await run(deleteData, new Request(`https://erlysense.example/api/privacy/delete?token=${token}`, { method: "POST" }), env);
+    expect((await kv.list({ prefix: QUEUE_PREFIX })).keys.map((k) => k.name)).toEqual([`${QUEUE_PREFIX}2`]);
+
+    // Only the erasure reaches the CRM, then nothing is left to retry
+    vi.setSystemTime(start + 2 * MINUTE);
+    await drainWebhookQueue(env);
+    expect(received.slice(2).map((r) => r.path)).toEqual(["/crm/v3/objects/contacts/gdpr-delete"]);
+    expect(await queued()).toEqual([]);
+  });
+});
+
+describe("delivery log", () => {
+  it("records every final outcome, newest first, without payloads", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const start = Date.now();
+    const slack = envWith({ id: "team", type: "slack", url: `${base}/slack` });
+    const json = envWith({ id: "zap", type: "json", url: `${base}/hook` });
+
+    await emitWebhook(slack, "confirmed", record);
+    vi.setSystemTime(start + 1000);
+    statuses = [404];
+    await emitWebhook(json, "confirmed", record);
+    vi.setSystemTime(start + 2000);
+    statuses = [503, 503];
+    await emitWebhook(json, "unsubscribed", record);
+
+    const entries = await readDeliveryLog(kv);
+    expect(entries).toMatchObject([
+      { target: "zap", event: "unsubscribed", outcome: "queued", attempts: 2, status: 503 },
+      { target: "zap", event: "confirmed", outcome: "failed", attempts: 1, status: 404 },
+      { target: "team", event: "confirmed", outcome: "delivered", attempts: 1, status: 200 },
+    ]);
+    expect(JSON.stringify(entries)).not.toContain("ada@mit.edu");
+  });
+});
@@ -0,0 +1,215 @@
+import type { Env } from "./env";
+import { hubspot } from "./hooks/hubspot";
+import { jsonWebhook } from "./hooks/json";
+import { slack } from "./hooks/slack";
+import {
+  TARGET_TYPES, WEBHOOK_EVENTS, fromResponse,
+  type DeliveryResult, type Driver, type TargetConfig, type TargetType, type WebhookEvent, type WebhookPayload,
+} from "./hooks/target";
+import { log as logger } from "./log";
+import type { WaitlistRecord } from "./waitlist";
+
+export type { TargetConfig, WebhookEvent, WebhookPayload };
+
+// ---- Outbound webhooks: targets, retries and the delivery log ----
+// Targets come from the WEBHOOKS env var (a JSON array of TargetConfig), e.g.
+//   [{ "id": "team", "type": "slack", "url": "https://hooks.slack.com/services/…", "events": ["confirmed"] },
+//    { "id": "crm", "type": "hubspot", "url": "https://api.hubapi.com", "token": "pat-…" },
+//    { "id": "zap", "type": "json", "url": "https://example.com/hook", "secret": "…" }]
+// Delivery mirrors outbound email: a couple of quick inline tries, then a KV retry queue with
+// backoff. Every final outcome lands in a short-lived delivery log (no payloads, just results).
+
+const DRIVERS: Record<TargetType, Driver> = { slack, json: jsonWebhook, hubspot };
+
+const INLINE_DELAYS_MS = [0, 500];
+const QUEUE_BACKOFF_MS = [60_000, 5 * 60_000, 30 * 60_000, 2 * 60 * 60_000, 12 * 60 * 60_000];
+const LEASE_MS = 5 * 60_000;
+const REQUEST_TIMEOUT_MS = 10_000;
+const LOG_TTL_SECONDS = 14 * 24 * 60 * 60;
+
+export const HOOK_QUEUE_PREFIX = "hookq:";
+export const HOOK_LOG_PREFIX = "hooklog:";
+
+export interface QueuedDelivery {
+  target: string;                // TargetConfig.id; the config itself is re-read so fixes apply to retries
+  payload: WebhookPayload;
+  attempts: number;
+  nextAt: number;
+  lastError?: string;
+}
+
+export interface DeliveryLogEntry {
+  target: string;
+  event: WebhookEvent;
+  delivery: string;
+  at: string;
+  outcome: "delivered" | "queued" | "failed";
+  attempts: number;
+  status?: number;
+  error?: string;
+}
+
+function isHttpUrl(v: unknown) {
+  if (typeof v !== "string") return false;
+  try { return /^https?:$/.test(new URL(v).protocol); } catch { return false; }
+}
+
+// Bad entries are skipped (and logged) rather than taking every other target down with them
+export function webhookTargets(env: Env): TargetConfig[] {
+  if (!env.WEBHOOKS) return [];
+  let raw: unknown;
+  try { raw = JSON.parse(env.WEBHOOKS); } catch {
+    logger.error("WEBHOOKS is not valid JSON");
+    return [];
+  }
+  if (!Array.isArray(raw)) return [];
+  return raw.filter((t): t is TargetConfig => {
+    const ok = !!t && typeof t.id === "string" && (TARGET_TYPES as readonly string[]).includes(t.type) && isHttpUrl(t.url)
+      && (t.events === undefined || (Array.isArray(t.events) && t.events.every((e: unknown) => (WEBHOOK_EVENTS as readonly unknown[]).includes(e))));
+    if (!ok) logger.error("Skipping invalid webhook target", { target: t?.id ?? t });
+    return ok;
+  });
+}
+
+const wants = (t: TargetConfig, event: WebhookEvent) => !t.events || t.events.includes(event);
+
+export function payloadFor(event: WebhookEvent, record: WaitlistRecord, reason?: WebhookPayload["reason"]): WebhookPayload {
+  return {
+    id: crypto.randomUUID(),
+    event,
+    at: new Date().toISOString(),
+    ...(reason ? { reason } : {}),
+    subscriber: {
+      email: record.email,
+      state: record.state,
+      source: record.source,
+      ...(record.locale ? { locale: record.locale } : {}),
+      ...(record.role ? { role: record.role } : {}),
+      ...(record.campus ? { institution: record.campus.name } : {}),
+      signedUpAt: record.at,
+      ...(record.confirmed ? { confirmedAt: record.confirmed.at } : {}),
+    },
+  };
+}
+
+async function deliver(target: TargetConfig, payload: WebhookPayload): Promise<DeliveryResult> {
+  try {
+    const { url, init } = await DRIVERS[target.type].request(target, payload);
+    return await fromResponse(await fetch(url, { ...init, signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) }));
+  } catch (err) {
+    return { ok: false, retryable: true, error: String(err) }; // network errors and timeouts are transient
+  }
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Newest first when listed: keys sort by an inverted timestamp
+async function log(kv: KVNamespace, entry: DeliveryLogEntry) {
+  const inverted = String(9_999_999_999_999 - Date.now()).padStart(13, "0");
+  await kv.put(`${HOOK_LOG_PREFIX}${inverted}:${crypto.randomUUID()}`, "", { expirationTtl: LOG_TTL_SECONDS, metadata: entry });
+}
+
+function logEntry(target: string, payload: WebhookPayload, outcome: DeliveryLogEntry["outcome"], attempts: number, r: DeliveryResult): DeliveryLogEntry {
+  return {
+    target, event: payload.event, delivery: payload.id, at: new Date().toISOString(), outcome, attempts,
+    ...(r.status ? { status: r.status } : {}),
+    ...(r.error ? { error: r.error } : {}),
+  };
+}
+
+async function deliverNow(kv: KVNamespace, target: TargetConfig, payload: WebhookPayload) {
+  let last: DeliveryResult = { ok: false };
+  let tries = 0;
+  for (const delay of INLINE_DELAYS_MS) {
+    if (delay) await sleep(delay);
+    last = await deliver(target, payload);
+    tries++;
+    if (last.ok || !last.retryable) break;
+  }
+  if (last.ok) return log(kv, logEntry(target.id, payload, "delivered", tries, last));
+  logger.warn("Webhook delivery failed", { target: target.id, event: payload.event, error: last.error });
+  if (last.retryable) {
+    const item: QueuedDelivery = { target: target.id, payload, attempts: 0, nextAt: Date.now() + QUEUE_BACKOFF_MS[0], lastError: last.error };
+    await kv.put(`${HOOK_QUEUE_PREFIX}${payload.id}:${target.id}`, JSON.stringify(item), { metadata: { nextAt: item.nextAt } });
+    return log(kv, logEntry(target.id, payload, "queued", tries, last));
+  }
+  return log(kv, logEntry(target.id, payload, "failed", tries, last));
+}
+
+// Fans an event out to every target that wants it. Never throws; meant for waitUntil.
+// Targets only ever hear about confirmed subscribers, so an address someone typed in without
+// consent never reaches Slack or the CRM, not even as an unsubscribe.
+export async function emitWebhook(env: Env, event: WebhookEvent, record: WaitlistRecord, reason?: WebhookPayload["reason"]) {
+  try {
+    if (record.state !== "confirmed") return;
+    const targets = webhookTargets(env).filter((t) => wants(t, event));
+    if (!targets.length || !env.WAITLIST) return;
+    const payload = payloadFor(event, record, reason);
+    await Promise.all(targets.map((t) => deliverNow(env.WAITLIST!, t, payload)));
+  } catch (err) {
+    logger.error("emitWebhook failed", { err });
+  }
+}
+
+// One delivery to one target, for the admin "send test" button; logged like any other
+export async function sendTestWebhook(env: Env, targetId: string) {
+  const target = webhookTargets(env).find((t) => t.id === targetId);
+  if (!target || !env.WAITLIST) return null;
+  const sample: WaitlistRecord = {
+    email: "test@example.edu", note: "", source: "coming-soon", ua: null, ip: null,
+    at: new Date().toISOString(), state: "confirmed", touches: [], locale: "en", role: "student",
+    confirmed: { at: new Date().toISOString(), ip: null, ua: null },
+  };
+  const payload = payloadFor(target.events?.[0] || "confirmed", sample);
+  const r = await deliver(target, payload);
+  await log(env.WAITLIST, logEntry(target.id, payload, r.ok ? "delivered" : "failed", 1, r));
+  return r;
+}
+
+// Retries due deliveries; same lease trick as the mail queue
+export async function drainWebhookQueue(env: Env, max = 20) {
+  const result = { delivered: 0, retrying: 0, dead: 0 };
+  if (!env.WAITLIST) return result;
+  const kv = env.WAITLIST;
+  const targets = new Map(webhookTargets(env).map((t) => [t.id, t]));
+  const now = Date.now();
+
+  const list = await kv.list<{ nextAt: number }>({ prefix: HOOK_QUEUE_PREFIX });
+  const due = list.keys.filter((k) => (k.metadata?.nextAt ?? 0) <= now).slice(0, max);
+  for (const k of due) {
+    const item = await kv.get<QueuedDelivery>(k.name, "json");
+    if (!item) continue;
+    const target = targets.get(item.target);
+    // Target removed from the config since: nothing left to deliver to
+    if (!target) {
+      await kv.delete(k.name);
+      await log(kv, logEntry(item.target, item.payload, "failed", item.attempts, { ok: false, error: "Target no longer configured" }));
+      result.dead++;
+      continue;
+    }
+    await kv.put(k.name, JSON.stringify(item), { metadata: { nextAt: now + LEASE_MS } });
+
+    const r = await deliver(target, item.payload);
+    const attempts = item.attempts + 1;
+    if (r.ok) {
+      await kv.delete(k.name);
+      await log(kv, logEntry(target.id, item.payload, "delivered", attempts, r));
+      result.delivered++;
+    } else if (!r.retryable || attempts >= QUEUE_BACKOFF_MS.length) {
+      logger.error("Webhook queue giving up", { target: target.id, event: item.payload.event, attempts, error: r.error });
+      await kv.delete(k.name);
+      await log(kv, logEntry(target.id, item.payload, "failed", attempts, r));
+      result.dead++;
+    } else {
+      const next: QueuedDelivery = { ...item, attempts, lastError: r.error, nextAt: Date.now() + QUEUE_BACKOFF_MS[attempts] };
+      await kv.put(k.name, JSON.stringify(next), { metadata: { nextAt: next.nextAt } });
+      result.retrying++;
+    }
+  }
+  return result;
+}
+
+export async function readDeliveryLog(kv: KVNamespace, limit = 100) {
+  const list = await kv.list<DeliveryLogEntry>({ prefix: HOOK_LOG_PREFIX, limit });
+  return list.keys.flatMap((k) => (k.metadata ? [k.metadata] : []));
+}
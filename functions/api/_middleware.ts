@@ -0,0 +1,41 @@
+import type { Env } from "../_lib/env";
+import { json } from "../_lib/http";
+import { configureLogging, log } from "../_lib/log";
+
+// Runs ahead of every /api/* route (admin routes get their own auth middleware after this one).
+// Each request gets an ID: it tags every log line the route writes, comes back in X-Request-Id,
+// and is added to JSON error bodies so a visitor's "Server error" can be matched to the logs.
+export const onRequest: PagesFunction<Env> = async ({ request, env, next, data }) => {
+  configureLogging(env);
+  const requestId = crypto.randomUUID();
+  const logger = log.child({ requestId, method: request.method, path: new URL(request.url).pathname });
+  data.log = logger;
+  data.requestId = requestId;
+
+  const started = Date.now();
+  let res: Response;
+  try {
+    res = await next();
+  } catch (err) {
+    logger.error("Unhandled error", { err });
+    res = json({ ok:false, error:"Server error" }, { status: 500 });
+  }
+  const fields = { status: res.status, ms: Date.now() - started };
+  if (res.status >= 500) logger.warn("Request failed", fields);
+  else logger.debug("Request done", fields);
+  return withRequestId(res, requestId);
+};
+
+async function withRequestId(res: Response, requestId: string) {
+  const headers = new Headers(res.headers);
+  headers.set("X-Request-Id", requestId);
+  const init = { status: res.status, statusText: res.statusText, headers };
+  if (res.status >= 400 && headers.get("content-type")?.startsWith("application/json")) {
+    const body = await res.clone().json().catch(() => null);
+    if (body && typeof body === "object" && !Array.isArray(body) && (body as { ok?: unknown }).ok === false) {
+      headers.delete("content-length");
+      return new Response(JSON.stringify({ ...body, requestId }), init);
+    }
+  }
+  return new Response(res.body, init);
+}
@@ -0,0 +1,30 @@
+import type { Env } from "../../_lib/env";
+import { json } from "../../_lib/http";
+import { requestLog } from "../../_lib/log";
+
+// Constant-time comparison so the token can't be guessed byte by byte
+function safeEqual(a: string, b: string) {
+  const enc = new TextEncoder();
+  const x = enc.encode(a), y = enc.encode(b);
+  let diff = x.length ^ y.length;
+  for (let i = 0; i < Math.max(x.length, y.length); i++) diff |= (x[i] ?? 0) ^ (y[i] ?? 0);
+  return diff === 0;
+}
+
+// Every /api/admin/* route requires `Authorization: Bearer <ADMIN_TOKEN>`
+export const onRequest: PagesFunction<Env> = async ({ request, env, next, data }) => {
+  if (!env.ADMIN_TOKEN) {
+    requestLog(data).error("ADMIN_TOKEN is not configured");
+    return json({ ok:false, error:"Admin API disabled" }, { status: 503 });
+  }
+  const auth = request.headers.get("authorization") || "";
+  const token = auth.startsWith("Bearer ") ? auth.slice(7) : "";
+  if (!token || !safeEqual(token, env.ADMIN_TOKEN)) {
+    return json({ ok:false, error:"Unauthorized" }, { status: 401, headers: { "WWW-Authenticate": "Bearer" } });
+  }
+  const res = await next();
+  // Waitlist data is personal data; never let a proxy or the browser keep it
+  const headers = new Headers(res.headers);
+  headers.set("Cache-Control", "no-store");
+  return new Response(res.body, { status: res.status, statusText: res.statusText, headers });
+};
@@ -0,0 +1,40 @@
+import type { Env } from "../../_lib/env";
+import { json } from "../../_lib/http";
+import { requestLog } from "../../_lib/log";
+import { funnelRates, readDays, sumCounts } from "../../_lib/analytics";
+import { UTM_KEYS } from "../../../src/shared/analytics";
+
+const MAX_DAYS = 90;
+
+// GET /api/admin/analytics?days=30 — funnel totals, conversion rates, and per-utm breakdowns
+export const onRequestGet: PagesFunction<Env> = async ({ request, env, data }) => {
+  try {
+    if (!env.WAITLIST) return json({ ok:false, error:"WAITLIST is not configured" }, { status: 500 });
+    const requested = Number(new URL(request.url).searchParams.get("days")) || 30;
+    const days = Math.min(MAX_DAYS, Math.max(1, Math.floor(requested)));
+
+    const stats = await readDays(env.WAITLIST, days);
+    const totals = sumCounts(stats.map((s) => s.events));
+
+    // Fold each tag's per-day buckets together, busiest first
+    const utm = Object.fromEntries(UTM_KEYS.map((k) => {
+      const values = new Set(stats.flatMap((s) => Object.keys(s.utm[k] || {})));
+      const rows = [...values].map((value) => {
+        const t = sumCounts(stats.map((s) => s.utm[k]?.[value] || {}));
+        return { value, totals: t, rates: funnelRates(t) };
+      }).sort((a, b) => b.totals.page_view - a.totals.page_view);
+      return [k, rows];
+    }));
+
+    return json({
+      ok:true,
+      days: stats.map((s) => ({ day: s.day, totals: sumCounts([s.events]) })),
+      totals,
+      rates: funnelRates(totals),
+      utm,
+    });
+  } catch (err) {
+    requestLog(data).error("Unhandled error", { err });
+    return json({ ok:false, error:"Server error" }, { status: 500 });
+  }
+};
@@ -0,0 +1,41 @@
+import type { Env } from "../../../_lib/env";
+import { json } from "../../../_lib/http";
+import { requestLog } from "../../../_lib/log";
+import { getCampaign, listRecipients, saveCampaign } from "../../../_lib/campaigns";
+
+// GET /api/admin/campaigns/:id — campaign plus the recipients that failed
+export const onRequestGet: PagesFunction<Env, "id"> = async ({ env, params, data }) => {
+  try {
+    if (!env.WAITLIST) return json({ ok:false, error:"WAITLIST is not configured" }, { status: 500 });
+    const campaign = await getCampaign(env.WAITLIST, String(params.id));
+    if (!campaign) return json({ ok:false, error:"Not found" }, { status: 404 });
+    return json({ ok:true, campaign, failed: await listRecipients(env.WAITLIST, campaign.id, "failed") });
+  } catch (err) {
+    requestLog(data).error("Unhandled error", { err });
+    return json({ ok:false, error:"Server error" }, { status: 500 });
+  }
+};
+
+// PATCH /api/admin/campaigns/:id { status: "paused" } — stop a run between batches
+// PATCH /api/admin/campaigns/:id { status: "sending" } — resume a paused one
+export const onRequestPatch: PagesFunction<Env, "id"> = async ({ request, env, params, data }) => {
+  try {
+    if (!env.WAITLIST) return json({ ok:false, error:"WAITLIST is not configured" }, { status: 500 });
+    const campaign = await getCampaign(env.WAITLIST, String(params.id));
+    if (!campaign) return json({ ok:false, error:"Not found" }, { status: 404 });
+    const body = (await request.json().catch(() => ({}))) as { status?: unknown };
+    if (body?.status !== "paused" && body?.status !== "sending") return json({ ok:false, error:"Unknown status" }, { status: 400 });
+    if (body.status === "paused" && campaign.status !== "sending") {
+      return json({ ok:false, error:"Only a sending campaign can be paused" }, { status: 409 });
+    }
+    if (body.status === "sending" && campaign.status !== "paused") {
+      return json({ ok:false, error:"Only a paused campaign can be resumed" }, { status: 409 });
+    }
+    campaign.status = body.status;
+    await saveCampaign(env.WAITLIST, campaign);
+    return json({ ok:true, campaign });
+  } catch (err) {
+    requestLog(data).error("Unhandled error", { err });
+    return json({ ok:false, error:"Server error" }, { status: 500 });
+  }
+};
@@ -0,0 +1,42 @@
+import type { Env } from "../../../../_lib/env";
+import { json } from "../../../../_lib/http";
+import { requestLog } from "../../../../_lib/log";
+import { RECIPIENT_TTL_SECONDS, getCampaign, runBatch } from "../../../../_lib/campaigns";
+
+// POST /api/admin/campaigns/:id/send[?batch=25][&retryFailed=1]
+// Sends the next batch; the admin UI calls this in a loop until status is "done". A paused
+// campaign is refused until it is resumed.
+// retryFailed rewinds the cursor: already-sent recipients are skipped, failed ones retried.
+export const onRequestPost: PagesFunction<Env, "id"> = async ({ request, env, params, data }) => {
+  try {
+    if (!env.WAITLIST || !env.TOKEN_SECRET) {
+      return json({ ok:false, error:"WAITLIST and TOKEN_SECRET must be configured" }, { status: 500 });
+    }
+    const campaign = await getCampaign(env.WAITLIST, String(params.id));
+    if (!campaign) return json({ ok:false, error:"Not found" }, { status: 404 });
+
+    // Pausing stops every sender, not just the tab that pressed Pause; resuming is an explicit PATCH
+    if (campaign.status === "paused") {
+      return json({ ok:false, error:"Campaign is paused" }, { status: 409 });
+    }
+
+    const query = new URL(request.url).searchParams;
+    if (query.get("retryFailed") === "1") {
+      // Past the recipient keys' lifetime (counted from creation, before any key existed) a rewind
+      // would email everyone again
+      if (Date.now() - Date.parse(campaign.createdAt) > (RECIPIENT_TTL_SECONDS - 24 * 60 * 60) * 1000) {
+        return json({ ok:false, error:"Campaign too old to retry" }, { status: 409 });
+      }
+      campaign.cursor = null;
+    } else if (campaign.status === "done") {
+      return json({ ok:false, error:"Campaign already finished" }, { status: 409 });
+    }
+
+    const batch = Math.min(100, Math.max(1, Number(query.get("batch")) || 25));
+    const result = await runBatch(env, request, campaign, batch);
+    return json({ ok:true, ...result });
+  } catch (err) {
+    requestLog(data).error("Unhandled error", { err });
+    return json({ ok:false, error:"Server error" }, { status: 500 });
+  }
+};
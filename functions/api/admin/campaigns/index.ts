@@ -0,0 +1,52 @@
+import type { Env } from "../../../_lib/env";
+import { json } from "../../../_lib/http";
+import { requestLog } from "../../../_lib/log";
+import { createCampaign, isTemplate, listCampaigns, validateContent, type CampaignContent } from "../../../_lib/campaigns";
+import { parseFilter } from "../../../_lib/query";
+
+// GET /api/admin/campaigns — all campaigns, newest first
+export const onRequestGet: PagesFunction<Env> = async ({ env, data }) => {
+  try {
+    if (!env.WAITLIST) return json({ ok:false, error:"WAITLIST is not configured" }, { status: 500 });
+    return json({ ok:true, campaigns: await listCampaigns(env.WAITLIST) });
+  } catch (err) {
+    requestLog(data).error("Unhandled error", { err });
+    return json({ ok:false, error:"Server error" }, { status: 500 });
+  }
+};
+
+// POST /api/admin/campaigns { name, template, content: {…}, segment: { q, source, from, to } }
+// Creates a draft; nothing is sent until /send is called.
+export const onRequestPost: PagesFunction<Env> = async ({ request, env, data }) => {
+  try {
+    if (!env.WAITLIST) return json({ ok:false, error:"WAITLIST is not configured" }, { status: 500 });
+    const body = (await request.json().catch(() => ({}))) as {
+      name?: unknown; template?: unknown; content?: CampaignContent; segment?: Record<string, unknown>;
+    };
+    const name = String(body?.name || "").trim().slice(0, 120);
+    if (!name) return json({ ok:false, error:"Name is required" }, { status: 400 });
+    if (!isTemplate(body?.template)) return json({ ok:false, error:"Unknown template" }, { status: 400 });
+
+    const c = body.content || {};
+    const content: CampaignContent = {
+      subject: c.subject ? String(c.subject).slice(0, 200) : undefined,
+      heading: c.heading ? String(c.heading).slice(0, 200) : undefined,
+      body: c.body ? String(c.body).slice(0, 10_000) : undefined,
+      url: c.url ? String(c.url).trim() : undefined,
+      ctaLabel: c.ctaLabel ? String(c.ctaLabel).slice(0, 60) : undefined,
+    };
+    const invalid = validateContent(body.template, content);
+    if (invalid) return json({ ok:false, error: invalid }, { status: 400 });
+
+    // Same vocabulary as the waitlist filters; state is forced to "confirmed" at send time
+    const params = new URLSearchParams();
+    Object.entries(body.segment || {}).forEach(([k, v]) => { if (v) params.set(k, String(v)); });
+    const { q, from, to, source } = parseFilter(params);
+
+    const campaign = await createCampaign(env.WAITLIST, { name, template: body.template, content, segment: { q, from, to, source } });
+    return json({ ok:true, campaign }, { status: 201 });
+  } catch (err) {
+    requestLog(data).error("Unhandled error", { err });
+    return json({ ok:false, error:"Server error" }, { status: 500 });
+  }
+};
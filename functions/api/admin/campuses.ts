@@ -0,0 +1,52 @@
+import type { Env } from "../../_lib/env";
+import { json } from "../../_lib/http";
+import { requestLog } from "../../_lib/log";
+import { getRecord, recordMeta, type RecordMeta } from "../../_lib/waitlist";
+import { ROLES, type Role } from "../../../src/shared/institution";
+
+interface CampusDemand {
+  key: string;
+  name: string;
+  academic: boolean;      // at least one signup used the campus email domain
+  total: number;
+  confirmed: number;
+  roles: Record<Role, number>;
+}
+
+// GET /api/admin/campuses — signups grouped by institution, busiest first.
+// Reads list metadata only, so it stays cheap as the waitlist grows.
+export const onRequestGet: PagesFunction<Env> = async ({ env, data }) => {
+  try {
+    if (!env.WAITLIST) return json({ ok:false, error:"WAITLIST is not configured" }, { status: 500 });
+    const byKey = new Map<string, CampusDemand>();
+    let cursor: string | undefined;
+    do {
+      const page = await env.WAITLIST.list<RecordMeta>({ prefix: "waitlist:", cursor });
+      for (const k of page.keys) {
+        let meta = k.metadata;
+        if (!meta) {
+          const record = await getRecord(env.WAITLIST, k.name);
+          if (!record) continue;
+          meta = recordMeta(record);
+        }
+        if (!meta.campus) continue;
+        const entry = byKey.get(meta.campus.key) || {
+          key: meta.campus.key, name: meta.campus.name, academic: false, total: 0, confirmed: 0,
+          roles: Object.fromEntries(ROLES.map((r) => [r, 0])) as Record<Role, number>,
+        };
+        entry.total++;
+        if (meta.state === "confirmed") entry.confirmed++;
+        if (meta.role) entry.roles[meta.role]++;
+        entry.academic ||= meta.campus.academic;
+        byKey.set(entry.key, entry);
+      }
+      cursor = page.list_complete ? undefined : page.cursor;
+    } while (cursor);
+
+    const campuses = [...byKey.values()].sort((a, b) => b.confirmed - a.confirmed || b.total - a.total);
+    return json({ ok:true, campuses });
+  } catch (err) {
+    requestLog(data).error("Unhandled error", { err });
+    return json({ ok:false, error:"Server error" }, { status: 500 });
+  }
+};
@@ -0,0 +1,55 @@
+import type { Env } from "../../_lib/env";
+import { json } from "../../_lib/http";
+import { requestLog } from "../../_lib/log";
+import { publishContent, readLiveContent, resetContent, saveDraft } from "../../_lib/content";
+import { CONTENT_MAX_BYTES, DEFAULT_CONTENT, validateLandingContent } from "../../../src/shared/content";
+
+// GET /api/admin/content — the live config, where it came from, and the built-in default
+export const onRequestGet: PagesFunction<Env> = async ({ env, data }) => {
+  try {
+    if (!env.WAITLIST) return json({ ok:false, error:"WAITLIST is not configured" }, { status: 500 });
+    const live = await readLiveContent(env.WAITLIST);
+    return json({ ok:true, ...live, default: DEFAULT_CONTENT });
+  } catch (err) {
+    requestLog(data).error("Unhandled error", { err });
+    return json({ ok:false, error:"Server error" }, { status: 500 });
+  }
+};
+
+// POST /api/admin/content { action: "preview" | "publish", content: {…} }
+// "preview" stores a 24-hour draft and returns a landing-page URL that renders it; "publish" makes it live.
+export const onRequestPost: PagesFunction<Env> = async ({ request, env, data }) => {
+  try {
+    if (!env.WAITLIST) return json({ ok:false, error:"WAITLIST is not configured" }, { status: 500 });
+    const raw = await request.text();
+    if (raw.length > CONTENT_MAX_BYTES) return json({ ok:false, error:"Content config is too large" }, { status: 413 });
+    let body: { action?: unknown; content?: unknown };
+    try { body = JSON.parse(raw); } catch { return json({ ok:false, error:"Invalid JSON" }, { status: 400 }); }
+
+    if (body?.action !== "preview" && body?.action !== "publish") return json({ ok:false, error:"Unknown action" }, { status: 400 });
+    const result = validateLandingContent(body.content);
+    if (!result.ok) return json({ ok:false, error:"Invalid content config", errors: result.errors }, { status: 400 });
+
+    if (body.action === "preview") {
+      const id = await saveDraft(env.WAITLIST, result.value);
+      return json({ ok:true, previewUrl: `/?preview=${id}` });
+    }
+    const stored = await publishContent(env.WAITLIST, result.value);
+    return json({ ok:true, ...stored });
+  } catch (err) {
+    requestLog(data).error("Unhandled error", { err });
+    return json({ ok:false, error:"Server error" }, { status: 500 });
+  }
+};
+
+// DELETE /api/admin/content — unpublish; the landing page goes back to the built-in default
+export const onRequestDelete: PagesFunction<Env> = async ({ env, data }) => {
+  try {
+    if (!env.WAITLIST) return json({ ok:false, error:"WAITLIST is not configured" }, { status: 500 });
+    await resetContent(env.WAITLIST);
+    return json({ ok:true, content: DEFAULT_CONTENT, source: "default" });
+  } catch (err) {
+    requestLog(data).error("Unhandled error", { err });
+    return json({ ok:false, error:"Server error" }, { status: 500 });
+  }
+};
@@ -0,0 +1,19 @@
+import type { Env } from "../../_lib/env";
+import { json } from "../../_lib/http";
+import { requestLog } from "../../_lib/log";
+import { readCspReports } from "../../_lib/csp";
+
+const MAX_LIMIT = 1000;
+
+// GET /api/admin/csp-reports?limit=100 — recent Content-Security-Policy violations, newest first
+export const onRequestGet: PagesFunction<Env> = async ({ request, env, data }) => {
+  try {
+    if (!env.WAITLIST) return json({ ok:false, error:"WAITLIST is not configured" }, { status: 500 });
+    const requested = Number(new URL(request.url).searchParams.get("limit"));
+    const limit = Number.isInteger(requested) && requested > 0 ? Math.min(requested, MAX_LIMIT) : 100;
+    return json({ ok:true, reports: await readCspReports(env.WAITLIST, limit) });
+  } catch (err) {
+    requestLog(data).error("Unhandled error", { err });
+    return json({ ok:false, error:"Server error" }, { status: 500 });
+  }
+};
@@ -0,0 +1,85 @@
+import type { Env } from "../../_lib/env";
+import { json } from "../../_lib/http";
+import { requestLog } from "../../_lib/log";
+import { readDays, sumCounts } from "../../_lib/analytics";
+import { twoProportionTest } from "../../_lib/experiments";
+import { getRecord, recordMeta, type RecordMeta } from "../../_lib/waitlist";
+import { EXPERIMENTS, EXPERIMENT_IDS, type ExperimentId } from "../../../src/shared/experiments";
+
+const MAX_DAYS = 90;
+
+// Signups (and confirmations) per variant, from list metadata; all-time, since records carry no day bucket
+async function signupsByVariant(kv: KVNamespace) {
+  const counts: Record<string, { signups: number; confirmed: number }> = {};
+  let cursor: string | undefined;
+  do {
+    const page = await kv.list<RecordMeta>({ prefix: "waitlist:", cursor });
+    for (const k of page.keys) {
+      let meta = k.metadata;
+      if (!meta) {
+        const record = await getRecord(kv, k.name);
+        if (!record) continue;
+        meta = recordMeta(record);
+      }
+      for (const [id, variant] of Object.entries(meta.exp || {})) {
+        const c = (counts[`${id}:${variant}`] ||= { signups: 0, confirmed: 0 });
+        c.signups++;
+        if (meta.state === "confirmed") c.confirmed++;
+      }
+    }
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
+  return counts;
+}
+
+// Trials are visitors (the once-per-browser "visitor" event), so a visitor who reloads isn't several
+// trials. Days from before that event existed have only page views: they're left out while any day
+// in the window has visitors, and the report falls back to (and says) "views" when none does.
+type Trials = "visitors" | "views";
+
+// GET /api/admin/experiments?days=30 — conversion (accepted signups / visitors) per variant,
+// each variant tested against the control (its experiment's first variant)
+export const onRequestGet: PagesFunction<Env> = async ({ request, env, data }) => {
+  try {
+    if (!env.WAITLIST) return json({ ok:false, error:"WAITLIST is not configured" }, { status: 500 });
+    const requested = Number(new URL(request.url).searchParams.get("days")) || 30;
+    const days = Math.min(MAX_DAYS, Math.max(1, Math.floor(requested)));
+
+    const [stats, signups] = await Promise.all([readDays(env.WAITLIST, days), signupsByVariant(env.WAITLIST)]);
+
+    const experiments = EXPERIMENT_IDS.map((id: ExperimentId) => {
+      const withVisitors = stats.filter((s) => Object.values(s.exp?.[id] || {}).some((c) => c.visitor));
+      const trials: Trials = withVisitors.length ? "visitors" : "views";
+      const counted = withVisitors.length ? withVisitors : stats;
+      const rows = EXPERIMENTS[id].map((variant) => {
+        const totals = sumCounts(counted.map((s) => s.exp?.[id]?.[variant] || {}));
+        const n = trials === "visitors" ? totals.visitor : totals.page_view;
+        // A visitor can sign up twice (or have arrived before visitors were counted); never more successes than trials
+        const x = Math.min(totals.submit_success, n);
+        return {
+          variant,
+          visitors: totals.visitor,
+          views: totals.page_view,
+          opens: totals.interest_click,
+          conversions: totals.submit_success,
+          rate: n ? x / n : null,
+          trial: { x, n },
+          ...(signups[`${id}:${variant}`] || { signups: 0, confirmed: 0 }),
+        };
+      });
+      const control = rows[0].trial;
+      return {
+        id,
+        control: rows[0].variant,
+        trials,
+        daysCounted: counted.length,
+        variants: rows.map(({ trial, ...r }, i) => ({ ...r, test: i === 0 ? null : twoProportionTest(control, trial) })),
+      };
+    });
+
+    return json({ ok:true, days, experiments });
+  } catch (err) {
+    requestLog(data).error("Unhandled error", { err });
+    return json({ ok:false, error:"Server error" }, { status: 500 });
+  }
+};
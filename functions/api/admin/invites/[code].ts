@@ -0,0 +1,20 @@
+import type { Env } from "../../../_lib/env";
+import { json } from "../../../_lib/http";
+import { requestLog } from "../../../_lib/log";
+import { getInvite, revokeInvite } from "../../../_lib/invites";
+import { normalizeInviteCode } from "../../../../src/shared/invite";
+
+// DELETE /api/admin/invites/:code — revoke; redemptions already made stay in place
+export const onRequestDelete: PagesFunction<Env, "code"> = async ({ env, params, data }) => {
+  try {
+    if (!env.WAITLIST) return json({ ok:false, error:"WAITLIST is not configured" }, { status: 500 });
+    const code = normalizeInviteCode(String(params.code));
+    const invite = code ? await getInvite(env.WAITLIST, code) : null;
+    if (!invite) return json({ ok:false, error:"Not found" }, { status: 404 });
+    if (invite.revokedAt) return json({ ok:true, invite });
+    return json({ ok:true, invite: await revokeInvite(env.WAITLIST, invite) });
+  } catch (err) {
+    requestLog(data).error("Unhandled error", { err });
+    return json({ ok:false, error:"Server error" }, { status: 500 });
+  }
+};
@@ -0,0 +1,87 @@
+import type { Env } from "../../../_lib/env";
+import { json } from "../../../_lib/http";
+import { requestLog } from "../../../_lib/log";
+import { drainMailQueue, sendEmail, type SendOutcome } from "../../../_lib/email";
+import { DEFAULT_INVITE_DAYS, MAX_INVITE_DAYS, MAX_INVITE_USES, createInvite, listInvites } from "../../../_lib/invites";
+import { inviteLink, listUnsubscribeHeaders, unsubscribeLink } from "../../../_lib/links";
+import { betaInviteEmail } from "../../../_lib/mail/templates";
+import { getRecord, recordKey } from "../../../_lib/waitlist";
+
+// Sent inline; anything the provider pushes back on lands in the mail retry queue
+const MAX_PER_CALL = 50;
+
+interface InviteResult {
+  email: string;
+  status: SendOutcome | "created" | "skipped";
+  code?: string;
+  error?: string;
+}
+
+// GET /api/admin/invites — every code still on file, newest first
+export const onRequestGet: PagesFunction<Env> = async ({ env, data }) => {
+  try {
+    if (!env.WAITLIST) return json({ ok:false, error:"WAITLIST is not configured" }, { status: 500 });
+    return json({ ok:true, invites: await listInvites(env.WAITLIST) });
+  } catch (err) {
+    requestLog(data).error("Unhandled error", { err });
+    return json({ ok:false, error:"Server error" }, { status: 500 });
+  }
+};
+
+// POST /api/admin/invites { emails: [...], maxUses?: 1, days?: 14, send?: true }
+// One code per address, tied to its waitlist record and emailed unless send is false.
+// Only confirmed subscribers can be invited; anyone else comes back as skipped.
+export const onRequestPost: PagesFunction<Env> = async ({ request, env, waitUntil, data }) => {
+  try {
+    if (!env.WAITLIST || !env.TOKEN_SECRET) {
+      return json({ ok:false, error:"WAITLIST and TOKEN_SECRET must be configured" }, { status: 500 });
+    }
+    const input = (await request.json().catch(() => ({}))) as { emails?: unknown; maxUses?: unknown; days?: unknown; send?: unknown };
+    const emails = Array.isArray(input.emails) ? [...new Set(input.emails.map((e) => String(e).trim()).filter(Boolean))] : [];
+    if (!emails.length) return json({ ok:false, error:"At least one email is required" }, { status: 400 });
+    if (emails.length > MAX_PER_CALL) return json({ ok:false, error:`At most ${MAX_PER_CALL} emails per call` }, { status: 400 });
+
+    const maxUses = input.maxUses === undefined ? 1 : Number(input.maxUses);
+    if (!Number.isInteger(maxUses) || maxUses < 1 || maxUses > MAX_INVITE_USES) {
+      return json({ ok:false, error:`maxUses must be a whole number from 1 to ${MAX_INVITE_USES}` }, { status: 400 });
+    }
+    const days = input.days === undefined ? DEFAULT_INVITE_DAYS : Number(input.days);
+    if (!Number.isInteger(days) || days < 1 || days > MAX_INVITE_DAYS) {
+      return json({ ok:false, error:`days must be a whole number from 1 to ${MAX_INVITE_DAYS}` }, { status: 400 });
+    }
+
+    const results: InviteResult[] = [];
+    for (const email of emails) {
+      const key = recordKey(email);
+      const record = await getRecord(env.WAITLIST, key);
+      if (!record || record.state !== "confirmed") {
+        results.push({ email, status: "skipped", error: "Not a confirmed subscriber" });
+        continue;
+      }
+      const invite = await createInvite(env.WAITLIST, key, record, { maxUses, days });
+      if (input.send === false) {
+        results.push({ email: record.email, status: "created", code: invite.code });
+        continue;
+      }
+      const outcome = await sendEmail(env, {
+        to: record.email,
+        ...betaInviteEmail({
+          inviteUrl: inviteLink(request, invite.code),
+          code: invite.code,
+          expiresAt: invite.expiresAt,
+          personal: invite.maxUses === 1,
+          unsubscribeUrl: await unsubscribeLink(request, env.TOKEN_SECRET, key),
+          locale: record.locale,
+        }),
+        headers: await listUnsubscribeHeaders(request, env.TOKEN_SECRET, key),
+      });
+      results.push({ email: record.email, status: outcome, code: invite.code, ...(outcome === "failed" ? { error: "Provider rejected the message" } : {}) });
+    }
+    waitUntil(drainMailQueue(env));
+
+    return json({ ok:true, results }, { status: 201 });
+  } catch (err) {
+    requestLog(data).error("Unhandled error", { err });
+    return json({ ok:false, error:"Server error" }, { status: 500 });
+  }
+};
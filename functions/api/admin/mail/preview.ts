@@ -0,0 +1,21 @@
+import type { Env } from "../../../_lib/env";
+import { json } from "../../../_lib/http";
+import { PREVIEWS } from "../../../_lib/mail/templates";
+import { isLocale } from "../../../../src/shared/locale";
+
+// GET /api/admin/mail/preview                      — list template names
+// GET /api/admin/mail/preview?template=welcome&format=html|text&locale=es — render with sample data
+export const onRequestGet: PagesFunction<Env> = async ({ request }) => {
+  const params = new URL(request.url).searchParams;
+  const name = params.get("template");
+  if (!name) return json({ ok:true, templates: Object.keys(PREVIEWS) });
+
+  const render = PREVIEWS[name];
+  if (!render) return json({ ok:false, error:`Unknown template "${name}"` }, { status: 404 });
+  const locale = params.get("locale");
+  const { subject, html, text } = render(isLocale(locale) ? locale : undefined);
+  if (params.get("format") === "text") {
+    return new Response(`Subject: ${subject}\n\n${text}`, { headers: { "Content-Type": "text/plain; charset=utf-8" } });
+  }
+  return new Response(html, { headers: { "Content-Type": "text/html; charset=utf-8" } });
+};
@@ -0,0 +1,38 @@
+import type { Env } from "../../../_lib/env";
+import { json } from "../../../_lib/http";
+import { requestLog } from "../../../_lib/log";
+import { DEAD_PREFIX, QUEUE_PREFIX, drainMailQueue, transportFor, type QueuedMail } from "../../../_lib/email";
+
+// GET /api/admin/mail/queue — provider in use, queued and dead-lettered messages
+export const onRequestGet: PagesFunction<Env> = async ({ env, data }) => {
+  try {
+    if (!env.WAITLIST) return json({ ok:false, error:"WAITLIST is not configured" }, { status: 500 });
+    const read = async (prefix: string) => {
+      const list = await env.WAITLIST!.list({ prefix });
+      const items = await Promise.all(list.keys.map(async (k) => ({ key: k.name, ...(await env.WAITLIST!.get<QueuedMail>(k.name, "json")) })));
+      // Recipients and subjects only; bodies can carry signed links
+      return items.map(({ key, msg, attempts, nextAt, queuedAt, lastError }) => ({
+        key, to: msg?.to, subject: msg?.subject, attempts, nextAt, queuedAt, lastError,
+      }));
+    };
+    return json({
+      ok:true,
+      provider: transportFor(env)?.name || null,
+      queued: await read(QUEUE_PREFIX),
+      dead: await read(DEAD_PREFIX),
+    });
+  } catch (err) {
+    requestLog(data).error("Unhandled error", { err });
+    return json({ ok:false, error:"Server error" }, { status: 500 });
+  }
+};
+
+// POST /api/admin/mail/queue — retry whatever is due now
+export const onRequestPost: PagesFunction<Env> = async ({ env, data }) => {
+  try {
+    return json({ ok:true, ...(await drainMailQueue(env, 100)) });
+  } catch (err) {
+    requestLog(data).error("Unhandled error", { err });
+    return json({ ok:false, error:"Server error" }, { status: 500 });
+  }
+};
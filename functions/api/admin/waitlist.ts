@@ -0,0 +1,37 @@
+import type { Env } from "../../_lib/env";
+import { json } from "../../_lib/http";
+import { requestLog } from "../../_lib/log";
+import { parseFilter, queryAll, queryWaitlist, toCsv } from "../../_lib/query";
+
+// GET /api/admin/waitlist?q=&from=&to=&source=&state=&cursor=&limit=
+// GET /api/admin/waitlist?…&format=csv|json — full export of the filtered set
+export const onRequestGet: PagesFunction<Env> = async ({ request, env, data }) => {
+  try {
+    if (!env.WAITLIST) return json({ ok:false, error:"WAITLIST is not configured" }, { status: 500 });
+
+    const params = new URL(request.url).searchParams;
+    const filter = parseFilter(params);
+    const format = params.get("format");
+
+    if (format === "csv" || format === "json") {
+      const rows = await queryAll(env.WAITLIST, filter);
+      const stamp = new Date().toISOString().slice(0, 10);
+      const body = format === "csv" ? toCsv(rows) : JSON.stringify(rows, null, 2);
+      return new Response(body, {
+        headers: {
+          "Content-Type": format === "csv" ? "text/csv; charset=utf-8" : "application/json",
+          "Content-Disposition": `attachment; filename="waitlist-${stamp}.${format}"`,
+        },
+      });
+    }
+
+    const page = await queryWaitlist(env.WAITLIST, filter, {
+      cursor: params.get("cursor"),
+      limit: Number(params.get("limit")) || undefined,
+    });
+    return json({ ok:true, ...page });
+  } catch (err) {
+    requestLog(data).error("Unhandled error", { err });
+    return json({ ok:false, error:"Server error" }, { status: 500 });
+  }
+};
@@ -0,0 +1,44 @@
+import type { Env } from "../../_lib/env";
+import { json } from "../../_lib/http";
+import { requestLog } from "../../_lib/log";
+import {
+  HOOK_QUEUE_PREFIX, drainWebhookQueue, readDeliveryLog, sendTestWebhook, webhookTargets, type QueuedDelivery,
+} from "../../_lib/webhooks";
+
+// GET /api/admin/webhooks — configured targets, pending retries and the recent delivery log
+export const onRequestGet: PagesFunction<Env> = async ({ env, data }) => {
+  try {
+    if (!env.WAITLIST) return json({ ok:false, error:"WAITLIST is not configured" }, { status: 500 });
+    const kv = env.WAITLIST;
+    // Slack and CRM URLs embed credentials; the host is enough to tell targets apart
+    const targets = webhookTargets(env).map((t) => ({
+      id: t.id, type: t.type, host: new URL(t.url).host, events: t.events || "all", signed: !!t.secret,
+    }));
+    const list = await kv.list({ prefix: HOOK_QUEUE_PREFIX });
+    const queued = (await Promise.all(list.keys.map((k) => kv.get<QueuedDelivery>(k.name, "json"))))
+      .flatMap((q) => (q ? [{ target: q.target, event: q.payload.event, delivery: q.payload.id, attempts: q.attempts, nextAt: q.nextAt, lastError: q.lastError }] : []));
+    return json({ ok:true, targets, queued, log: await readDeliveryLog(kv) });
+  } catch (err) {
+    requestLog(data).error("Unhandled error", { err });
+    return json({ ok:false, error:"Server error" }, { status: 500 });
+  }
+};
+
+// POST /api/admin/webhooks { action: "drain" } — retry whatever is due now
+// POST /api/admin/webhooks { action: "test", target: "<id>" } — send one sample event to a target
+export const onRequestPost: PagesFunction<Env> = async ({ request, env, data }) => {
+  try {
+    if (!env.WAITLIST) return json({ ok:false, error:"WAITLIST is not configured" }, { status: 500 });
+    const body = (await request.json().catch(() => ({}))) as { action?: unknown; target?: unknown };
+    if (body.action === "drain") return json({ ok:true, ...(await drainWebhookQueue(env, 100)) });
+    if (body.action === "test") {
+      const result = await sendTestWebhook(env, String(body.target || ""));
+      if (!result) return json({ ok:false, error:"Unknown target" }, { status: 404 });
+      return json({ ok: result.ok, status: result.status, error: result.error });
+    }
+    return json({ ok:false, error:"Unknown action" }, { status: 400 });
+  } catch (err) {
+    requestLog(data).error("Unhandled error", { err });
+    return json({ ok:false, error:"Server error" }, { status: 500 });
+  }
+};
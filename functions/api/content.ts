@@ -0,0 +1,28 @@
+import type { Env } from "../_lib/env";
+import { json } from "../_lib/http";
+import { requestLog } from "../_lib/log";
+import { readDraft, readLiveContent } from "../_lib/content";
+import { DEFAULT_CONTENT } from "../../src/shared/content";
+
+// GET /api/content — the published landing content (or the built-in default).
+// GET /api/content?preview=<id> — an unpublished draft saved from the admin page.
+export const onRequestGet: PagesFunction<Env> = async ({ request, env, data }) => {
+  try {
+    // Without KV there is nothing to override; the default keeps the page working
+    if (!env.WAITLIST) return json({ ok:true, content: DEFAULT_CONTENT }, { headers: { "Cache-Control": "public, max-age=60" } });
+
+    const preview = new URL(request.url).searchParams.get("preview");
+    if (preview) {
+      const draft = await readDraft(env.WAITLIST, preview);
+      if (!draft) return json({ ok:false, error:"Preview expired or not found" }, { status: 404, headers: { "Cache-Control": "no-store" } });
+      return json({ ok:true, content: draft.content, preview: true }, { headers: { "Cache-Control": "no-store" } });
+    }
+
+    const { content } = await readLiveContent(env.WAITLIST);
+    // Short cache: a publish shows up within a minute without hitting KV on every view
+    return json({ ok:true, content }, { headers: { "Cache-Control": "public, max-age=60" } });
+  } catch (err) {
+    requestLog(data).error("Unhandled error", { err });
+    return json({ ok:true, content: DEFAULT_CONTENT });
+  }
+};
@@ -0,0 +1,38 @@
+import type { Env } from "../_lib/env";
+import { requestLog } from "../_lib/log";
+import { parseCspReports, storeCspReport } from "../_lib/csp";
+import { hashId, hit } from "../_lib/ratelimit";
+
+// A page with a broken policy can fire dozens of reports per view; this caps what one visitor can write
+const REPORT_LIMIT = { limit: 20, windowMs: 10 * 60 * 1000 };
+const MAX_BODY_BYTES = 64 * 1024;
+
+const noContent = () => new Response(null, { status: 204, headers: { "Cache-Control": "no-store" } });
+
+// POST /api/csp-report — CSP violation reports from browsers (report-uri and report-to formats).
+// Always 204: browsers ignore the answer, and there is nothing useful to tell a sender.
+export const onRequestPost: PagesFunction<Env> = async ({ request, env, data }) => {
+  try {
+    if (!env.WAITLIST || !env.TOKEN_SECRET) return noContent();
+    if (Number(request.headers.get("content-length") || 0) > MAX_BODY_BYTES) return noContent();
+
+    const text = await request.text();
+    if (text.length > MAX_BODY_BYTES) return noContent();
+    let body: unknown;
+    try { body = JSON.parse(text); } catch { return noContent(); }
+    const reports = parseCspReports(body);
+    if (!reports.length) return noContent();
+
+    const ip = request.headers.get("cf-connecting-ip");
+    if (ip) {
+      const limited = await hit(env.WAITLIST, `rl:csp:${await hashId(env.TOKEN_SECRET, ip)}`, REPORT_LIMIT);
+      if (!limited.ok) return noContent();
+    }
+
+    await Promise.all(reports.map((r) => storeCspReport(env.WAITLIST!, r)));
+    return noContent();
+  } catch (err) {
+    requestLog(data).error("Unhandled error", { err });
+    return noContent();
+  }
+};
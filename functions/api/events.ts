@@ -0,0 +1,36 @@
+import type { Env } from "../_lib/env";
+import { requestLog } from "../_lib/log";
+import { recordEvent } from "../_lib/analytics";
+import { hashId, hit } from "../_lib/ratelimit";
+import { parseEvent } from "../../src/shared/analytics";
+
+// Generous: a real visit sends a handful of events; this only stops someone inflating counters
+const EVENT_LIMIT = { limit: 60, windowMs: 10 * 60 * 1000 };
+
+const noContent = () => new Response(null, { status: 204, headers: { "Cache-Control": "no-store" } });
+
+// POST /api/events — { event, utm?, exp? } from the landing page's beacon.
+// Always 204: the client never waits on or reacts to analytics. Nothing about the
+// visitor is stored; the IP is only used (hashed, short-lived) for the flood brake.
+export const onRequestPost: PagesFunction<Env> = async ({ request, env, data }) => {
+  try {
+    // The client already checks these; the headers cover visitors whose browser sends them anyway
+    if (request.headers.get("sec-gpc") === "1" || request.headers.get("dnt") === "1") return noContent();
+    if (!env.WAITLIST || !env.TOKEN_SECRET) return noContent();
+
+    const payload = parseEvent(await request.json().catch(() => null));
+    if (!payload) return new Response(null, { status: 400 });
+
+    const ip = request.headers.get("cf-connecting-ip");
+    if (ip) {
+      const limited = await hit(env.WAITLIST, `rl:ev:${await hashId(env.TOKEN_SECRET, ip)}`, EVENT_LIMIT);
+      if (!limited.ok) return noContent();
+    }
+
+    await recordEvent(env.WAITLIST, payload.event, payload.utm, payload.exp);
+    return noContent();
+  } catch (err) {
+    requestLog(data).error("Unhandled error", { err });
+    return noContent();
+  }
+};
@@ -1,67 +1,158 @@
-export interface Env {
-  // Bindings (configure in Cloudflare Pages → Settings → Functions → Environment Variables/Bindings)
-  RESEND_API_KEY?: string;   // or SENDGRID_API_KEY if you prefer
-  NOTIFY_TO?: string;        // e.g. "founders@erlysense.example"
-  WAITLIST?: KVNamespace;    // KV namespace binding name: WAITLIST
-}
+import type { Env } from "../_lib/env";
+import { json, tooManyRequests } from "../_lib/http";
+import { requestLog } from "../_lib/log";
+import { drainMailQueue, sendEmail } from "../_lib/email";
+import { drainWebhookQueue } from "../_lib/webhooks";
+import { idempotencyKey, remember, replayed } from "../_lib/idempotency";
+import { hashId, hit } from "../_lib/ratelimit";
+import { listUnsubscribeHeaders, signedLink, unsubscribeLink } from "../_lib/links";
+import { confirmEmail, updateEmail } from "../_lib/mail/templates";
+import { REF_RE } from "../_lib/referrals";
+import { signToken, verifyToken } from "../_lib/tokens";
+import { getRecord, mergeTouch, networkOrigin, normalizeEmail, proposeUpdate, putRecord, recordKey, tagsFor, PENDING_TTL_SECONDS } from "../_lib/waitlist";
+import { resolveCampus } from "../_lib/academic";
+import { validateInterest, type FormTokenResponse, type InterestResponse } from "../../src/shared/interest";
+import { matchLocale, parseAcceptLanguage } from "../../src/shared/locale";
+import type { ConsentReceipt } from "../../src/legal";
 
-const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+// ---- Bot defense ----
+const FORM_TOKEN_TTL_MS = 2 * 60 * 60 * 1000;  // a form left open longer than this needs a reload
+const MIN_FILL_MS = 2000;                        // humans don't open the form and submit inside 2s
+const IP_LIMIT    = { limit: 5, windowMs: 10 * 60 * 1000 };
+const EMAIL_LIMIT = { limit: 3, windowMs: 60 * 60 * 1000 };
 
-export const onRequestPost: PagesFunction<Env> = async ({ request, env }) => {
+// GET /api/interest — issues the signed form timestamp the POST must echo back
+export const onRequestGet: PagesFunction<Env> = async ({ env, data }) => {
+  if (!env.TOKEN_SECRET) {
+    requestLog(data).error("TOKEN_SECRET must be configured");
+    return json({ ok:false, error:"Server error" }, { status: 500 });
+  }
+  const formToken = await signToken(env.TOKEN_SECRET, "form", String(Date.now()), FORM_TOKEN_TTL_MS);
+  const body: FormTokenResponse = { ok:true, formToken };
+  return json(body, { headers: { "Cache-Control": "no-store" } });
+};
+
+// Every POST response follows the shared contract
+const reply = (body: InterestResponse, init?: ResponseInit) => json(body, init);
+
+export const onRequestPost: PagesFunction<Env> = async ({ request, env, waitUntil, data }) => {
   try {
-    const data = await request.json().catch(() => ({}));
-    const email = String(data?.email || "").trim();
-    const note  = String(data?.note || "").trim();
-    if (!EMAIL_RE.test(email)) {
-      return new Response(JSON.stringify({ ok:false, error:"Invalid email" }), { status: 400 });
+    const raw: unknown = await request.json().catch(() => null);
+
+    // Double opt-in: we need somewhere to park the pending record and a key to sign the link
+    if (!env.WAITLIST || !env.TOKEN_SECRET) {
+      requestLog(data).error("WAITLIST and TOKEN_SECRET must be configured for double opt-in");
+      return reply({ ok:false, error:"Server error" }, { status: 500 });
     }
 
-    // Store in KV (optional but recommended)
-    if (env.WAITLIST) {
-      const key = `waitlist:${Date.now()}:${crypto.randomUUID()}`;
-      await env.WAITLIST.put(key, JSON.stringify({
-        email, note,
-        ua: request.headers.get("user-agent"),
-        ip: request.headers.get("cf-connecting-ip"),
-        at: new Date().toISOString(),
-      }));
+    // A resend of a signup we already accepted (offline replay, flaky network) gets the same answer,
+    // before the form token or rate limits can turn it into an error
+    const idemKey = idempotencyKey(request);
+    const previous = await replayed(env.WAITLIST, idemKey);
+    if (previous) return previous;
+    const accepted = async (body: InterestResponse) => {
+      await remember(env.WAITLIST!, idemKey, 200, body);
+      return reply(body);
+    };
+
+    // Honeypot filled: look successful so the bot moves on, but store and send nothing
+    if (raw && typeof raw === "object" && (raw as { trap?: unknown }).trap) {
+      return reply({ ok:true, status:"pending", returning:false });
     }
 
-    // Notify via Resend (simple and reliable)
-    if (env.RESEND_API_KEY && env.NOTIFY_TO) {
-      const subject = `erlySense waitlist: ${email}`;
-      const html = `
-        <h2>New waitlist interest</h2>
-        <p><strong>Email:</strong> ${email}</p>
-        <p><strong>Note:</strong> ${note ? note.replace(/</g,"&lt;") : "(none)"}</p>
-        <p style="color:#888">Source: coming-soon @ ${new Date().toISOString()}</p>
-      `;
+    const form = await verifyToken(env.TOKEN_SECRET, "form", String((raw as { formToken?: unknown } | null)?.formToken || ""));
+    if (!form) {
+      return reply({ ok:false, error:"Form expired. Please reload the page and try again.", fields: { _form: "Form expired. Please reload the page and try again." } }, { status: 400 });
+    }
+    const elapsed = Date.now() - Number(form.k);
+    if (elapsed < MIN_FILL_MS) {
+      return tooManyRequests(Math.ceil((MIN_FILL_MS - elapsed) / 1000), "Too fast");
+    }
 
-      const r = await fetch("https://api.resend.com/emails", {
-        method: "POST",
-        headers: {
-          "Authorization": `Bearer ${env.RESEND_API_KEY}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          from: "erlySense <noreply@mail.erlysense.example>",
-          to: [env.NOTIFY_TO],
-          subject,
-          html,
-        }),
-      });
+    const ip = request.headers.get("cf-connecting-ip");
+    if (ip) {
+      const byIp = await hit(env.WAITLIST, `rl:ip:${await hashId(env.TOKEN_SECRET, ip)}`, IP_LIMIT);
+      if (!byIp.ok) return tooManyRequests(byIp.retryAfter);
+    }
 
-      if (!r.ok) {
-        const text = await r.text();
-        console.error("Resend failed:", r.status, text);
-      }
+    const checked = validateInterest(raw);
+    if (!checked.ok) {
+      return reply({ ok:false, error:"Please check the highlighted fields.", fields: checked.errors }, { status: 400 });
     }
+    const { email, source, role } = checked.value;
+    const note = checked.value.note || "";
+    const institution = checked.value.institution || "";
+    const ref = checked.value.ref || "";
+    // The page sends the language it was shown in; older clients fall back to the browser's
+    const locale = checked.value.locale || matchLocale(parseAcceptLanguage(request.headers.get("accept-language")));
+
+    // Also caps how many confirmation emails anyone can trigger for one address
+    const byEmail = await hit(env.WAITLIST, `rl:email:${await hashId(env.TOKEN_SECRET, normalizeEmail(email))}`, EMAIL_LIMIT);
+    if (!byEmail.ok) return tooManyRequests(byEmail.retryAfter);
 
-    return new Response(JSON.stringify({ ok:true }), {
-      headers: { "Content-Type": "application/json" }
+    // One record per person: repeat submissions are merged, not duplicated
+    const key = recordKey(email);
+    const now = new Date().toISOString();
+    // Receipt of what was agreed to: server time, and the document versions the page says it showed
+    const consent: ConsentReceipt = {
+      at: now,
+      locale,
+      checkbox: checked.value.consent,
+      documents: { terms: checked.value.termsVersion, privacy: checked.value.privacyVersion },
+    };
+    const experiments = checked.value.experiments;
+    const touch = { at: now, source, consent, ...(note ? { note } : {}), ...(experiments ? { experiments } : {}) };
+    const existing = await getRecord(env.WAITLIST, key);
+    // Later answers refine earlier ones; a blank field never erases what we know
+    const campus = resolveCampus(email, institution) || existing?.campus;
+    const profile = {
+      locale,
+      ...(role || existing?.role ? { role: role || existing?.role } : {}),
+      ...(campus ? { campus } : {}),
+      tags: tagsFor(role || existing?.role, campus),
+    };
+    // Until confirmation a record is only a claim, so later submissions simply refine it. A confirmed
+    // record is the subscriber's: a submission with their address is logged, and its changes wait
+    // for them to open the link we email.
+    const confirmedAlready = existing?.state === "confirmed";
+    const record = existing
+      ? confirmedAlready
+        ? proposeUpdate(existing, touch, { at: now, note, source, consent, ...profile })
+        : { ...mergeTouch(existing, touch), ...profile }
+      : {
+          ...profile,
+          email, note, source, consent,
+          ...(experiments ? { experiments } : {}),
+          ...(await networkOrigin(request, env)),
+          at: now,
+          state: "pending" as const,
+          touches: [touch],
+          // Credited to the referrer only once this signup is confirmed
+          ...(REF_RE.test(ref) ? { referredBy: ref } : {}),
+        };
+    // Pending records get their TTL refreshed; KV drops them after PENDING_TTL_SECONDS otherwise
+    await putRecord(env.WAITLIST, key, record);
+
+    const unsubscribeUrl = await unsubscribeLink(request, env.TOKEN_SECRET, key);
+    const mail = confirmedAlready
+      ? updateEmail({ updateUrl: await signedLink(request, env.TOKEN_SECRET, "/api/interest/update", "update", `${now}|${key}`, PENDING_TTL_SECONDS * 1000), unsubscribeUrl, locale: record.locale })
+      : confirmEmail({ confirmUrl: await signedLink(request, env.TOKEN_SECRET, "/api/interest/confirm", "confirm", key, PENDING_TTL_SECONDS * 1000), unsubscribeUrl, locale: record.locale });
+    const outcome = await sendEmail(env, {
+      to: record.email,
+      ...mail,
+      headers: await listUnsubscribeHeaders(request, env.TOKEN_SECRET, key),
     });
+    // "queued" is fine: the retry queue delivers it shortly
+    if (outcome === "failed") {
+      return reply({ ok:false, error:"Could not send confirmation email" }, { status: 502 });
+    }
+    waitUntil(drainMailQueue(env));
+    waitUntil(drainWebhookQueue(env));
+
+    if (confirmedAlready) return accepted({ ok:true, status:"confirmed", returning:true });
+    return accepted({ ok:true, status:"pending", returning: !!existing });
   } catch (err) {
-    console.error(err);
-    return new Response(JSON.stringify({ ok:false, error:"Server error" }), { status: 500 });
+    requestLog(data).error("Unhandled error", { err });
+    return reply({ ok:false, error:"Server error" }, { status: 500 });
   }
 };
@@ -0,0 +1,91 @@
+import type { Env } from "../../_lib/env";
+import { confirmForm, escapeHtml, page } from "../../_lib/html";
+import { redirectToApp } from "../../_lib/http";
+import { requestLog } from "../../_lib/log";
+import { drainMailQueue, sendEmail } from "../../_lib/email";
+import { drainWebhookQueue, emitWebhook } from "../../_lib/webhooks";
+import { listUnsubscribeHeaders, referralLink, statusLink, unsubscribeLink } from "../../_lib/links";
+import { founderNotificationEmail, welcomeEmail } from "../../_lib/mail/templates";
+import { creditReferral, ensureRefCode } from "../../_lib/referrals";
+import { verifyToken } from "../../_lib/tokens";
+import { clearTombstone, getRecord, networkOrigin, putRecord } from "../../_lib/waitlist";
+
+// Checks the link and loads the signup; failures bounce to the landing page, which renders ?confirm=
+async function load(request: Request, env: Env, data: Record<string, unknown>) {
+  if (!env.WAITLIST || !env.TOKEN_SECRET) {
+    requestLog(data).error("WAITLIST and TOKEN_SECRET must be configured");
+    return redirectToApp(request, "/?confirm=error");
+  }
+  const token = new URL(request.url).searchParams.get("token") || "";
+  const payload = await verifyToken(env.TOKEN_SECRET, "confirm", token);
+  if (!payload) return redirectToApp(request, "/?confirm=invalid");
+  const pending = await getRecord(env.WAITLIST, payload.k);
+  if (!pending) return redirectToApp(request, "/?confirm=expired");
+  const statusUrl = `${await statusLink(request, env.TOKEN_SECRET, payload.k)}&confirmed=1`;
+  // Clicking the link twice is harmless
+  if (pending.state === "confirmed") return Response.redirect(statusUrl, 303);
+  return { key: payload.k, pending, statusUrl };
+}
+
+// GET /api/interest/confirm?token=… — confirmation page. Mail scanners and link previewers
+// fetch links in the email; only the button below (a POST) counts as the subscriber's consent.
+export const onRequestGet: PagesFunction<Env> = async ({ request, env, data }) => {
+  try {
+    const loaded = await load(request, env, data);
+    if (loaded instanceof Response) return loaded;
+    return page("Confirm your email", `<p>Confirm ${escapeHtml(loaded.pending.email)} to join the erlySense waitlist.</p>${confirmForm(request.url, "Confirm my email")}`);
+  } catch (err) {
+    requestLog(data).error("Unhandled error", { err });
+    return redirectToApp(request, "/?confirm=error");
+  }
+};
+
+// POST /api/interest/confirm?token=… — flips a pending signup to confirmed and sends the
+// subscriber to their status page
+export const onRequestPost: PagesFunction<Env> = async ({ request, env, waitUntil, data }) => {
+  try {
+    const loaded = await load(request, env, data);
+    if (loaded instanceof Response) return loaded;
+    const { key, pending, statusUrl } = loaded;
+    const kv = env.WAITLIST!;
+    const secret = env.TOKEN_SECRET!;
+
+    const at = new Date().toISOString();
+    const confirmed = {
+      ...pending,
+      state: "confirmed" as const,
+      confirmed: { at, ...(await networkOrigin(request, env)) },
+    };
+    await putRecord(kv, key, confirmed);
+    const record = await ensureRefCode(kv, key, confirmed);
+    if (record.referredBy) await creditReferral(kv, record.referredBy, key);
+
+    await clearTombstone(kv, record.email);
+
+    // Welcome the subscriber; founders (and webhooks) only hear about signups that actually consented.
+    // Out-of-band so the subscriber's redirect never waits on the provider.
+    const unsubscribeUrl = await unsubscribeLink(request, secret, key);
+    const headers = await listUnsubscribeHeaders(request, secret, key);
+    waitUntil((async () => {
+      await sendEmail(env, {
+        to: record.email,
+        ...welcomeEmail({ unsubscribeUrl, statusUrl: await statusLink(request, secret, key), referralUrl: referralLink(request, record.ref!), locale: record.locale }),
+        headers,
+      });
+      if (env.NOTIFY_TO) {
+        await sendEmail(env, {
+          to: env.NOTIFY_TO,
+          ...founderNotificationEmail({ email: record.email, note: record.note, source: record.source, at: record.at, confirmedAt: at }),
+        });
+      }
+      await emitWebhook(env, "confirmed", record);
+      await drainMailQueue(env);
+      await drainWebhookQueue(env);
+    })());
+
+    return Response.redirect(statusUrl, 303);
+  } catch (err) {
+    requestLog(data).error("Unhandled error", { err });
+    return redirectToApp(request, "/?confirm=error");
+  }
+};
@@ -0,0 +1,54 @@
+import type { Env } from "../../_lib/env";
+import { confirmForm, escapeHtml, page } from "../../_lib/html";
+import { redirectToApp } from "../../_lib/http";
+import { requestLog } from "../../_lib/log";
+import { statusLink } from "../../_lib/links";
+import { verifyToken } from "../../_lib/tokens";
+import { applyUpdate, getRecord, putRecord } from "../../_lib/waitlist";
+
+// Checks the link and loads the record with its parked changes. The link names the submission
+// it was sent for, so an older link can't apply a newer submission someone else made.
+async function load(request: Request, env: Env, data: Record<string, unknown>) {
+  if (!env.WAITLIST || !env.TOKEN_SECRET) {
+    requestLog(data).error("WAITLIST and TOKEN_SECRET must be configured");
+    return redirectToApp(request, "/?confirm=error");
+  }
+  const token = new URL(request.url).searchParams.get("token") || "";
+  const payload = await verifyToken(env.TOKEN_SECRET, "update", token);
+  if (!payload) return redirectToApp(request, "/?confirm=invalid");
+  const split = payload.k.indexOf("|");
+  const at = payload.k.slice(0, split);
+  const key = payload.k.slice(split + 1);
+  const record = await getRecord(env.WAITLIST, key);
+  if (!record) return redirectToApp(request, "/?confirm=expired");
+  const statusUrl = await statusLink(request, env.TOKEN_SECRET, key);
+  // Already applied, or replaced by a later submission: nothing to do
+  if (record.state !== "confirmed" || record.update?.at !== at) return Response.redirect(statusUrl, 303);
+  return { key, record, statusUrl };
+}
+
+// GET /api/interest/update?token=… — confirmation page; as with signups, only the POST counts
+export const onRequestGet: PagesFunction<Env> = async ({ request, env, data }) => {
+  try {
+    const loaded = await load(request, env, data);
+    if (loaded instanceof Response) return loaded;
+    return page("Confirm your changes", `<p>Update the details and consent for ${escapeHtml(loaded.record.email)} with what was last submitted on the erlySense waitlist form.</p>${confirmForm(request.url, "Update my details")}`);
+  } catch (err) {
+    requestLog(data).error("Unhandled error", { err });
+    return redirectToApp(request, "/?confirm=error");
+  }
+};
+
+// POST /api/interest/update?token=… — applies the parked changes and shows the status page
+export const onRequestPost: PagesFunction<Env> = async ({ request, env, data }) => {
+  try {
+    const loaded = await load(request, env, data);
+    if (loaded instanceof Response) return loaded;
+    await putRecord(env.WAITLIST!, loaded.key, applyUpdate(loaded.record));
+    requestLog(data).info("Profile update confirmed");
+    return Response.redirect(loaded.statusUrl, 303);
+  } catch (err) {
+    requestLog(data).error("Unhandled error", { err });
+    return redirectToApp(request, "/?confirm=error");
+  }
+};
@@ -0,0 +1,130 @@
+import type { Env } from "../_lib/env";
+import { json, tooManyRequests } from "../_lib/http";
+import { requestLog } from "../_lib/log";
+import { drainMailQueue, sendEmail } from "../_lib/email";
+import { getInvite, inviteProblem, isActivated, redeemInvite } from "../_lib/invites";
+import { listUnsubscribeHeaders, signedLink, unsubscribeLink, INVITE_ACTIVATION_TTL_MS } from "../_lib/links";
+import { betaJoinEmail } from "../_lib/mail/templates";
+import { hashId, hit } from "../_lib/ratelimit";
+import { getRecord, networkOrigin, normalizeEmail, recordKey } from "../_lib/waitlist";
+import { normalizeInviteCode, validateRedemption, type InviteCheckResponse, type InviteProblem, type RedeemResponse } from "../../src/shared/invite";
+import { DEFAULT_LOCALE } from "../../src/shared/locale";
+
+// Codes carry ~59 bits, but nobody gets to walk through them either
+const IP_LIMIT = { limit: 20, windowMs: 10 * 60 * 1000 };
+// Caps the join links anyone can send to one address
+const EMAIL_LIMIT = { limit: 3, windowMs: 60 * 60 * 1000 };
+
+const PROBLEMS: Record<InviteProblem, { error: string; status: number }> = {
+  "invalid":    { error: "That invitation isn't valid", status: 404 },
+  "expired":    { error: "That invitation has expired", status: 410 },
+  "used":       { error: "That invitation has already been used", status: 410 },
+  "not-listed": { error: "That address isn't a confirmed waitlist subscriber", status: 403 },
+};
+
+const refuse = (problem: InviteProblem) => json({ ok:false, error: PROBLEMS[problem].error, problem }, { status: PROBLEMS[problem].status });
+
+async function limited(request: Request, env: Env) {
+  const ip = request.headers.get("cf-connecting-ip");
+  if (!ip) return null;
+  const byIp = await hit(env.WAITLIST!, `rl:invite:${await hashId(env.TOKEN_SECRET!, ip)}`, IP_LIMIT);
+  return byIp.ok ? null : tooManyRequests(byIp.retryAfter);
+}
+
+// GET /api/invite?code=… — is the code usable, and does the page need to ask for an email?
+export const onRequestGet: PagesFunction<Env> = async ({ request, env, data }) => {
+  try {
+    if (!env.WAITLIST || !env.TOKEN_SECRET) {
+      requestLog(data).error("WAITLIST and TOKEN_SECRET must be configured");
+      return json({ ok:false, error:"Server error" }, { status: 500 });
+    }
+    const slow = await limited(request, env);
+    if (slow) return slow;
+
+    const code = normalizeInviteCode(new URL(request.url).searchParams.get("code") || "");
+    const invite = code ? await getInvite(env.WAITLIST, code) : null;
+    const personal = invite?.maxUses === 1;
+    const returning = !!invite && personal && isActivated(await getRecord(env.WAITLIST, invite.key));
+    const problem = inviteProblem(invite, returning);
+    if (problem || !invite) return refuse(problem || "invalid");
+
+    const body: InviteCheckResponse = { ok:true, needsEmail: !personal, expiresAt: invite.expiresAt };
+    return json(body, { headers: { "Cache-Control": "no-store" } });
+  } catch (err) {
+    requestLog(data).error("Unhandled error", { err });
+    return json({ ok:false, error:"Server error" }, { status: 500 });
+  }
+};
+
+const reply = (body: RedeemResponse, init?: ResponseInit) => json(body, init);
+
+// POST /api/invite { code, email?, accept, termsVersion, locale } — accepts the Early Access Terms.
+// Personal codes activate their invitee on the spot. Multi-use codes email the named address a
+// link that finishes the job (api/invite/join): the code proves an invitation, not an identity.
+export const onRequestPost: PagesFunction<Env> = async ({ request, env, waitUntil, data }) => {
+  try {
+    const raw: unknown = await request.json().catch(() => null);
+    if (!env.WAITLIST || !env.TOKEN_SECRET) {
+      requestLog(data).error("WAITLIST and TOKEN_SECRET must be configured");
+      return reply({ ok:false, error:"Server error" }, { status: 500 });
+    }
+    const slow = await limited(request, env);
+    if (slow) return slow;
+
+    const checked = validateRedemption(raw);
+    if (!checked.ok) {
+      return reply({ ok:false, error:"Please check the highlighted fields.", fields: checked.errors }, { status: 400 });
+    }
+    const { code, email, termsVersion } = checked.value;
+    const invite = await getInvite(env.WAITLIST, code);
+    if (!invite || invite.revokedAt) return refuse("invalid");
+
+    if (invite.maxUses > 1) {
+      if (!email) {
+        return reply({ ok:false, error:"Please check the highlighted fields.", fields: { email: "Please enter your waitlist email." } }, { status: 400 });
+      }
+      const problem = inviteProblem(invite);
+      if (problem) return refuse(problem);
+      const byEmail = await hit(env.WAITLIST, `rl:invite-email:${await hashId(env.TOKEN_SECRET, normalizeEmail(email))}`, EMAIL_LIMIT);
+      if (!byEmail.ok) return tooManyRequests(byEmail.retryAfter);
+
+      // Same answer whether or not the address is a subscriber; only subscribers get mail
+      const key = recordKey(email);
+      const record = await getRecord(env.WAITLIST, key);
+      if (record?.state === "confirmed") {
+        const secret = env.TOKEN_SECRET;
+        const locale = checked.value.locale || record.locale || DEFAULT_LOCALE;
+        const joinUrl = await signedLink(request, secret, "/api/invite/join", "invite", `${code}|${termsVersion}|${locale}|${key}`, INVITE_ACTIVATION_TTL_MS);
+        const unsubscribeUrl = await unsubscribeLink(request, secret, key);
+        const headers = await listUnsubscribeHeaders(request, secret, key);
+        // Out-of-band, so how long the reply takes doesn't give the answer away either
+        waitUntil((async () => {
+          await sendEmail(env, { to: record.email, ...betaJoinEmail({ joinUrl, unsubscribeUrl, locale: record.locale }), headers });
+          await drainMailQueue(env);
+        })());
+      }
+      return reply({ ok:true, emailed:true });
+    }
+
+    const record = await getRecord(env.WAITLIST, invite.key);
+    const returning = isActivated(record);
+    const problem = inviteProblem(invite, returning);
+    if (problem) return refuse(problem);
+    // The waitlist is the gate: only confirmed subscribers get in
+    if (!record || record.state !== "confirmed") return refuse("not-listed");
+    if (returning) return reply({ ok:true, returning:true });
+
+    const terms = {
+      at: new Date().toISOString(),
+      version: termsVersion,
+      locale: checked.value.locale || record.locale || DEFAULT_LOCALE,
+      ...(await networkOrigin(request, env)),
+    };
+    await redeemInvite(env.WAITLIST, invite, invite.key, record, terms);
+    requestLog(data).info("Beta invitation redeemed", { personal: true });
+    return reply({ ok:true, returning:false });
+  } catch (err) {
+    requestLog(data).error("Unhandled error", { err });
+    return reply({ ok:false, error:"Server error" }, { status: 500 });
+  }
+};
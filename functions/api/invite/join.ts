@@ -0,0 +1,61 @@
+import type { Env } from "../../_lib/env";
+import { confirmForm, escapeHtml, page } from "../../_lib/html";
+import { redirectToApp } from "../../_lib/http";
+import { requestLog } from "../../_lib/log";
+import { getInvite, inviteProblem, isActivated, redeemInvite } from "../../_lib/invites";
+import { verifyToken } from "../../_lib/tokens";
+import { getRecord, networkOrigin } from "../../_lib/waitlist";
+import { DEFAULT_LOCALE, isLocale } from "../../../src/shared/locale";
+
+// Checks the link and loads the code and the subscriber. Anything that stops the redemption goes
+// back to the landing page in its invitation state, which re-checks the code and says what's wrong.
+async function load(request: Request, env: Env, data: Record<string, unknown>) {
+  if (!env.WAITLIST || !env.TOKEN_SECRET) {
+    requestLog(data).error("WAITLIST and TOKEN_SECRET must be configured");
+    return redirectToApp(request, "/?invite=");
+  }
+  const token = new URL(request.url).searchParams.get("token") || "";
+  const payload = await verifyToken(env.TOKEN_SECRET, "invite", token);
+  if (!payload) return redirectToApp(request, "/?invite=");
+  // code|termsVersion|locale|record key (the key goes last: addresses may contain "|")
+  const [code, version, locale, ...rest] = payload.k.split("|");
+  const key = rest.join("|");
+  const back = (beta?: "activated" | "returning") =>
+    redirectToApp(request, `/?invite=${encodeURIComponent(code)}${beta ? `&beta=${beta}` : ""}`);
+
+  const [invite, record] = await Promise.all([getInvite(env.WAITLIST, code), getRecord(env.WAITLIST, key)]);
+  if (isActivated(record)) return back("returning");
+  if (inviteProblem(invite) || !invite || !record || record.state !== "confirmed") return back();
+  const terms = { version, locale: isLocale(locale) ? locale : DEFAULT_LOCALE };
+  return { key, invite, record, terms, back };
+}
+
+// GET /api/invite/join?token=… — confirmation page. Mail scanners fetch links in the email;
+// only the button below (a POST) joins the beta.
+export const onRequestGet: PagesFunction<Env> = async ({ request, env, data }) => {
+  try {
+    const loaded = await load(request, env, data);
+    if (loaded instanceof Response) return loaded;
+    return page("Join the private beta", `<p>Join the erlySense private beta as ${escapeHtml(loaded.record.email)}.</p>${confirmForm(request.url, "Join the beta")}`);
+  } catch (err) {
+    requestLog(data).error("Unhandled error", { err });
+    return redirectToApp(request, "/?invite=");
+  }
+};
+
+// POST /api/invite/join?token=… — redeems the code for the subscriber the link was sent to, with
+// the terms version they accepted on the landing page
+export const onRequestPost: PagesFunction<Env> = async ({ request, env, data }) => {
+  try {
+    const loaded = await load(request, env, data);
+    if (loaded instanceof Response) return loaded;
+    const { key, invite, record, back } = loaded;
+    const terms = { at: new Date().toISOString(), ...loaded.terms, ...(await networkOrigin(request, env)) };
+    await redeemInvite(env.WAITLIST!, invite, key, record, terms);
+    requestLog(data).info("Beta invitation redeemed", { personal: false, uses: invite.uses + 1, maxUses: invite.maxUses });
+    return back("activated");
+  } catch (err) {
+    requestLog(data).error("Unhandled error", { err });
+    return redirectToApp(request, "/?invite=");
+  }
+};
@@ -0,0 +1,37 @@
+import type { Env } from "../../_lib/env";
+import { requestLog } from "../../_lib/log";
+import { confirmForm, page } from "../../_lib/html";
+import { verifyToken } from "../../_lib/tokens";
+import { getRecord, purgeSubscriber } from "../../_lib/waitlist";
+import { emitWebhook } from "../../_lib/webhooks";
+
+async function subject(request: Request, env: Env) {
+  const token = new URL(request.url).searchParams.get("token") || "";
+  return env.TOKEN_SECRET ? verifyToken(env.TOKEN_SECRET, "privacy-delete", token) : null;
+}
+
+const INVALID = () => page("Link not valid", "<p>This link is invalid or has expired. Request a new one from the privacy notice.</p>", { status: 400 });
+
+// GET /api/privacy/delete?token=… — confirmation step
+export const onRequestGet: PagesFunction<Env> = async ({ request, env }) => {
+  if (!(await subject(request, env))) return INVALID();
+  return page("Delete my data", `<p>This permanently removes your waitlist signup and everything stored with it. It can't be undone.</p>${confirmForm(request.url, "Delete everything")}`);
+};
+
+// POST /api/privacy/delete?token=… — purge and leave a hashed tombstone
+export const onRequestPost: PagesFunction<Env> = async ({ request, env, waitUntil, data }) => {
+  try {
+    const payload = await subject(request, env);
+    if (!payload || !env.WAITLIST || !env.TOKEN_SECRET) return INVALID();
+    const record = await getRecord(env.WAITLIST, payload.k);
+    if (record) {
+      await purgeSubscriber(env.WAITLIST, env.TOKEN_SECRET, record.email, "deleted");
+      // Erasure has to reach copies downstream too; the CRM driver deletes the contact
+      waitUntil(emitWebhook(env, "unsubscribed", record, "deleted"));
+    }
+    return page("Your data is deleted", "<p>We've removed everything tied to your address. We keep only a one-way hash so it isn't re-added by mistake.</p>");
+  } catch (err) {
+    requestLog(data).error("Unhandled error", { err });
+    return page("Something went wrong", "<p>We couldn't process that just now. Please try again.</p>", { status: 500 });
+  }
+};
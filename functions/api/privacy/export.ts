@@ -0,0 +1,31 @@
+import type { Env } from "../../_lib/env";
+import { requestLog } from "../../_lib/log";
+import { page } from "../../_lib/html";
+import { verifyToken } from "../../_lib/tokens";
+import { getRecord } from "../../_lib/waitlist";
+
+// GET /api/privacy/export?token=… — everything we hold for the address, as a JSON download
+export const onRequestGet: PagesFunction<Env> = async ({ request, env, data }) => {
+  try {
+    const token = new URL(request.url).searchParams.get("token") || "";
+    const payload = env.TOKEN_SECRET ? await verifyToken(env.TOKEN_SECRET, "privacy-export", token) : null;
+    if (!payload || !env.WAITLIST) {
+      return page("Link not valid", "<p>This link is invalid or has expired. Request a new one from the privacy notice.</p>", { status: 400 });
+    }
+    const record = await getRecord(env.WAITLIST, payload.k);
+    const body = {
+      exportedAt: new Date().toISOString(),
+      waitlist: record, // null when the signup expired or was removed since the link was sent
+    };
+    return new Response(JSON.stringify(body, null, 2), {
+      headers: {
+        "Content-Type": "application/json",
+        "Content-Disposition": `attachment; filename="erlysense-my-data.json"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (err) {
+    requestLog(data).error("Unhandled error", { err });
+    return page("Something went wrong", "<p>We couldn't process that just now. Please try again.</p>", { status: 500 });
+  }
+};
@@ -0,0 +1,54 @@
+import type { Env } from "../../_lib/env";
+import { json, tooManyRequests } from "../../_lib/http";
+import { requestLog } from "../../_lib/log";
+import { sendEmail } from "../../_lib/email";
+import { signedLink, PRIVACY_TTL_MS } from "../../_lib/links";
+import { privacyLinkEmail } from "../../_lib/mail/templates";
+import { hashId, hit } from "../../_lib/ratelimit";
+import { getRecord, normalizeEmail, recordKey } from "../../_lib/waitlist";
+import { isValidEmail } from "../../../src/shared/interest";
+
+const LIMIT = { limit: 3, windowMs: 60 * 60 * 1000 };
+
+const ACTIONS = {
+  export: { path: "/api/privacy/export", purpose: "privacy-export" },
+  delete: { path: "/api/privacy/delete", purpose: "privacy-delete" },
+} as const;
+
+// POST /api/privacy/request { email, action: "export" | "delete" }
+// Ownership is proven by the emailed magic link; the response is identical whether or not we
+// hold the address, so this can't be used to probe the waitlist.
+export const onRequestPost: PagesFunction<Env> = async ({ request, env, data }) => {
+  try {
+    const body = (await request.json().catch(() => ({}))) as { email?: unknown; action?: unknown };
+    const email = String(body?.email || "").trim();
+    const kind = body?.action === "export" || body?.action === "delete" ? body.action : null;
+    if (!isValidEmail(email) || !kind) {
+      return json({ ok:false, error:"Invalid request" }, { status: 400 });
+    }
+    if (!env.WAITLIST || !env.TOKEN_SECRET) {
+      requestLog(data).error("WAITLIST and TOKEN_SECRET must be configured");
+      return json({ ok:false, error:"Server error" }, { status: 500 });
+    }
+
+    const ip = request.headers.get("cf-connecting-ip");
+    for (const id of [ip && `ip:${ip}`, `email:${normalizeEmail(email)}`]) {
+      if (!id) continue;
+      const r = await hit(env.WAITLIST, `rl:privacy:${await hashId(env.TOKEN_SECRET, id)}`, LIMIT);
+      if (!r.ok) return tooManyRequests(r.retryAfter);
+    }
+
+    const key = recordKey(email);
+    const record = await getRecord(env.WAITLIST, key);
+    if (record) {
+      const action = ACTIONS[kind];
+      const url = await signedLink(request, env.TOKEN_SECRET, action.path, action.purpose, key, PRIVACY_TTL_MS);
+      await sendEmail(env, { to: record.email, ...privacyLinkEmail({ action: kind, url, locale: record.locale }) });
+    }
+
+    return json({ ok:true });
+  } catch (err) {
+    requestLog(data).error("Unhandled error", { err });
+    return json({ ok:false, error:"Server error" }, { status: 500 });
+  }
+};
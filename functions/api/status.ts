@@ -0,0 +1,40 @@
+import type { Env } from "../_lib/env";
+import { json } from "../_lib/http";
+import { requestLog } from "../_lib/log";
+import { referralLink } from "../_lib/links";
+import { ensureRefCode, positionOf } from "../_lib/referrals";
+import { verifyToken } from "../_lib/tokens";
+import { getRecord } from "../_lib/waitlist";
+
+// GET /api/status?token=… — the subscriber's queue position and referral stats.
+// The token comes from the status link in the welcome email.
+export const onRequestGet: PagesFunction<Env> = async ({ request, env, data }) => {
+  try {
+    if (!env.WAITLIST || !env.TOKEN_SECRET) {
+      requestLog(data).error("WAITLIST and TOKEN_SECRET must be configured");
+      return json({ ok:false, error:"Server error" }, { status: 500 });
+    }
+    const token = new URL(request.url).searchParams.get("token") || "";
+    const payload = await verifyToken(env.TOKEN_SECRET, "status", token);
+    if (!payload) return json({ ok:false, error:"Invalid or expired link" }, { status: 401 });
+
+    const stored = await getRecord(env.WAITLIST, payload.k);
+    if (!stored || stored.state !== "confirmed") return json({ ok:false, error:"Not on the waitlist" }, { status: 404 });
+    // Records confirmed before referrals existed get their code here
+    const record = await ensureRefCode(env.WAITLIST, payload.k, stored);
+    const rank = await positionOf(env.WAITLIST, payload.k);
+
+    return json({
+      ok:true,
+      email: record.email,
+      position: rank?.position ?? null,
+      total: rank?.total ?? null,
+      referrals: record.referrals || 0,
+      refCode: record.ref,
+      referralUrl: referralLink(request, record.ref!),
+    }, { headers: { "Cache-Control": "no-store" } });
+  } catch (err) {
+    requestLog(data).error("Unhandled error", { err });
+    return json({ ok:false, error:"Server error" }, { status: 500 });
+  }
+};
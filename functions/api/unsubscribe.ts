@@ -0,0 +1,39 @@
+import type { Env } from "../_lib/env";
+import { requestLog } from "../_lib/log";
+import { confirmForm, page } from "../_lib/html";
+import { verifyToken } from "../_lib/tokens";
+import { getRecord, purgeSubscriber } from "../_lib/waitlist";
+import { emitWebhook } from "../_lib/webhooks";
+
+async function subject(request: Request, env: Env) {
+  const token = new URL(request.url).searchParams.get("token") || "";
+  return env.TOKEN_SECRET ? verifyToken(env.TOKEN_SECRET, "unsubscribe", token) : null;
+}
+
+const INVALID = () => page("Link not valid", "<p>This unsubscribe link is invalid or has expired. Reply to any of our emails and we'll remove you by hand.</p>", { status: 400 });
+
+// GET /api/unsubscribe?token=… — confirmation page (link scanners must not unsubscribe anyone)
+export const onRequestGet: PagesFunction<Env> = async ({ request, env }) => {
+  if (!(await subject(request, env))) return INVALID();
+  return page("Unsubscribe", `<p>Stop all erlySense emails and remove your address from the waitlist?</p>${confirmForm(request.url, "Unsubscribe me")}`);
+};
+
+// POST /api/unsubscribe?token=… — our confirmation form, and RFC 8058 one-click
+// (`List-Unsubscribe=One-Click` body) straight from the mail client
+export const onRequestPost: PagesFunction<Env> = async ({ request, env, waitUntil, data }) => {
+  try {
+    const payload = await subject(request, env);
+    if (!payload || !env.WAITLIST || !env.TOKEN_SECRET) return INVALID();
+    // Already gone is fine: one-click clients may retry
+    const record = await getRecord(env.WAITLIST, payload.k);
+    if (record) {
+      await purgeSubscriber(env.WAITLIST, env.TOKEN_SECRET, record.email, "unsubscribed");
+      // Lets the CRM mark them opted out, and the team see it
+      waitUntil(emitWebhook(env, "unsubscribed", record, "unsubscribed"));
+    }
+    return page("You're unsubscribed", "<p>We've removed your address from the waitlist and won't email you again.</p>");
+  } catch (err) {
+    requestLog(data).error("Unhandled error", { err });
+    return page("Something went wrong", "<p>We couldn't process that just now. Please try again.</p>", { status: 500 });
+  }
+};
@@ -0,0 +1,197 @@
+// erlySense service worker
+// - Caches the landing shell (index.html, built assets, logo and favicons) so the page opens on flaky Wi-Fi
+// - Holds interest submissions that could not reach the server in IndexedDB and replays them with
+//   Background Sync (or when the page reports it is back online), keyed for idempotency
+// Plain JS on purpose: it is served as-is from /sw.js, outside the Vite bundle.
+
+const SHELL_CACHE = "erlysense-shell-v2";
+const SHELL = [
+  "/",
+  "/manifest.webmanifest",
+  "/erlysense-logo.png",
+  "/logo.png",
+  "/assets/erlysense-logo.png",
+  "/favicon.ico",
+  "/favicon-512.png",
+];
+
+// Vite names built files <name>-<hash>.<ext> under /assets/, so the content hash follows a dash
+const HASHED_ASSET = /^\/assets\/.+-[\w-]{8,}\.(js|css)$/;
+
+const INTEREST_ENDPOINT = "/api/interest";
+const SYNC_TAG = "interest-outbox";
+const DB_NAME = "erlysense";
+const STORE = "interest-outbox";
+const MIN_FILL_MS = 2500;   // the server rejects a form token younger than 2s
+
+// ---- Install / activate ----
+
+self.addEventListener("install", (event) => {
+  // Missing logo candidates are expected (only one exists), so cache what resolves and move on
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then((cache) => Promise.all(SHELL.map((url) => cache.add(url).catch(() => undefined))).then(() => precacheAssets(cache)))
+      .then(() => self.skipWaiting()),
+  );
+});
+
+// The hashed bundle names change every build; read them off the shell that was just cached
+async function precacheAssets(cache) {
+  const shell = await cache.match("/");
+  if (!shell) return;
+  const html = await shell.text();
+  const urls = [...html.matchAll(/(?:src|href)="(\/assets\/[^"]+)"/g)].map((m) => m[1]).filter((u) => HASHED_ASSET.test(u));
+  await Promise.all([...new Set(urls)].map((url) => cache.add(url).catch(() => undefined)));
+}
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((k) => k !== SHELL_CACHE).map((k) => caches.delete(k))))
+      .then(() => self.clients.claim()),
+  );
+});
+
+// ---- Fetch: network-first pages, cache-first hashed assets, stale-while-revalidate images ----
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== "GET" || url.origin !== self.location.origin) return;
+  // API responses are personal or time-sensitive; never serve them from cache
+  if (url.pathname.startsWith("/api/")) return;
+
+  if (request.mode === "navigate") {
+    event.respondWith(networkFirst(request));
+  } else if (HASHED_ASSET.test(url.pathname)) {
+    event.respondWith(cacheFirst(request));
+  } else if (/\.(png|ico|svg|webp|webmanifest)$/.test(url.pathname)) {
+    event.respondWith(staleWhileRevalidate(request, event));
+  }
+});
+
+async function networkFirst(request) {
+  const cache = await caches.open(SHELL_CACHE);
+  try {
+    const res = await fetch(request);
+    // Every route is the same SPA shell; keep the latest copy under "/"
+    if (res.ok) cache.put("/", res.clone());
+    return res;
+  } catch {
+    return (await cache.match("/")) || Response.error();
+  }
+}
+
+async function cacheFirst(request) {
+  const cache = await caches.open(SHELL_CACHE);
+  const hit = await cache.match(request);
+  if (hit) return hit;
+  const res = await fetch(request);
+  if (res.ok) cache.put(request, res.clone());
+  return res;
+}
+
+async function staleWhileRevalidate(request, event) {
+  const cache = await caches.open(SHELL_CACHE);
+  const hit = await cache.match(request, { ignoreSearch: true });
+  const refresh = fetch(request)
+    .then((res) => { if (res.ok) cache.put(request, res.clone()); return res; })
+    .catch(() => hit || Response.error());
+  if (hit) { event.waitUntil(refresh); return hit; }
+  return refresh;
+}
+
+// ---- Interest outbox (IndexedDB) ----
+
+function openDb() {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, 1);
+    req.onupgradeneeded = () => req.result.createObjectStore(STORE, { keyPath: "id" });
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+async function tx(mode, fn) {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const t = db.transaction(STORE, mode);
+    const result = fn(t.objectStore(STORE));
+    t.oncomplete = () => { db.close(); resolve(result && "result" in result ? result.result : undefined); };
+    t.onerror = () => { db.close(); reject(t.error); };
+  });
+}
+
+const putItem = (item) => tx("readwrite", (s) => s.put(item));
+const deleteItem = (id) => tx("readwrite", (s) => s.delete(id));
+const allItems = () => tx("readonly", (s) => s.getAll());
+
+async function notify(message) {
+  const clients = await self.clients.matchAll({ type: "window", includeUncontrolled: true });
+  clients.forEach((c) => c.postMessage(message));
+}
+
+async function post(item) {
+  return fetch(INTEREST_ENDPOINT, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", "Idempotency-Key": item.id },
+    body: JSON.stringify(item.payload),
+  });
+}
+
+// A replay can come hours later, past the form token's life: fetch a fresh one, let it age past
+// the server's minimum fill time, and try once more
+async function refreshToken(item) {
+  const res = await fetch(INTEREST_ENDPOINT, { headers: { Accept: "application/json" } });
+  const body = await res.json();
+  if (!body.formToken) throw new Error("No form token");
+  await new Promise((r) => setTimeout(r, MIN_FILL_MS));
+  const next = { ...item, payload: { ...item.payload, formToken: body.formToken } };
+  await putItem(next);
+  return next;
+}
+
+// Sends everything queued. Throws while anything is still retryable, so Background Sync tries again later.
+async function replay() {
+  const items = await allItems();
+  let pending = 0;
+  for (let item of items) {
+    try {
+      let res = await post(item);
+      let body = await res.clone().json().catch(() => null);
+      if (res.status === 400 && body && body.fields && body.fields._form) {
+        item = await refreshToken(item);
+        res = await post(item);
+        body = await res.clone().json().catch(() => null);
+      }
+      if (res.status === 429 || res.status >= 500) { pending++; continue; }
+      // Accepted, or rejected for good (a 4xx won't fix itself): either way it leaves the queue
+      await deleteItem(item.id);
+      await notify({ type: "interest-replayed", id: item.id, status: res.status, body });
+    } catch {
+      pending++;   // still offline
+    }
+  }
+  if (pending) throw new Error(`${pending} interest submission(s) still waiting`);
+}
+
+self.addEventListener("sync", (event) => {
+  if (event.tag === SYNC_TAG) event.waitUntil(replay());
+});
+
+self.addEventListener("message", (event) => {
+  const data = event.data || {};
+  if (data.type === "queue-interest") {
+    // The page waits on the reply port, so it only says "saved" once the entry is really stored
+    const port = event.ports[0];
+    event.waitUntil(
+      putItem({ id: data.id, payload: data.payload, queuedAt: Date.now() })
+        .then(() => (self.registration.sync ? self.registration.sync.register(SYNC_TAG).catch(() => undefined) : undefined))
+        .then(() => port && port.postMessage({ ok: true }))
+        .catch((err) => port && port.postMessage({ ok: false, error: String(err) })),
+    );
+  } else if (data.type === "replay-interest") {
+    // Browsers without Background Sync: the page pings us when it comes back online
+    event.waitUntil(replay().catch(() => undefined));
+  }
+});
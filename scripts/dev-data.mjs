@@ -0,0 +1,38 @@
+#!/usr/bin/env node
+// Seeds or wipes the local dev KV (.dev/kv.json) that `npm run dev` serves the functions from.
+//
+//   node scripts/dev-data.mjs seed     # adds the sample waitlist from functions/_dev/seed.ts
+//   node scripts/dev-data.mjs reset    # deletes everything: waitlist, rate limits, stats, outbox
+//
+// Safe to run while the dev server is up; it re-reads the file on every request.
+
+import fs from "node:fs";
+import { createServer } from "vite";
+
+const KV_FILE = ".dev/kv.json";   // same file as dev/pages.ts
+
+const command = process.argv[2];
+
+if (command === "reset") {
+  fs.rmSync(KV_FILE, { force: true });
+  console.log(`Removed ${KV_FILE}`);
+} else if (command === "seed") {
+  // Vite's SSR loader compiles the TypeScript (and its imports) the same way the dev server does
+  const vite = await createServer({
+    configFile: false,
+    logLevel: "error",
+    appType: "custom",
+    server: { middlewareMode: true, hmr: false, watch: null },
+  });
+  try {
+    const { FileKV } = await vite.ssrLoadModule("/dev/kv.ts");
+    const { seedWaitlist } = await vite.ssrLoadModule("/functions/_dev/seed.ts");
+    const result = await seedWaitlist(new FileKV(KV_FILE));
+    console.log(`Seeded ${result.records} waitlist records (${result.confirmed} confirmed) into ${KV_FILE}`);
+  } finally {
+    await vite.close();
+  }
+} else {
+  console.error("Usage: node scripts/dev-data.mjs <seed|reset>");
+  process.exit(1);
+}
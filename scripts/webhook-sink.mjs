@@ -0,0 +1,68 @@
+#!/usr/bin/env node
+// Local stand-in for webhook receivers (Slack, a signed JSON endpoint, a HubSpot-style CRM),
+// so the webhook subsystem can be exercised without touching real services.
+//
+//   node scripts/webhook-sink.mjs                 # listens on :8799
+//   PORT=9000 SINK_SECRET=dev-secret SINK_FAIL=2 node scripts/webhook-sink.mjs
+//
+// Point WEBHOOKS at it, e.g. in .dev.vars:
+//   WEBHOOKS=[{"id":"slack","type":"slack","url":"http://localhost:8799/slack"},
+//             {"id":"json","type":"json","url":"http://localhost:8799/json","secret":"dev-secret"},
+//             {"id":"crm","type":"hubspot","url":"http://localhost:8799/crm","token":"dev"}]
+//
+// Every request is printed. SINK_SECRET turns on X-Erlysense-Signature checks (401 on mismatch);
+// SINK_FAIL=n answers the first n requests on each path with a 503 to exercise the retry queue.
+// GET /requests returns everything received so far as JSON.
+
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { createServer } from "node:http";
+
+const PORT = Number(process.env.PORT) || 8799;
+const SECRET = process.env.SINK_SECRET || "";
+const FAIL_FIRST = Number(process.env.SINK_FAIL) || 0;
+const MAX_SKEW_SECONDS = 5 * 60;
+
+const received = [];
+const seen = new Map();
+
+function verify(headers, body) {
+  const sig = String(headers["x-erlysense-signature"] || "");
+  const ts = Number(headers["x-erlysense-timestamp"]);
+  if (!sig.startsWith("sha256=") || !ts) return "missing signature";
+  if (Math.abs(Date.now() / 1000 - ts) > MAX_SKEW_SECONDS) return "stale timestamp";
+  const expected = createHmac("sha256", SECRET).update(`${ts}.${body}`).digest("hex");
+  const a = Buffer.from(sig.slice(7)), b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b) ? null : "bad signature";
+}
+
+function reply(res, status, body) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+createServer((req, res) => {
+  let body = "";
+  req.on("data", (chunk) => { body += chunk; });
+  req.on("end", () => {
+    const path = new URL(req.url, "http://sink").pathname;
+    if (req.method === "GET" && path === "/requests") return reply(res, 200, received);
+
+    const count = (seen.get(path) || 0) + 1;
+    seen.set(path, count);
+    let parsed = null;
+    try { parsed = JSON.parse(body); } catch { /* print raw */ }
+    received.push({ at: new Date().toISOString(), method: req.method, path, headers: req.headers, body: parsed ?? body });
+
+    let status = 200;
+    let note = "ok";
+    if (count <= FAIL_FIRST) {
+      status = 503; note = `simulated failure ${count}/${FAIL_FIRST}`;
+    } else if (SECRET && req.headers["x-erlysense-signature"] !== undefined) {
+      const problem = verify(req.headers, body);
+      if (problem) { status = 401; note = problem; }
+    }
+    console.log(`${new Date().toISOString()} ${req.method} ${path} → ${status} (${note})`);
+    console.log(JSON.stringify(parsed ?? body, null, 2));
+    reply(res, status, { ok: status === 200, note });
+  });
+}).listen(PORT, () => console.log(`webhook sink listening on http://localhost:${PORT}`));
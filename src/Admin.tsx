@@ -0,0 +1,356 @@
+import React from "react";
+import Campaigns from "./AdminCampaigns";
+import FunnelSummary from "./AdminAnalytics";
+import ContentEditor from "./AdminContent";
+import ExperimentReport from "./AdminExperiments";
+import Invites from "./AdminInvites";
+import Webhooks from "./AdminWebhooks";
+import { DEFAULT_LOCALE, LOCALES, LOCALE_NAMES, type Locale } from "./shared/locale";
+
+/**
+ * erlySense — waitlist admin (/admin)
+ * - Bearer token (ADMIN_TOKEN) kept in sessionStorage for the tab only
+ * - Cursor-paged listing with search and filters, CSV/JSON export of the filtered set
+ * - Landing-page funnel, A/B experiments, landing content, broadcast campaigns, beta invitations, webhooks and email template previews
+ */
+
+const ADMIN_ENDPOINT = "/api/admin";
+
+// Shared by the dashboard sections: an authenticated fetch plus the common control classes
+export interface AdminSectionProps {
+  authed: (path: string, init?: RequestInit) => Promise<Response>;
+  button: string;
+  input: string;
+}
+const TOKEN_KEY = "erlysense.adminToken";
+
+interface Row {
+  key: string;
+  email: string;
+  note: string;
+  source: string;
+  at: string;
+  state: "pending" | "confirmed";
+  touches?: { at: string }[];
+  confirmed?: { at: string };
+  role?: string;
+  campus?: { name: string; domain?: string };
+  beta?: { state: "invited" | "activated" };
+}
+
+interface CampusDemand {
+  key: string;
+  name: string;
+  academic: boolean;
+  total: number;
+  confirmed: number;
+  roles: Record<string, number>;
+}
+
+interface Filters {
+  q: string;
+  from: string;
+  to: string;
+  source: string;
+  state: "" | "pending" | "confirmed";
+}
+
+const EMPTY_FILTERS: Filters = { q: "", from: "", to: "", source: "", state: "" };
+
+function toParams(f: Filters, extra: Record<string, string> = {}) {
+  const p = new URLSearchParams();
+  (Object.keys(f) as (keyof Filters)[]).forEach((k) => { if (f[k]) p.set(k, f[k]); });
+  Object.entries(extra).forEach(([k, v]) => p.set(k, v));
+  return p.toString();
+}
+
+function fmtDate(iso?: string) {
+  return iso ? new Date(iso).toLocaleString() : "—";
+}
+
+export default function Admin() {
+  const [token, setToken] = React.useState(() => sessionStorage.getItem(TOKEN_KEY) || "");
+  const [draftToken, setDraftToken] = React.useState("");
+  const [filters, setFilters] = React.useState<Filters>(EMPTY_FILTERS);
+  const [rows, setRows] = React.useState<Row[]>([]);
+  const [cursor, setCursor] = React.useState<string | null>(null);
+  const [isLoading, setIsLoading] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const authed = React.useCallback(async (path: string, init: RequestInit = {}) => {
+    const headers = new Headers(init.headers);
+    headers.set("Authorization", `Bearer ${token}`);
+    const res = await fetch(`${ADMIN_ENDPOINT}${path}`, { ...init, headers });
+    if (res.status === 401) {
+      sessionStorage.removeItem(TOKEN_KEY);
+      setToken("");
+      throw new Error("That admin token was rejected.");
+    }
+    if (!res.ok) throw new Error(`Request failed (${res.status})`);
+    return res;
+  }, [token]);
+
+  const load = React.useCallback(async (f: Filters, after: string | null) => {
+    setIsLoading(true); setError(null);
+    try {
+      const res = await authed(`/waitlist?${toParams(f, after ? { cursor: after } : {})}`);
+      const body: { items: Row[]; cursor: string | null } = await res.json();
+      setRows((prev) => (after ? [...prev, ...body.items] : body.items));
+      setCursor(body.cursor);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally { setIsLoading(false); }
+  }, [authed]);
+
+  // First page as soon as we have a token
+  React.useEffect(() => {
+    if (token) load(EMPTY_FILTERS, null);
+  }, [token, load]);
+
+  async function exportAs(format: "csv" | "json") {
+    try {
+      const res = await authed(`/waitlist?${toParams(filters, { format })}`);
+      const url = URL.createObjectURL(await res.blob());
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `waitlist-${new Date().toISOString().slice(0, 10)}.${format}`;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  }
+
+  function signIn(e: React.FormEvent) {
+    e.preventDefault();
+    sessionStorage.setItem(TOKEN_KEY, draftToken.trim());
+    setToken(draftToken.trim());
+    setDraftToken("");
+  }
+
+  function signOut() {
+    sessionStorage.removeItem(TOKEN_KEY);
+    setToken(""); setRows([]); setCursor(null);
+  }
+
+  const input = "rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm text-white placeholder-white/40 outline-none focus:border-white/30";
+  const button = "rounded-xl border border-white/15 bg-white/5 px-3 py-2 text-sm font-medium hover:bg-white/10 disabled:cursor-not-allowed disabled:opacity-60";
+
+  if (!token) {
+    return (
+      <div className="flex min-h-[100dvh] items-center justify-center bg-[#08141C] px-6 text-white">
+        <form onSubmit={signIn} className="w-full max-w-sm rounded-2xl border border-white/10 bg-white/5 p-5">
+          <h1 className="text-lg font-semibold">Waitlist admin</h1>
+          <label htmlFor="admin-token" className="mt-4 block text-sm text-white/80">Admin token</label>
+          <input id="admin-token" type="password" value={draftToken} onChange={(e) => setDraftToken(e.target.value)} className={`${input} mt-2 w-full`} autoComplete="off" required />
+          {error && <p role="alert" className="mt-3 text-sm text-rose-200">{error}</p>}
+          <button type="submit" className={`${button} mt-4 w-full`}>Sign in</button>
+        </form>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-[100dvh] bg-[#08141C] px-6 py-6 text-white">
+      <header className="mx-auto flex max-w-6xl items-center justify-between">
+        <h1 className="text-lg font-semibold">Waitlist admin</h1>
+        <button type="button" onClick={signOut} className={button}>Sign out</button>
+      </header>
+
+      <form
+        onSubmit={(e) => { e.preventDefault(); load(filters, null); }}
+        className="mx-auto mt-5 flex max-w-6xl flex-wrap items-end gap-2"
+      >
+        <label className="flex flex-col text-xs text-white/70">Email or @domain
+          <input value={filters.q} onChange={(e) => setFilters({ ...filters, q: e.target.value })} placeholder="@school.edu" className={`${input} mt-1`} />
+        </label>
+        <label className="flex flex-col text-xs text-white/70">From
+          <input type="date" value={filters.from} onChange={(e) => setFilters({ ...filters, from: e.target.value })} className={`${input} mt-1`} />
+        </label>
+        <label className="flex flex-col text-xs text-white/70">To
+          <input type="date" value={filters.to} onChange={(e) => setFilters({ ...filters, to: e.target.value })} className={`${input} mt-1`} />
+        </label>
+        <label className="flex flex-col text-xs text-white/70">Source
+          <input value={filters.source} onChange={(e) => setFilters({ ...filters, source: e.target.value })} placeholder="coming-soon" className={`${input} mt-1`} />
+        </label>
+        <label className="flex flex-col text-xs text-white/70">State
+          <select value={filters.state} onChange={(e) => setFilters({ ...filters, state: e.target.value as Filters["state"] })} className={`${input} mt-1`}>
+            <option value="">Any</option>
+            <option value="pending">Pending</option>
+            <option value="confirmed">Confirmed</option>
+          </select>
+        </label>
+        <button type="submit" disabled={isLoading} className={button}>Search</button>
+        <button type="button" onClick={() => { setFilters(EMPTY_FILTERS); load(EMPTY_FILTERS, null); }} className={button}>Reset</button>
+        <span className="flex-1" />
+        <button type="button" onClick={() => exportAs("csv")} className={button}>Export CSV</button>
+        <button type="button" onClick={() => exportAs("json")} className={button}>Export JSON</button>
+      </form>
+
+      {error && <p role="alert" className="mx-auto mt-4 max-w-6xl text-sm text-rose-200">{error}</p>}
+
+      <div className="mx-auto mt-5 max-w-6xl overflow-x-auto rounded-2xl border border-white/10">
+        <table className="w-full text-left text-sm">
+          <thead className="bg-white/5 text-xs uppercase tracking-wide text-white/60">
+            <tr>
+              <th className="px-3 py-2">Email</th>
+              <th className="px-3 py-2">State</th>
+              <th className="px-3 py-2">Source</th>
+              <th className="px-3 py-2">Signed up</th>
+              <th className="px-3 py-2">Confirmed</th>
+              <th className="px-3 py-2">Beta</th>
+              <th className="px-3 py-2">Role</th>
+              <th className="px-3 py-2">Institution</th>
+              <th className="px-3 py-2">Touches</th>
+              <th className="px-3 py-2">Note</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((r) => (
+              <tr key={r.key} className="border-t border-white/5 align-top">
+                <td className="px-3 py-2 font-medium">{r.email}</td>
+                <td className="px-3 py-2">{r.state}</td>
+                <td className="px-3 py-2 text-white/80">{r.source}</td>
+                <td className="px-3 py-2 text-white/80">{fmtDate(r.at)}</td>
+                <td className="px-3 py-2 text-white/80">{fmtDate(r.confirmed?.at)}</td>
+                <td className="px-3 py-2 text-white/80">{r.beta?.state || "—"}</td>
+                <td className="px-3 py-2 text-white/80">{r.role || "—"}</td>
+                <td className="px-3 py-2 text-white/80">{r.campus ? `${r.campus.name}${r.campus.domain ? " ✓" : ""}` : "—"}</td>
+                <td className="px-3 py-2 text-white/80">{r.touches?.length || 1}</td>
+                <td className="max-w-xs px-3 py-2 text-white/70">{r.note}</td>
+              </tr>
+            ))}
+            {rows.length === 0 && !isLoading && (
+              <tr><td colSpan={10} className="px-3 py-6 text-center text-white/50">No signups match.</td></tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="mx-auto mt-4 flex max-w-6xl items-center justify-between text-xs text-white/60">
+        <span>{rows.length} shown</span>
+        {cursor && (
+          <button type="button" disabled={isLoading} onClick={() => load(filters, cursor)} className={button}>
+            {isLoading ? "Loading…" : "Load more"}
+          </button>
+        )}
+      </div>
+
+      <FunnelSummary authed={authed} button={button} input={input} />
+
+      <ExperimentReport authed={authed} button={button} input={input} />
+
+      <CampusDemandTable authed={authed} button={button} input={input} />
+
+      <ContentEditor authed={authed} button={button} input={input} />
+
+      <Campaigns authed={authed} button={button} input={input} />
+
+      <Invites authed={authed} button={button} input={input} />
+
+      <Webhooks authed={authed} button={button} input={input} />
+
+      <TemplatePreview authed={authed} button={button} input={input} />
+    </div>
+  );
+}
+
+// Pilot demand per campus; ✓ marks campuses where someone signed up with the campus email domain
+function CampusDemandTable({ authed, button }: AdminSectionProps) {
+  const [campuses, setCampuses] = React.useState<CampusDemand[] | null>(null);
+
+  const load = React.useCallback(() => {
+    authed("/campuses")
+      .then((r) => r.json())
+      .then((b: { campuses: CampusDemand[] }) => setCampuses(b.campuses))
+      .catch(() => setCampuses([]));
+  }, [authed]);
+
+  React.useEffect(() => { load(); }, [load]);
+
+  return (
+    <section className="mx-auto mt-10 max-w-6xl">
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-semibold uppercase tracking-wide text-white/60">Demand by campus</h2>
+        <button type="button" onClick={load} className={button}>Refresh</button>
+      </div>
+      <div className="mt-3 overflow-x-auto rounded-2xl border border-white/10">
+        <table className="w-full text-left text-sm">
+          <thead className="bg-white/5 text-xs uppercase tracking-wide text-white/60">
+            <tr>
+              <th className="px-3 py-2">Institution</th>
+              <th className="px-3 py-2">Confirmed</th>
+              <th className="px-3 py-2">Total</th>
+              <th className="px-3 py-2">Students</th>
+              <th className="px-3 py-2">Counselors</th>
+              <th className="px-3 py-2">Administrators</th>
+              <th className="px-3 py-2">Researchers</th>
+            </tr>
+          </thead>
+          <tbody>
+            {(campuses || []).map((c) => (
+              <tr key={c.key} className="border-t border-white/5">
+                <td className="px-3 py-2 font-medium">{c.name}{c.academic ? " ✓" : ""}</td>
+                <td className="px-3 py-2 text-white/80">{c.confirmed}</td>
+                <td className="px-3 py-2 text-white/80">{c.total}</td>
+                <td className="px-3 py-2 text-white/80">{c.roles.student || 0}</td>
+                <td className="px-3 py-2 text-white/80">{c.roles.counselor || 0}</td>
+                <td className="px-3 py-2 text-white/80">{c.roles.administrator || 0}</td>
+                <td className="px-3 py-2 text-white/80">{c.roles.researcher || 0}</td>
+              </tr>
+            ))}
+            {campuses && campuses.length === 0 && (
+              <tr><td colSpan={7} className="px-3 py-6 text-center text-white/50">No campus data yet.</td></tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  );
+}
+
+// Renders the email templates with sample data, exactly as the functions would send them
+function TemplatePreview({ authed, button, input }: AdminSectionProps) {
+  const [names, setNames] = React.useState<string[]>([]);
+  const [name, setName] = React.useState("");
+  const [format, setFormat] = React.useState<"html" | "text">("html");
+  const [locale, setLocale] = React.useState<Locale>(DEFAULT_LOCALE);
+  const [body, setBody] = React.useState("");
+
+  React.useEffect(() => {
+    authed("/mail/preview")
+      .then((r) => r.json())
+      .then((b: { templates: string[] }) => { setNames(b.templates); setName((n) => n || b.templates[0] || ""); })
+      .catch(() => setNames([]));
+  }, [authed]);
+
+  React.useEffect(() => {
+    if (!name) return;
+    authed(`/mail/preview?template=${encodeURIComponent(name)}&format=${format}&locale=${locale}`)
+      .then((r) => r.text())
+      .then(setBody)
+      .catch((err) => setBody(String(err)));
+  }, [authed, name, format, locale]);
+
+  return (
+    <section className="mx-auto mt-10 max-w-6xl">
+      <h2 className="text-sm font-semibold uppercase tracking-wide text-white/60">Email templates</h2>
+      <div className="mt-3 flex flex-wrap gap-2">
+        <select value={name} onChange={(e) => setName(e.target.value)} className={input} aria-label="Template">
+          {names.map((n) => <option key={n} value={n}>{n}</option>)}
+        </select>
+        <select value={locale} onChange={(e) => setLocale(e.target.value as Locale)} className={input} aria-label="Language">
+          {LOCALES.map((l) => <option key={l} value={l}>{LOCALE_NAMES[l]}</option>)}
+        </select>
+        <button type="button" onClick={() => setFormat(format === "html" ? "text" : "html")} className={button}>
+          Show {format === "html" ? "plain text" : "HTML"}
+        </button>
+      </div>
+      {format === "html" ? (
+        <iframe title="Email preview" sandbox="" srcDoc={body} className="mt-3 h-[32rem] w-full rounded-2xl border border-white/10 bg-white" />
+      ) : (
+        <pre className="mt-3 max-h-[32rem] overflow-auto whitespace-pre-wrap rounded-2xl border border-white/10 bg-black/30 p-4 text-xs text-white/80">{body}</pre>
+      )}
+    </section>
+  );
+}
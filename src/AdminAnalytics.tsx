@@ -0,0 +1,138 @@
+import React from "react";
+import type { AdminSectionProps } from "./Admin";
+import { UTM_KEYS, type AnalyticsEvent, type UtmKey } from "./shared/analytics";
+
+/**
+ * Landing-page funnel (admin)
+ * - Daily aggregate counters from /api/events; no per-visitor data exists to show
+ * - Visitors with Do Not Track / Global Privacy Control are never counted, so treat totals as a floor
+ */
+
+type Totals = Record<AnalyticsEvent, number>;
+type Rates = { open: number | null; submit: number | null; success: number | null; overall: number | null };
+
+interface Summary {
+  totals: Totals;
+  rates: Rates;
+  days: { day: string; totals: Totals }[];
+  utm: Record<UtmKey, { value: string; totals: Totals; rates: Rates }[]>;
+}
+
+const STEPS: { event: AnalyticsEvent; label: string }[] = [
+  { event: "page_view", label: "Page views" },
+  { event: "visitor", label: "New visitors" },
+  { event: "interest_click", label: "Opened form" },
+  { event: "submit", label: "Submitted" },
+  { event: "submit_success", label: "Accepted" },
+  { event: "submit_error", label: "Errors" },
+  { event: "terms_open", label: "Terms opened" },
+  { event: "privacy_open", label: "Privacy opened" },
+];
+
+const pct = (r: number | null) => (r === null ? "—" : `${(r * 100).toFixed(1)}%`);
+
+export default function FunnelSummary({ authed, button, input }: AdminSectionProps) {
+  const [days, setDays] = React.useState(30);
+  const [summary, setSummary] = React.useState<Summary | null>(null);
+  const [tag, setTag] = React.useState<UtmKey>("utm_source");
+  const [error, setError] = React.useState<string | null>(null);
+
+  const load = React.useCallback(async () => {
+    setError(null);
+    try {
+      const res = await authed(`/analytics?days=${days}`);
+      if (!res.ok) throw new Error("Could not load analytics");
+      setSummary(await res.json());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  }, [authed, days]);
+
+  React.useEffect(() => { load(); }, [load]);
+
+  return (
+    <section className="mx-auto mt-10 max-w-6xl">
+      <div className="flex items-center justify-between gap-2">
+        <h2 className="text-sm font-semibold uppercase tracking-wide text-white/60">Funnel</h2>
+        <div className="flex items-center gap-2">
+          <select value={days} onChange={(e) => setDays(Number(e.target.value))} aria-label="Period" className={input}>
+            <option value={7}>Last 7 days</option>
+            <option value={30}>Last 30 days</option>
+            <option value={90}>Last 90 days</option>
+          </select>
+          <button type="button" onClick={load} className={button}>Refresh</button>
+        </div>
+      </div>
+
+      {error && <p role="alert" className="mt-3 text-sm text-rose-200">{error}</p>}
+
+      {summary && (
+        <>
+          <div className="mt-3 grid gap-3 sm:grid-cols-4">
+            {([["Opened form / views", summary.rates.open], ["Submitted / views", summary.rates.submit], ["Accepted / submitted", summary.rates.success], ["Accepted / views", summary.rates.overall]] as const).map(([label, r]) => (
+              <div key={label} className="rounded-2xl border border-white/10 bg-white/5 p-3">
+                <p className="text-xs text-white/60">{label}</p>
+                <p className="mt-1 text-xl font-semibold">{pct(r)}</p>
+              </div>
+            ))}
+          </div>
+
+          <div className="mt-3 overflow-x-auto rounded-2xl border border-white/10">
+            <table className="w-full text-left text-sm">
+              <thead className="bg-white/5 text-xs uppercase tracking-wide text-white/60">
+                <tr>
+                  <th className="px-3 py-2">Day</th>
+                  {STEPS.map((s) => <th key={s.event} className="px-3 py-2">{s.label}</th>)}
+                </tr>
+              </thead>
+              <tbody>
+                <tr className="border-t border-white/5 font-medium">
+                  <td className="px-3 py-2">Total</td>
+                  {STEPS.map((s) => <td key={s.event} className="px-3 py-2">{summary.totals[s.event]}</td>)}
+                </tr>
+                {[...summary.days].reverse().filter((d) => d.totals.page_view > 0).map((d) => (
+                  <tr key={d.day} className="border-t border-white/5">
+                    <td className="px-3 py-2 text-white/80">{d.day}</td>
+                    {STEPS.map((s) => <td key={s.event} className="px-3 py-2 text-white/80">{d.totals[s.event]}</td>)}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="mt-4 flex items-center gap-2 text-xs text-white/60">
+            <span>Break down by</span>
+            <select value={tag} onChange={(e) => setTag(e.target.value as UtmKey)} aria-label="Campaign tag" className={input}>
+              {UTM_KEYS.map((k) => <option key={k} value={k}>{k}</option>)}
+            </select>
+          </div>
+          <div className="mt-2 overflow-x-auto rounded-2xl border border-white/10">
+            <table className="w-full text-left text-sm">
+              <thead className="bg-white/5 text-xs uppercase tracking-wide text-white/60">
+                <tr>
+                  <th className="px-3 py-2">{tag}</th>
+                  <th className="px-3 py-2">Page views</th>
+                  <th className="px-3 py-2">Accepted</th>
+                  <th className="px-3 py-2">Conversion</th>
+                </tr>
+              </thead>
+              <tbody>
+                {summary.utm[tag].map((row) => (
+                  <tr key={row.value} className="border-t border-white/5">
+                    <td className="px-3 py-2 font-medium">{row.value}</td>
+                    <td className="px-3 py-2 text-white/80">{row.totals.page_view}</td>
+                    <td className="px-3 py-2 text-white/80">{row.totals.submit_success}</td>
+                    <td className="px-3 py-2 text-white/80">{pct(row.rates.overall)}</td>
+                  </tr>
+                ))}
+                {summary.utm[tag].length === 0 && (
+                  <tr><td colSpan={4} className="px-3 py-6 text-center text-white/50">No tagged visits in this period.</td></tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,194 @@
+import React from "react";
+import type { AdminSectionProps } from "./Admin";
+
+/**
+ * Broadcast campaigns (admin)
+ * - Compose from a template, target a segment of confirmed subscribers
+ * - Sending is driven from here one batch at a time, so closing the tab simply pauses it
+ */
+
+type Template = "announcement" | "launch" | "beta-invite";
+type Status = "draft" | "sending" | "paused" | "done";
+
+interface Campaign {
+  id: string;
+  name: string;
+  template: Template;
+  status: Status;
+  createdAt: string;
+  lastRunAt?: string;
+  stats: { sent: number; queued: number; failed: number; skipped: number };
+}
+
+interface Draft {
+  name: string;
+  template: Template;
+  subject: string;
+  heading: string;
+  body: string;
+  url: string;
+  ctaLabel: string;
+  q: string;
+  source: string;
+  from: string;
+  to: string;
+}
+
+const EMPTY_DRAFT: Draft = {
+  name: "", template: "announcement", subject: "", heading: "", body: "", url: "", ctaLabel: "",
+  q: "", source: "", from: "", to: "",
+};
+
+export default function Campaigns({ authed, button, input }: AdminSectionProps) {
+  const [campaigns, setCampaigns] = React.useState<Campaign[]>([]);
+  const [draft, setDraft] = React.useState<Draft>(EMPTY_DRAFT);
+  const [composing, setComposing] = React.useState(false);
+  const [running, setRunning] = React.useState<string | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+  const stopRef = React.useRef(false);
+
+  const refresh = React.useCallback(async () => {
+    try {
+      const res = await authed("/campaigns");
+      const body: { campaigns: Campaign[] } = await res.json();
+      setCampaigns(body.campaigns);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  }, [authed]);
+
+  React.useEffect(() => { refresh(); }, [refresh]);
+
+  async function create(e: React.FormEvent) {
+    e.preventDefault();
+    setError(null);
+    const { name, template, subject, heading, body, url, ctaLabel, q, source, from, to } = draft;
+    try {
+      const res = await authed("/campaigns", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name, template, content: { subject, heading, body, url, ctaLabel }, segment: { q, source, from, to } }),
+      });
+      if (!res.ok) throw new Error("Could not create campaign");
+      setDraft(EMPTY_DRAFT); setComposing(false);
+      refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  }
+
+  // Keep calling /send until the server says "done" (or someone presses Pause)
+  async function run(c: Campaign, retryFailed = false) {
+    if (!retryFailed && !window.confirm(`Send "${c.name}" to every matching confirmed subscriber?`)) return;
+    stopRef.current = false;
+    setRunning(c.id); setError(null);
+    try {
+      if (c.status === "paused") {
+        const res = await authed(`/campaigns/${c.id}`, { method: "PATCH", headers: { "Content-Type": "application/json" }, body: JSON.stringify({ status: "sending" }) });
+        if (!res.ok) throw new Error("Could not resume campaign");
+      }
+      let first = true;
+      for (;;) {
+        const qs = first && retryFailed ? "?retryFailed=1" : "";
+        first = false;
+        const res = await authed(`/campaigns/${c.id}/send${qs}`, { method: "POST" });
+        const body: { campaign: Campaign; error?: string } = await res.json();
+        // Paused from another tab: stop here rather than send around it
+        if (!res.ok) throw new Error(body.error || "Could not send campaign");
+        setCampaigns((prev) => prev.map((p) => (p.id === c.id ? body.campaign : p)));
+        if (body.campaign.status === "done" || stopRef.current) break;
+      }
+      if (stopRef.current) await authed(`/campaigns/${c.id}`, { method: "PATCH", headers: { "Content-Type": "application/json" }, body: JSON.stringify({ status: "paused" }) });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setRunning(null);
+      refresh();
+    }
+  }
+
+  const field = (key: keyof Draft, label: string, props: React.InputHTMLAttributes<HTMLInputElement> = {}) => (
+    <label className="flex flex-col text-xs text-white/70">{label}
+      <input value={draft[key]} onChange={(e) => setDraft({ ...draft, [key]: e.target.value })} className={`${input} mt-1`} {...props} />
+    </label>
+  );
+
+  return (
+    <section className="mx-auto mt-10 max-w-6xl">
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-semibold uppercase tracking-wide text-white/60">Campaigns</h2>
+        <button type="button" onClick={() => setComposing(!composing)} className={button}>{composing ? "Cancel" : "New campaign"}</button>
+      </div>
+
+      {error && <p role="alert" className="mt-3 text-sm text-rose-200">{error}</p>}
+
+      {composing && (
+        <form onSubmit={create} className="mt-3 grid gap-3 rounded-2xl border border-white/10 bg-white/5 p-4 sm:grid-cols-2">
+          {field("name", "Internal name", { required: true })}
+          <label className="flex flex-col text-xs text-white/70">Template
+            <select value={draft.template} onChange={(e) => setDraft({ ...draft, template: e.target.value as Template })} className={`${input} mt-1`}>
+              <option value="announcement">Announcement (custom copy)</option>
+              <option value="launch">Launch announcement</option>
+              <option value="beta-invite">Beta invitation</option>
+            </select>
+          </label>
+          {draft.template === "announcement" && (
+            <>
+              {field("subject", "Subject", { required: true })}
+              {field("heading", "Heading", { required: true })}
+              <label className="flex flex-col text-xs text-white/70 sm:col-span-2">Body (blank line between paragraphs)
+                <textarea value={draft.body} onChange={(e) => setDraft({ ...draft, body: e.target.value })} rows={5} required className={`${input} mt-1`} />
+              </label>
+              {field("ctaLabel", "Button label (optional)")}
+            </>
+          )}
+          {field("url", draft.template === "announcement" ? "Button link (optional)" : "Link", { type: "url", placeholder: "https://", required: draft.template !== "announcement" })}
+          <p className="text-xs text-white/50 sm:col-span-2">Segment — only confirmed subscribers are ever emailed; unsubscribed and deleted addresses are skipped.</p>
+          {field("q", "Email or @domain (e.g. @edu)")}
+          {field("source", "Source")}
+          {field("from", "Signed up from", { type: "date" })}
+          {field("to", "Signed up to", { type: "date" })}
+          <div className="sm:col-span-2"><button type="submit" className={button}>Save draft</button></div>
+        </form>
+      )}
+
+      <div className="mt-3 overflow-x-auto rounded-2xl border border-white/10">
+        <table className="w-full text-left text-sm">
+          <thead className="bg-white/5 text-xs uppercase tracking-wide text-white/60">
+            <tr>
+              <th className="px-3 py-2">Name</th>
+              <th className="px-3 py-2">Template</th>
+              <th className="px-3 py-2">Status</th>
+              <th className="px-3 py-2">Sent / queued / failed / skipped</th>
+              <th className="px-3 py-2">Last run</th>
+              <th className="px-3 py-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {campaigns.map((c) => (
+              <tr key={c.id} className="border-t border-white/5">
+                <td className="px-3 py-2 font-medium">{c.name}</td>
+                <td className="px-3 py-2 text-white/80">{c.template}</td>
+                <td className="px-3 py-2 text-white/80">{running === c.id ? "sending…" : c.status}</td>
+                <td className="px-3 py-2 text-white/80">{c.stats.sent} / {c.stats.queued} / {c.stats.failed} / {c.stats.skipped}</td>
+                <td className="px-3 py-2 text-white/80">{c.lastRunAt ? new Date(c.lastRunAt).toLocaleString() : "—"}</td>
+                <td className="px-3 py-2 text-right">
+                  {running === c.id ? (
+                    <button type="button" onClick={() => { stopRef.current = true; }} className={button}>Pause</button>
+                  ) : c.status === "done" ? (
+                    c.stats.failed > 0 && <button type="button" disabled={!!running} onClick={() => run(c, true)} className={button}>Retry failed</button>
+                  ) : (
+                    <button type="button" disabled={!!running} onClick={() => run(c)} className={button}>{c.status === "draft" ? "Send" : "Resume"}</button>
+                  )}
+                </td>
+              </tr>
+            ))}
+            {campaigns.length === 0 && (
+              <tr><td colSpan={6} className="px-3 py-6 text-center text-white/50">No campaigns yet.</td></tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,128 @@
+import React from "react";
+import type { AdminSectionProps } from "./Admin";
+import { validateLandingContent, type LandingContent } from "./shared/content";
+
+/**
+ * Landing content config (admin)
+ * - Edit the JSON that drives the headline, rotating words, pills, CTA, palette and launch mode
+ * - Validated here and again by the function; "Preview" opens an unpublished draft of the landing page
+ */
+
+interface LiveContent {
+  content: LandingContent;
+  source: "kv" | "default";
+  publishedAt?: string;
+  default: LandingContent;
+}
+
+const pretty = (c: unknown) => JSON.stringify(c, null, 2);
+
+export default function ContentEditor({ authed, button, input }: AdminSectionProps) {
+  const [live, setLive] = React.useState<LiveContent | null>(null);
+  const [text, setText] = React.useState("");
+  const [errors, setErrors] = React.useState<string[]>([]);
+  const [message, setMessage] = React.useState<string | null>(null);
+  const [busy, setBusy] = React.useState(false);
+
+  const load = React.useCallback(async () => {
+    try {
+      const body: LiveContent = await (await authed("/content")).json();
+      setLive(body);
+      setText(pretty(body.content));
+      setErrors([]);
+    } catch (err) {
+      setErrors([err instanceof Error ? err.message : String(err)]);
+    }
+  }, [authed]);
+
+  React.useEffect(() => { load(); }, [load]);
+
+  // Same validator the function runs, so problems show up before anything is sent
+  function parse(): LandingContent | null {
+    setMessage(null);
+    let raw: unknown;
+    try { raw = JSON.parse(text); } catch (err) {
+      setErrors([`Not valid JSON: ${err instanceof Error ? err.message : String(err)}`]);
+      return null;
+    }
+    const result = validateLandingContent(raw);
+    setErrors(result.ok ? [] : result.errors);
+    return result.ok ? result.value : null;
+  }
+
+  async function send(action: "preview" | "publish") {
+    const content = parse();
+    if (!content) return;
+    if (action === "publish" && !confirm("Publish this content to the live landing page?")) return;
+    // Open the tab inside the click so popup blockers allow it; point it at the draft once saved
+    const tab = action === "preview" ? window.open("", "_blank") : null;
+    setBusy(true);
+    try {
+      const res = await authed("/content", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action, content }),
+      });
+      const body = await res.json();
+      if (action === "preview") {
+        if (tab) tab.location.href = body.previewUrl;
+        setMessage(`Preview saved for 24 hours: ${body.previewUrl}`);
+      } else {
+        setMessage("Published. Visitors see it within a minute.");
+        await load();
+      }
+    } catch (err) {
+      tab?.close();
+      setErrors([err instanceof Error ? err.message : String(err)]);
+    } finally { setBusy(false); }
+  }
+
+  async function reset() {
+    if (!confirm("Unpublish and go back to the built-in default content?")) return;
+    setBusy(true);
+    try {
+      await authed("/content", { method: "DELETE" });
+      setMessage("Back to the built-in default.");
+      await load();
+    } catch (err) {
+      setErrors([err instanceof Error ? err.message : String(err)]);
+    } finally { setBusy(false); }
+  }
+
+  return (
+    <section className="mx-auto mt-10 max-w-6xl">
+      <div className="flex items-center justify-between gap-2">
+        <h2 className="text-sm font-semibold uppercase tracking-wide text-white/60">Landing content</h2>
+        {live && (
+          <p className="text-xs text-white/50">
+            {live.source === "kv" ? `Published ${live.publishedAt ? new Date(live.publishedAt).toLocaleString() : ""}` : "Showing the built-in default"}
+          </p>
+        )}
+      </div>
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        spellCheck={false}
+        aria-label="Landing content JSON"
+        rows={18}
+        className={`${input} mt-3 w-full font-mono text-xs`}
+      />
+      <p className="mt-1 text-xs text-white/50">
+        mode: waitlist | countdown (needs launchAt) | launched (needs signInUrl). copy is keyed by language; anything left out uses the built-in text.
+      </p>
+      {errors.length > 0 && (
+        <ul role="alert" className="mt-2 list-disc pl-5 text-xs text-rose-200">
+          {errors.map((e) => <li key={e}>{e}</li>)}
+        </ul>
+      )}
+      {message && <p role="status" className="mt-2 text-xs text-emerald-200">{message}</p>}
+      <div className="mt-3 flex flex-wrap gap-2">
+        <button type="button" disabled={busy} onClick={() => parse() && setMessage("Looks valid.")} className={button}>Validate</button>
+        <button type="button" disabled={busy} onClick={() => send("preview")} className={button}>Preview</button>
+        <button type="button" disabled={busy} onClick={() => send("publish")} className={button}>Publish</button>
+        <button type="button" disabled={busy || !live} onClick={() => live && setText(pretty(live.default))} className={button}>Load default</button>
+        <button type="button" disabled={busy || live?.source !== "kv"} onClick={reset} className={button}>Unpublish</button>
+      </div>
+    </section>
+  );
+}
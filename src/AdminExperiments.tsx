@@ -0,0 +1,115 @@
+import React from "react";
+import type { AdminSectionProps } from "./Admin";
+
+/**
+ * A/B experiments (admin)
+ * - Conversion = accepted signups / visitors per variant, from the daily counters; periods from
+ *   before visitors were counted fall back to page views, and the table says which it used
+ * - Each variant is compared with the control by a two-proportion z-test; p < 0.05 is flagged
+ * - Signup and confirmed counts come from the records themselves and are all-time
+ */
+
+interface VariantRow {
+  variant: string;
+  visitors: number;
+  views: number;
+  opens: number;
+  conversions: number;
+  rate: number | null;
+  signups: number;
+  confirmed: number;
+  test: { lift: number | null; ci95: [number, number]; p: number | null; significant: boolean } | null;
+}
+
+interface Report {
+  days: number;
+  experiments: { id: string; control: string; trials: "visitors" | "views"; daysCounted: number; variants: VariantRow[] }[];
+}
+
+const pct = (r: number | null) => (r === null ? "—" : `${(r * 100).toFixed(1)}%`);
+const signed = (r: number) => `${r > 0 ? "+" : ""}${(r * 100).toFixed(1)}`;
+
+export default function ExperimentReport({ authed, button, input }: AdminSectionProps) {
+  const [days, setDays] = React.useState(30);
+  const [report, setReport] = React.useState<Report | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const load = React.useCallback(async () => {
+    setError(null);
+    try {
+      const res = await authed(`/experiments?days=${days}`);
+      setReport(await res.json());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  }, [authed, days]);
+
+  React.useEffect(() => { load(); }, [load]);
+
+  return (
+    <section className="mx-auto mt-10 max-w-6xl">
+      <div className="flex items-center justify-between gap-2">
+        <h2 className="text-sm font-semibold uppercase tracking-wide text-white/60">Experiments</h2>
+        <div className="flex items-center gap-2">
+          <select value={days} onChange={(e) => setDays(Number(e.target.value))} aria-label="Period" className={input}>
+            <option value={7}>Last 7 days</option>
+            <option value={30}>Last 30 days</option>
+            <option value={90}>Last 90 days</option>
+          </select>
+          <button type="button" onClick={load} className={button}>Refresh</button>
+        </div>
+      </div>
+
+      {error && <p role="alert" className="mt-3 text-sm text-rose-200">{error}</p>}
+
+      {report?.experiments.map((exp) => (
+        <div key={exp.id} className="mt-3 overflow-x-auto rounded-2xl border border-white/10">
+          <table className="w-full text-left text-sm">
+            <thead className="bg-white/5 text-xs uppercase tracking-wide text-white/60">
+              <tr>
+                <th className="px-3 py-2">{exp.id}</th>
+                <th className="px-3 py-2">Visitors</th>
+                <th className="px-3 py-2">Page views</th>
+                <th className="px-3 py-2">Opened form</th>
+                <th className="px-3 py-2">Accepted</th>
+                <th className="px-3 py-2">Conversion (accepted / {exp.trials})</th>
+                <th className="px-3 py-2">Lift vs. control</th>
+                <th className="px-3 py-2">95% CI (pts)</th>
+                <th className="px-3 py-2">p</th>
+                <th className="px-3 py-2">Signups (all time)</th>
+                <th className="px-3 py-2">Confirmed</th>
+              </tr>
+            </thead>
+            <tbody>
+              {exp.variants.map((v) => (
+                <tr key={v.variant} className="border-t border-white/5">
+                  <td className="px-3 py-2 font-medium">{v.variant}{v.variant === exp.control ? " (control)" : ""}</td>
+                  <td className="px-3 py-2 text-white/80">{v.visitors}</td>
+                  <td className="px-3 py-2 text-white/80">{v.views}</td>
+                  <td className="px-3 py-2 text-white/80">{exp.id === "form" && v.variant === "open" ? "n/a" : v.opens}</td>
+                  <td className="px-3 py-2 text-white/80">{v.conversions}</td>
+                  <td className="px-3 py-2 text-white/80">{pct(v.rate)}</td>
+                  <td className="px-3 py-2 text-white/80">{v.test?.lift != null ? `${signed(v.test.lift)}%` : "—"}</td>
+                  <td className="px-3 py-2 text-white/80">{v.test ? `${signed(v.test.ci95[0])} … ${signed(v.test.ci95[1])}` : "—"}</td>
+                  <td className={`px-3 py-2 ${v.test?.significant ? "font-semibold text-emerald-200" : "text-white/80"}`}>
+                    {v.test?.p != null ? v.test.p.toFixed(3) : "—"}
+                  </td>
+                  <td className="px-3 py-2 text-white/80">{v.signups}</td>
+                  <td className="px-3 py-2 text-white/80">{v.confirmed}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {(exp.trials === "views" || exp.daysCounted < report.days) && (
+            <p className="border-t border-white/5 px-3 py-2 text-xs text-white/50">
+              {exp.trials === "visitors"
+                ? `Only the ${exp.daysCounted} days with visitor counts are included.`
+                : "No visitor counts in this period, so trials are page views: reloads count more than once."}
+            </p>
+          )}
+        </div>
+      ))}
+      {report && <p className="mt-2 text-xs text-white/50">Visitors with Do Not Track or Global Privacy Control aren’t counted. Don’t stop a test the moment p dips under 0.05.</p>}
+    </section>
+  );
+}
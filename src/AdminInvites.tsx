@@ -0,0 +1,159 @@
+import React from "react";
+import type { AdminSectionProps } from "./Admin";
+
+/**
+ * Private beta invitations (admin)
+ * - One code per confirmed subscriber, emailed with a link to the landing page (?invite=CODE)
+ * - Personal codes activate only their invitee; multi-use codes admit any confirmed subscriber (who proves
+ *   the address through an emailed link) until used up
+ * - Revoking stops further redemptions; people already activated stay in
+ */
+
+interface Invite {
+  code: string;
+  email: string;
+  maxUses: number;
+  uses: number;
+  createdAt: string;
+  expiresAt: string;
+  lastUsedAt?: string;
+  revokedAt?: string;
+}
+
+interface Result {
+  email: string;
+  status: string;
+  code?: string;
+  error?: string;
+}
+
+function inviteState(i: Invite) {
+  if (i.revokedAt) return "revoked";
+  if (Date.parse(i.expiresAt) <= Date.now()) return "expired";
+  if (i.uses >= i.maxUses) return "used up";
+  return "open";
+}
+
+export default function Invites({ authed, button, input }: AdminSectionProps) {
+  const [invites, setInvites] = React.useState<Invite[]>([]);
+  const [emails, setEmails] = React.useState("");
+  const [maxUses, setMaxUses] = React.useState(1);
+  const [days, setDays] = React.useState(14);
+  const [send, setSend] = React.useState(true);
+  const [results, setResults] = React.useState<Result[]>([]);
+  const [busy, setBusy] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const refresh = React.useCallback(async () => {
+    try {
+      const body: { invites: Invite[] } = await (await authed("/invites")).json();
+      setInvites(body.invites);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  }, [authed]);
+
+  React.useEffect(() => { refresh(); }, [refresh]);
+
+  async function create(e: React.FormEvent) {
+    e.preventDefault();
+    setError(null); setBusy(true);
+    try {
+      const list = emails.split(/[\s,;]+/).map((s) => s.trim()).filter(Boolean);
+      const res = await authed("/invites", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ emails: list, maxUses, days, send }),
+      });
+      const body: { results: Result[] } = await res.json();
+      setResults(body.results);
+      setEmails("");
+      refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally { setBusy(false); }
+  }
+
+  async function revoke(code: string) {
+    if (!window.confirm(`Revoke ${code}? Nobody new can use it afterwards.`)) return;
+    setError(null);
+    try {
+      await authed(`/invites/${encodeURIComponent(code)}`, { method: "DELETE" });
+      refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  }
+
+  return (
+    <section className="mx-auto mt-10 max-w-6xl">
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-semibold uppercase tracking-wide text-white/60">Beta invitations</h2>
+        <button type="button" onClick={refresh} className={button}>Refresh</button>
+      </div>
+
+      <form onSubmit={create} className="mt-3 flex flex-wrap items-end gap-2 rounded-2xl border border-white/10 bg-white/5 p-3">
+        <label className="flex min-w-[16rem] flex-1 flex-col text-xs text-white/70">Confirmed subscribers (one per line or comma-separated)
+          <textarea value={emails} onChange={(e) => setEmails(e.target.value)} rows={2} required className={`${input} mt-1`} placeholder="ada@mit.edu" />
+        </label>
+        <label className="flex flex-col text-xs text-white/70">Uses per code
+          <input type="number" min={1} max={500} value={maxUses} onChange={(e) => setMaxUses(Number(e.target.value))} className={`${input} mt-1 w-24`} />
+        </label>
+        <label className="flex flex-col text-xs text-white/70">Valid for (days)
+          <input type="number" min={1} max={90} value={days} onChange={(e) => setDays(Number(e.target.value))} className={`${input} mt-1 w-24`} />
+        </label>
+        <label className="flex items-center gap-2 pb-2 text-xs text-white/70">
+          <input type="checkbox" checked={send} onChange={(e) => setSend(e.target.checked)} className="accent-teal-400" />
+          Email the invitation
+        </label>
+        <button type="submit" disabled={busy} className={button}>{busy ? "Inviting…" : "Create invitations"}</button>
+      </form>
+
+      {error && <p role="alert" className="mt-2 text-sm text-rose-200">{error}</p>}
+
+      {results.length > 0 && (
+        <ul role="status" className="mt-2 space-y-1 text-xs text-white/70">
+          {results.map((r) => (
+            <li key={r.email}>
+              <span className="font-medium text-white">{r.email}</span> · {r.status}{r.code ? ` · ${r.code}` : ""}{r.error ? ` · ${r.error}` : ""}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="mt-3 overflow-x-auto rounded-2xl border border-white/10">
+        <table className="w-full text-left text-sm">
+          <thead className="bg-white/5 text-xs uppercase tracking-wide text-white/60">
+            <tr>
+              <th className="px-3 py-2">Code</th>
+              <th className="px-3 py-2">Issued to</th>
+              <th className="px-3 py-2">Uses</th>
+              <th className="px-3 py-2">Created</th>
+              <th className="px-3 py-2">Expires</th>
+              <th className="px-3 py-2">State</th>
+              <th className="px-3 py-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {invites.map((i) => (
+              <tr key={i.code} className="border-t border-white/5">
+                <td className="px-3 py-2 font-mono text-xs">{i.code}</td>
+                <td className="px-3 py-2 font-medium">{i.email}</td>
+                <td className="px-3 py-2 text-white/80">{i.uses} / {i.maxUses}</td>
+                <td className="px-3 py-2 text-white/80">{new Date(i.createdAt).toLocaleString()}</td>
+                <td className="px-3 py-2 text-white/80">{new Date(i.expiresAt).toLocaleString()}</td>
+                <td className="px-3 py-2 text-white/80">{inviteState(i)}</td>
+                <td className="px-3 py-2 text-right">
+                  {!i.revokedAt && <button type="button" onClick={() => revoke(i.code)} className={button}>Revoke</button>}
+                </td>
+              </tr>
+            ))}
+            {invites.length === 0 && (
+              <tr><td colSpan={7} className="px-3 py-6 text-center text-white/50">No invitations yet.</td></tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  );
+}
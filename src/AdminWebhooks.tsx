@@ -0,0 +1,105 @@
+import React from "react";
+import type { AdminSectionProps } from "./Admin";
+
+/**
+ * Outbound webhooks (admin)
+ * - Targets are configured in the WEBHOOKS env var; this only shows them, tests them and retries
+ * - The log keeps outcomes (not payloads) for two weeks
+ */
+
+interface Overview {
+  targets: { id: string; type: string; host: string; events: string[] | "all"; signed: boolean }[];
+  queued: { target: string; event: string; delivery: string; attempts: number; nextAt: number; lastError?: string }[];
+  log: { target: string; event: string; delivery: string; at: string; outcome: string; attempts: number; status?: number; error?: string }[];
+}
+
+export default function Webhooks({ authed, button }: AdminSectionProps) {
+  const [data, setData] = React.useState<Overview | null>(null);
+  const [message, setMessage] = React.useState<string | null>(null);
+
+  const load = React.useCallback(async () => {
+    try {
+      setData(await (await authed("/webhooks")).json());
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : String(err));
+    }
+  }, [authed]);
+
+  React.useEffect(() => { load(); }, [load]);
+
+  async function post(body: Record<string, string>) {
+    setMessage(null);
+    try {
+      const res = await authed("/webhooks", { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) });
+      const r = await res.json();
+      setMessage(body.action === "test"
+        ? (r.ok ? `Test delivered to ${body.target} (${r.status}).` : `Test to ${body.target} failed: ${r.error}`)
+        : `Retried: ${r.delivered} delivered, ${r.retrying} still retrying, ${r.dead} given up.`);
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : String(err));
+    }
+    await load();
+  }
+
+  return (
+    <section className="mx-auto mt-10 max-w-6xl">
+      <div className="flex items-center justify-between gap-2">
+        <h2 className="text-sm font-semibold uppercase tracking-wide text-white/60">Webhooks</h2>
+        <div className="flex items-center gap-2">
+          <button type="button" onClick={() => post({ action: "drain" })} className={button}>Retry due now</button>
+          <button type="button" onClick={load} className={button}>Refresh</button>
+        </div>
+      </div>
+      {message && <p role="status" className="mt-2 text-xs text-white/70">{message}</p>}
+
+      {data && (
+        <>
+          <ul className="mt-3 space-y-2 text-sm">
+            {data.targets.map((t) => (
+              <li key={t.id} className="flex flex-wrap items-center justify-between gap-2 rounded-2xl border border-white/10 bg-white/5 px-3 py-2">
+                <span>
+                  <span className="font-medium">{t.id}</span>
+                  <span className="text-white/60"> · {t.type} · {t.host} · {t.events === "all" ? "all events" : t.events.join(", ")}{t.signed ? " · signed" : ""}</span>
+                </span>
+                <button type="button" onClick={() => post({ action: "test", target: t.id })} className={button}>Send test</button>
+              </li>
+            ))}
+            {data.targets.length === 0 && <li className="text-white/50">No targets configured (set WEBHOOKS).</li>}
+          </ul>
+
+          {data.queued.length > 0 && <p className="mt-3 text-xs text-amber-100">{data.queued.length} deliveries waiting to retry.</p>}
+
+          <div className="mt-3 overflow-x-auto rounded-2xl border border-white/10">
+            <table className="w-full text-left text-sm">
+              <thead className="bg-white/5 text-xs uppercase tracking-wide text-white/60">
+                <tr>
+                  <th className="px-3 py-2">When</th>
+                  <th className="px-3 py-2">Target</th>
+                  <th className="px-3 py-2">Event</th>
+                  <th className="px-3 py-2">Outcome</th>
+                  <th className="px-3 py-2">Attempts</th>
+                  <th className="px-3 py-2">Response</th>
+                </tr>
+              </thead>
+              <tbody>
+                {data.log.map((l, i) => (
+                  <tr key={`${l.delivery}-${l.target}-${i}`} className="border-t border-white/5">
+                    <td className="px-3 py-2 text-white/80">{new Date(l.at).toLocaleString()}</td>
+                    <td className="px-3 py-2 font-medium">{l.target}</td>
+                    <td className="px-3 py-2 text-white/80">{l.event}</td>
+                    <td className={`px-3 py-2 ${l.outcome === "failed" ? "text-rose-200" : l.outcome === "queued" ? "text-amber-100" : "text-emerald-200"}`}>{l.outcome}</td>
+                    <td className="px-3 py-2 text-white/80">{l.attempts}</td>
+                    <td className="px-3 py-2 text-xs text-white/60">{l.error || l.status || ""}</td>
+                  </tr>
+                ))}
+                {data.log.length === 0 && (
+                  <tr><td colSpan={6} className="px-3 py-6 text-center text-white/50">No deliveries yet.</td></tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </section>
+  );
+}
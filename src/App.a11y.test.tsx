@@ -0,0 +1,79 @@
+// @vitest-environment jsdom
+import { act } from "react";
+import { createRoot, type Root } from "react-dom/client";
+import axe from "axe-core";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import App from "./App";
+import { MESSAGES } from "./i18n";
+import { EXPERIMENTS, EXPERIMENT_IDS } from "./shared/experiments";
+
+// ---- Accessibility of the landing page ----
+// The same axe-core rules the dev audit (a11yAudit.ts) prints to the console, as a test that fails
+// on any violation: the page as it loads, with the interest form open, and with a legal modal up.
+// jsdom doesn't lay anything out, so color contrast is left to the dev audit in a real browser.
+
+const m = MESSAGES.en;
+
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+// The endpoints the page calls on load; everything else (content config, beacons) is a 404
+function fakeFetch(input: RequestInfo | URL) {
+  const url = String(input instanceof Request ? input.url : input);
+  const body = url.startsWith("/api/interest") ? { ok: true, formToken: "test" } : { ok: false, error: "Not found" };
+  return Promise.resolve(new Response(JSON.stringify(body), { status: "ok" in body && body.ok ? 200 : 404, headers: { "Content-Type": "application/json" } }));
+}
+
+async function violations() {
+  const { violations } = await axe.run(document, { resultTypes: ["violations"], rules: { "color-contrast": { enabled: false } } });
+  return violations.map((v) => `${v.id}: ${v.help} — ${v.nodes.map((n) => n.target.join(" ")).join(", ")}`);
+}
+
+function button(label: string) {
+  const found = [...document.querySelectorAll("button")].find((b) => b.textContent?.trim() === label);
+  if (!found) throw new Error(`No "${label}" button on the page`);
+  return found;
+}
+
+describe("landing page accessibility", () => {
+  let root: Root;
+
+  beforeEach(async () => {
+    vi.stubGlobal("fetch", vi.fn(fakeFetch));
+    vi.stubGlobal("matchMedia", (query: string) => ({
+      matches: false, media: query, onchange: null,
+      addEventListener() {}, removeEventListener() {}, addListener() {}, removeListener() {}, dispatchEvent: () => false,
+    }));
+    document.documentElement.lang = "en";
+    document.title = "erlySense";
+    // Every experiment on its control: the form starts behind the "I'm interested" button, so
+    // opening it is part of what's checked
+    localStorage.setItem("erlysense.exp", JSON.stringify(Object.fromEntries(EXPERIMENT_IDS.map((id) => [id, EXPERIMENTS[id][0]]))));
+    const container = document.createElement("div");
+    document.body.appendChild(container);
+    root = createRoot(container);
+    await act(async () => { root.render(<App />); });
+  });
+
+  afterEach(() => {
+    act(() => root.unmount());
+    document.body.innerHTML = "";
+    localStorage.clear();
+    vi.unstubAllGlobals();
+  });
+
+  it("has no violations as it loads", async () => {
+    expect(await violations()).toEqual([]);
+  });
+
+  it("has no violations with the interest form open", async () => {
+    await act(async () => { button(m.cta).click(); });
+    expect(document.querySelector("input[type=email]")).not.toBeNull();
+    expect(await violations()).toEqual([]);
+  });
+
+  it("has no violations with the privacy notice open", async () => {
+    await act(async () => { button(m.footer.privacy).click(); });
+    expect(document.querySelector('[role="dialog"]')).not.toBeNull();
+    expect(await violations()).toEqual([]);
+  });
+});
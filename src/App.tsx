@@ -1,36 +1,33 @@
 import React from "react";
-import { motion, AnimatePresence, cubicBezier } from "framer-motion";
-import { Sparkles } from "lucide-react";
+import { motion, AnimatePresence, cubicBezier, useReducedMotion } from "framer-motion";
+import { Pause, Play, Sparkles } from "lucide-react";
+import { BRAND } from "./shared/brand";
+import { INSTITUTION_MAX, ROLES, type Role } from "./shared/institution";
+import { LOCALES, LOCALE_NAMES, type Locale } from "./shared/locale";
+import { MESSAGES, applyDocumentLocale, detectLocale, rememberLocale, type Messages } from "./i18n";
+import { CURRENT_VERSIONS, currentVersion, legalText } from "./legal";
+import { DataRequestForm, LegalDocument } from "./LegalDocument";
+import { en } from "./i18n/en";
+import { track, trackNewVisitor } from "./analytics";
+import { log } from "./log";
+import { formatCountdown, landingCopy, useCountdown, useLandingContent } from "./content";
+import { reportedAssignment, variantOf } from "./experiments";
+import { isOfflineError, onInterestReplayed, queueInterest } from "./offline";
+import { isValidEmail, validateInterest, NOTE_MAX, type FieldErrors, type InterestResponse, type FormTokenResponse } from "./shared/interest";
+import { normalizeInviteCode, validateRedemption, type InviteCheckResponse, type InviteProblem, type RedeemResponse } from "./shared/invite";
 
 /**
  * erlySense — Anticipated (no-scroll, full-viewport)
  * - Locks layout to 100dvh and hides overflow
  * - Footer is inside the viewport (absolute bottom)
  * - Interest form opens on demand (no height bumps)
- * - Accessible modals; reduced-motion support
+ * - Accessible modals (unique labels, focus restored to the trigger, inert background); reduced-motion support
+ * - All copy comes from the i18n catalogs (?lang=, switcher, browser languages); RTL aware
+ * - Logs through src/log.ts: everything in development, warnings and errors in production
+ * - ?invite=CODE swaps the waitlist form for the private beta invitation (Early Access Terms, then activation)
  */
 
-// ---- Debug helpers ----
-const DEBUG = true;
-function maskEmail(e: string) {
-  if (!e || !e.includes("@")) return e;
-  const [u, d] = e.split("@");
-  const uu = u.length <= 2 ? u[0] + "*" : u[0] + "*".repeat(Math.max(1, u.length - 2)) + u[u.length - 1];
-  return `${uu}@${d}`;
-}
-function dbg(...args: any[]) {
-  if (DEBUG && typeof console !== "undefined") console.log("[erlySense]", ...args);
-}
-
-// ---- Brand palette (from logo) ----
-const BRAND = {
-  aqua: "#57C8C7",
-  teal: "#2FB3C4",
-  blue: "#0E5C8B",
-  deep: "#073B5C",
-  ink:  "#08141C",
-};
-dbg("Brand colors:", BRAND);
+log.debug("Brand colors", { brand: BRAND });
 
 // ---- Animation presets ----
 const floating = {
@@ -41,8 +38,8 @@ const stagger = { show: { transition: { staggerChildren: 0.08 } } };
 
 // ---- Utilities ----
 export function validateEmail(email: string): boolean {
-  const ok = /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email);
-  dbg("validateEmail:", maskEmail(email), "→", ok);
+  const ok = isValidEmail(email);
+  log.debug("validateEmail", { email, ok });
   return ok;
 }
 
@@ -51,89 +48,166 @@ const LOGO_CANDIDATES = [
   "/logo.png",
   "/assets/erlysense-logo.png",
 ];
-dbg("Logo candidates:", LOGO_CANDIDATES);
+log.debug("Logo candidates", { candidates: LOGO_CANDIDATES });
 
 const INTEREST_ENDPOINT =
   (typeof import.meta !== "undefined" &&
     (import.meta as any).env &&
     (import.meta as any).env.VITE_INTEREST_ENDPOINT) ||
   "/api/interest";
-dbg("Interest endpoint in use:", INTEREST_ENDPOINT);
-
-// Favicons with cache-busting
-const VER = `v=${Date.now()}`;
-const FAVICONS = [
-  { rel: "icon", href: `/favicon.ico?${VER}`, type: "image/x-icon" },
-  { rel: "icon", href: `/favicon-512.png?${VER}`, type: "image/png", sizes: "512x512" },
-  { rel: "shortcut icon", href: `/favicon.ico?${VER}`, type: "image/x-icon" },
-  { rel: "apple-touch-icon", href: `/favicon-512.png?${VER}`, sizes: "180x180" },
-];
+log.debug("Interest endpoint in use", { endpoint: INTEREST_ENDPOINT });
+
+const INVITE_ENDPOINT = "/api/invite";
+
+// Failed outcomes of the emailed confirmation link (/api/interest/confirm redirects back with ?confirm=;
+// success goes to the status page instead)
+const CONFIRM_OUTCOMES = ["expired", "invalid", "error"] as const;
+type ConfirmOutcome = (typeof CONFIRM_OUTCOMES)[number];
+
+// Status lines are resolved at render time so switching language re-translates them
+type StatusLine = { ok: boolean; msg: (m: Messages) => string };
+
+// Referral code from a shared link (?ref=), kept for the session so it survives until submit
+const REF_STORAGE_KEY = "erlysense.ref";
+function captureRef() {
+  try {
+    const ref = new URLSearchParams(window.location.search).get("ref");
+    if (ref && /^[A-Za-z0-9]{8}$/.test(ref)) sessionStorage.setItem(REF_STORAGE_KEY, ref.toUpperCase());
+    return sessionStorage.getItem(REF_STORAGE_KEY) || undefined;
+  } catch {
+    return undefined;
+  }
+}
 
-// Curiosity: rotating word next to Anticipated
-const VOICES = ["sooner", "quietly", "privately", "softly", "steadily", "imminently"];
+// Invitation code from the beta invite email (?invite=), plus ?beta= when the emailed join link
+// (api/invite/join) sends someone back. Taken out of the address bar straight away: the code is
+// personal, and shouldn't linger in history or end up in a screenshot.
+type Joined = "activated" | "returning";
+function captureInvite() {
+  const params = new URLSearchParams(window.location.search);
+  const raw = params.get("invite");
+  if (raw === null) return null;
+  const beta = params.get("beta");
+  const joined: Joined | undefined = beta === "activated" || beta === "returning" ? beta : undefined;
+  params.delete("invite");
+  params.delete("beta");
+  const qs = params.toString();
+  window.history.replaceState(null, "", window.location.pathname + (qs ? `?${qs}` : "") + window.location.hash);
+  return { raw, joined };
+}
 
-// Curiosity: rotating teaser pills
-const PILL_SETS = [
-  ["Private Beta", "Edge-first", "Privacy by design"],
-  ["Founders only", "On-device AI", "Noise-resilient"],
-  ["University-ready", "Low latency", "Launch-imminent"],
-];
+// Curiosity: the rotating headline word and teaser pills come from the catalogs (voices, pills),
+// overridden per language by the landing content config (see src/content.ts)
 
 export default function App() {
+  const [locale, setLocale] = React.useState<Locale>(detectLocale);
+  const m = MESSAGES[locale];
+  React.useEffect(() => { applyDocumentLocale(locale); }, [locale]);
+
+  // Copy, palette and launch mode from the published content config
+  const { content, preview } = useLandingContent();
+  const copy = landingCopy(m, content, locale);
+  const brand = content.brand;
+  const pillColors = [brand.teal, brand.aqua, brand.blue];
+  const remaining = useCountdown(content.mode === "countdown" ? content.launchAt : undefined);
+  const launched = content.mode === "launched" && !!content.signInUrl;
+
+  // A/B variants (src/shared/experiments): sticky per visitor, recorded with events and the signup
+  const [exp] = React.useState(() => ({ headline: variantOf("headline"), cta: variantOf("cta"), form: variantOf("form") }));
+  const ctaLabel = exp.cta === "notify" ? m.form.submit : copy.cta;
+
   const [email, setEmail] = React.useState("");
   const [note, setNote] = React.useState("");
+  const [role, setRole] = React.useState<Role | "">("");
+  const [institution, setInstitution] = React.useState("");
+  const [consent, setConsent] = React.useState(false);
   const [trap, setTrap] = React.useState("");
   const [isLoading, setIsLoading] = React.useState(false);
-  const [status, setStatus] = React.useState<null | { ok: boolean; msg: string }>(null);
+  const [formToken, setFormToken] = React.useState<string | null>(null);
+  const [retryAt, setRetryAt] = React.useState<number | null>(null);
+  const [ref] = React.useState(captureRef);
+  const [invite] = React.useState(captureInvite);
+  const [status, setStatus] = React.useState<StatusLine | null>(null);
+  const [fieldErrors, setFieldErrors] = React.useState<FieldErrors>({});
+  const clearError = (k: keyof FieldErrors) => setFieldErrors((prev) => (prev[k] ? { ...prev, [k]: undefined } : prev));
   const [logoBroken, setLogoBroken] = React.useState(false);
   const [logoIdx, setLogoIdx] = React.useState(0);
-  const [interestOpen, setInterestOpen] = React.useState(false);
+  const [interestOpen, setInterestOpen] = React.useState(exp.form === "open");
   const [showTerms, setShowTerms] = React.useState(false);
   const [showPrivacy, setShowPrivacy] = React.useState(false);
   const emailRef = React.useRef<HTMLInputElement | null>(null);
 
+  // Funnel analytics (cookieless; skipped entirely under DNT/GPC)
+  React.useEffect(() => { track("page_view"); trackNewVisitor(); }, []);
+
+  // Headline word and pill rotation: off under prefers-reduced-motion, and pausable by hand (WCAG 2.2.2)
+  const reducedMotion = useReducedMotion() ?? false;
+  const [paused, setPaused] = React.useState(false);
+  const rotating = !reducedMotion && !paused;
+
   // Rotate words in headline
   const [voiceIdx, setVoiceIdx] = React.useState(0);
   React.useEffect(() => {
-    const id = setInterval(() => setVoiceIdx(i => (i + 1) % VOICES.length), 3000);
+    if (exp.headline === "static" || !rotating) return;
+    const id = setInterval(() => setVoiceIdx(i => (i + 1) % copy.voices.length), 3000);
     return () => clearInterval(id);
-  }, []);
+  }, [copy.voices.length, exp.headline, rotating]);
 
   // Rotate pill set
   const [pillSet, setPillSet] = React.useState(0);
   React.useEffect(() => {
-    const id = setInterval(() => setPillSet(p => (p + 1) % PILL_SETS.length), 5000);
+    if (!rotating) return;
+    const id = setInterval(() => setPillSet(p => (p + 1) % copy.pills.length), 5000);
     return () => clearInterval(id);
-  }, []);
+  }, [copy.pills.length, rotating]);
+
+  // Everything but an open legal modal goes inert, so neither Tab nor a screen reader's virtual cursor can leave it
+  const modalOpen = showTerms || showPrivacy;
 
-  // Favicon injection
+  // Returning from the confirmation link: show the outcome, then tidy the URL
   React.useEffect(() => {
-    try {
-      const removeNodes = document.querySelectorAll("link[rel='icon'], link[rel='shortcut icon'], link[rel='apple-touch-icon']");
-      removeNodes.forEach((el) => el.parentElement?.removeChild(el));
-      FAVICONS.forEach((f) => {
-        const link = document.createElement("link");
-        link.rel = (f as any).rel;
-        if ((f as any).type) link.type = (f as any).type;
-        if ((f as any).sizes) link.sizes = (f as any).sizes as any;
-        link.href = (f as any).href;
-        link.crossOrigin = "anonymous";
-        document.head.appendChild(link);
-      });
-      const metaTheme = document.querySelector('meta[name="theme-color"]') as HTMLMetaElement | null;
-      if (!metaTheme) {
-        const m = document.createElement("meta");
-        m.name = "theme-color";
-        m.content = BRAND.deep;
-        document.head.appendChild(m);
-      }
-    } catch (err) {
-      dbg("Favicon effect error:", err);
-    }
+    const params = new URLSearchParams(window.location.search);
+    const outcome = params.get("confirm");
+    if (!outcome) return;
+    log.debug("Confirmation outcome", { outcome });
+    const known = (CONFIRM_OUTCOMES as readonly string[]).includes(outcome) ? (outcome as ConfirmOutcome) : "invalid";
+    setStatus({ ok: false, msg: (t) => t.status.confirm[known] });
+    setInterestOpen(true);
+    params.delete("confirm");
+    const qs = params.toString();
+    window.history.replaceState(null, "", window.location.pathname + (qs ? `?${qs}` : "") + window.location.hash);
   }, []);
 
-  // Autofocus when interest opens
+  // A submission saved while offline has gone through; show how it landed
+  React.useEffect(() => onInterestReplayed(({ body }) => {
+    if (body && body.ok) {
+      track("submit_success");
+      setStatus({ ok: true, msg: (t) => (body.returning ? (body.status === "confirmed" ? t.status.returningConfirmed : t.status.returningPending) : t.status.pending) });
+    } else {
+      setStatus({ ok: false, msg: (t) => t.status.error });
+    }
+  }), []);
+
+  // Server-issued form timestamp (lets the function reject instant, scripted submits)
+  React.useEffect(() => {
+    if (!interestOpen || formToken) return;
+    fetch(INTEREST_ENDPOINT, { headers: { Accept: "application/json" } })
+      .then((r) => r.json())
+      .then((body: FormTokenResponse) => { if (body.formToken) setFormToken(body.formToken); })
+      .catch((err) => log.warn("Form token fetch failed", { err }));
+  }, [interestOpen, formToken]);
+
+  // Re-enable the form once a 429 cool-down has passed
   React.useEffect(() => {
+    if (!retryAt) return;
+    const id = setTimeout(() => { setRetryAt(null); setStatus(null); }, Math.max(0, retryAt - Date.now()));
+    return () => clearTimeout(id);
+  }, [retryAt]);
+
+  // Autofocus when interest opens (not when the "open" form variant shows it on load)
+  const openedOnLoad = React.useRef(interestOpen);
+  React.useEffect(() => {
+    if (openedOnLoad.current) { openedOnLoad.current = false; return; }
     if (interestOpen && emailRef.current) {
       requestAnimationFrame(() => emailRef.current && emailRef.current.focus());
     }
@@ -141,21 +215,72 @@ export default function App() {
 
   async function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
-    if (trap) return;
-    if (!validateEmail(email)) { setStatus({ ok: false, msg: "Please enter a valid email." }); return; }
+    // The honeypot goes to the server too; it decides what a filled trap means
+    const checked = validateInterest({
+      email, note, role: role || undefined, institution, source: "coming-soon", locale, trap, formToken, ref,
+      // The receipt names the exact versions that were on screen when the box was ticked
+      consent, termsVersion: CURRENT_VERSIONS.terms, privacyVersion: CURRENT_VERSIONS.privacy,
+      experiments: reportedAssignment(),
+    });
+    if (!checked.ok) {
+      log.debug("Interest form invalid", { fields: Object.keys(checked.errors) });
+      setFieldErrors(checked.errors);
+      setStatus(checked.errors._form ? { ok: false, msg: (t) => t.errors.form } : null);
+      return;
+    }
+    const payload = checked.value;
+    // Same key if the service worker has to replay this later, so the server only acts once
+    const idempotencyKey = crypto.randomUUID();
     try {
-      setIsLoading(true); setStatus(null);
-      const payload = { email, note, source: "coming-soon" };
+      setIsLoading(true); setStatus(null); setFieldErrors({});
+      track("submit");
       const res = await fetch(INTEREST_ENDPOINT, {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: { "Content-Type": "application/json", "Idempotency-Key": idempotencyKey },
         body: JSON.stringify(payload),
       });
-      if (!res.ok) throw new Error("Network error");
-      setStatus({ ok: true, msg: "Thanks! We'll be in touch soon." });
-      setEmail(""); setNote("");
+      if (res.status === 429) {
+        const wait = Number(res.headers.get("Retry-After")) || 60;
+        log.debug("Rate limited", { retryAfter: wait });
+        setRetryAt(Date.now() + wait * 1000);
+        track("submit_error");
+        setStatus({ ok: false, msg: (t) => (wait <= 5 ? t.status.tooFast : t.status.rateLimited(formatWait(wait, t.wait))) });
+        return;
+      }
+      const body: InterestResponse | null = await res.json().catch(() => null);
+      if (res.status === 400 && body && !body.ok) {
+        const fields = body.fields || {};
+        if (fields._form) setFormToken(null); // expired form token: fetch a fresh one for the retry
+        setFieldErrors(fields);
+        track("submit_error");
+        setStatus({ ok: false, msg: (t) => (fields._form ? t.errors.form : t.status.error) });
+        return;
+      }
+      if (!res.ok || !body || !body.ok) {
+        // The request ID in the body is what matches this to the server's logs
+        log.warn("Interest submit failed", { status: res.status, requestId: body && !body.ok ? body.requestId : undefined });
+        throw new Error("Network error");
+      }
+      log.debug("Interest response", { body });
+      track("submit_success");
+      if (body.returning && body.status === "confirmed") {
+        setStatus({ ok: true, msg: (t) => t.status.returningConfirmed });
+      } else if (body.returning) {
+        setStatus({ ok: true, msg: (t) => t.status.returningPending });
+      } else {
+        setStatus({ ok: true, msg: (t) => t.status.pending });
+      }
+      setEmail(""); setNote(""); setRole(""); setInstitution(""); setConsent(false);
     } catch (err) {
-      setStatus({ ok: false, msg: "Something went wrong. Please try again." });
+      // Flaky Wi-Fi: park it with the service worker instead of losing it
+      if (isOfflineError(err) && (await queueInterest(idempotencyKey, payload))) {
+        log.debug("Interest queued for replay", { idempotencyKey });
+        setStatus({ ok: true, msg: (t) => t.status.queued });
+        setEmail(""); setNote(""); setRole(""); setInstitution(""); setConsent(false);
+        return;
+      }
+      track("submit_error");
+      setStatus({ ok: false, msg: (t) => t.status.error });
     } finally { setIsLoading(false); }
   }
 
@@ -163,20 +288,24 @@ export default function App() {
     /* Lock to full viewport, hide any accidental overflow */
     <div className="relative h-[100dvh] w-full overflow-hidden text-white selection:bg-white/10 selection:text-white">
       {/* Background layers (fixed to viewport, no scroll) */}
-      <div className="absolute inset-0" style={{ background: `linear-gradient(180deg, ${BRAND.ink} 0%, ${BRAND.deep} 100%)` }} />
-      <div className="absolute inset-0" style={{ background: `radial-gradient(50% 35% at 50% 18%, ${hexWithAlpha(BRAND.teal, 0.22)} 0%, rgba(0,0,0,0) 100%)` }} />
+      <div className="absolute inset-0" style={{ background: `linear-gradient(180deg, ${brand.ink} 0%, ${brand.deep} 100%)` }} />
+      <div className="absolute inset-0" style={{ background: `radial-gradient(50% 35% at 50% 18%, ${hexWithAlpha(brand.teal, 0.22)} 0%, rgba(0,0,0,0) 100%)` }} />
       <div className="absolute -inset-32 opacity-35 [mask-image:radial-gradient(closest-side,black,transparent)]">
-        <div className="animate-[spin_28s_linear_infinite] h-full w-full" style={{ background: `conic-gradient(from 120deg at 50% 50%, ${hexWithAlpha(BRAND.aqua,0.16)}, ${hexWithAlpha(BRAND.blue,0.16)}, ${hexWithAlpha(BRAND.teal,0.16)}, ${hexWithAlpha(BRAND.aqua,0.16)})` }} />
+        <div className="motion-safe:animate-[spin_28s_linear_infinite] h-full w-full" style={{ background: `conic-gradient(from 120deg at 50% 50%, ${hexWithAlpha(brand.aqua,0.16)}, ${hexWithAlpha(brand.blue,0.16)}, ${hexWithAlpha(brand.teal,0.16)}, ${hexWithAlpha(brand.aqua,0.16)})` }} />
       </div>
 
+      {preview && (
+        <p role="note" inert={modalOpen} className="absolute left-0 right-0 top-0 z-20 bg-amber-300/15 px-4 py-1.5 text-center text-xs text-amber-100">{m.launch.preview}</p>
+      )}
+
       {/* MAIN: fills viewport height completely */}
-      <main className="relative z-10 mx-auto flex h-full max-w-5xl flex-col items-center justify-center px-6 py-6">
+      <main inert={modalOpen} className="relative z-10 mx-auto flex h-full max-w-5xl flex-col items-center justify-center px-6 py-6">
         <motion.div variants={stagger} initial="hidden" animate="show" className="w-full">
           <motion.div variants={floating} className="mx-auto mb-4 flex items-center justify-center">
             {!logoBroken ? (
               <img
                 src={LOGO_CANDIDATES[logoIdx]}
-                alt="erlySense logo"
+                alt={m.logoAlt}
                 className="h-16 w-auto drop-shadow-[0_2px_16px_rgba(0,0,0,0.35)]"
                 loading="eager"
                 decoding="async"
@@ -192,17 +321,20 @@ export default function App() {
           {/* Headline: Anticipated + visible rotating word */}
           <motion.h1 variants={floating} className="mx-auto text-center font-semibold tracking-tight" style={{ fontSize: "clamp(1.9rem, 4vw, 3.6rem)" }}>
             <span className="mx-auto block">
-              <span style={{ color: BRAND.aqua }}>erly</span>
-              <span style={{ color: BRAND.blue }}>Sense</span>
+              <span style={{ color: brand.aqua }}>erly</span>
+              <span style={{ color: brand.blue }}>Sense</span>
             </span>
             <span className="relative inline-block">
               <span
                 className="bg-clip-text text-transparent"
-                style={{ backgroundImage: `linear-gradient(90deg, ${BRAND.aqua}, ${BRAND.teal}, ${BRAND.blue})` }}
+                style={{ backgroundImage: `linear-gradient(90deg, ${brand.aqua}, ${brand.teal}, ${brand.blue})` }}
               >
-                Anticipated
+                {copy.anticipated}
               </span>{" "}
+              {/* Screen readers get one steady word; re-announcing a new one every 3s is noise */}
+              <span className="sr-only">{copy.voices[0]}</span>
               <span
+                aria-hidden
                 className="inline-block align-baseline"
                 style={{
                   color: "#E6FAFF",
@@ -210,58 +342,103 @@ export default function App() {
                   textShadow: "0 1px 2px rgba(0,0,0,0.35)",
                 }}
               >
-                {VOICES[voiceIdx]}
+                {copy.voices[voiceIdx % copy.voices.length]}
               </span>
             </span>
           </motion.h1>
 
           <motion.p variants={floating} className="mx-auto mt-3 max-w-xl text-center leading-relaxed text-white/80" style={{ fontSize: "clamp(0.95rem, 1.2vw, 1.125rem)" }}>
-            An innovative step toward proactive student well-being. For now, just a whisper.
+            {copy.tagline}
           </motion.p>
 
           <motion.div variants={floating} className="mx-auto mt-5 flex items-center justify-center gap-3">
-            <TeaserPill label="Private Beta" color={BRAND.teal} />
-            <TeaserPill label="Edge-first" color={BRAND.aqua} />
-            <TeaserPill label="Privacy by design" color={BRAND.blue} />
+            {copy.pills[pillSet % copy.pills.length].map((label, i) => (
+              <TeaserPill key={label} label={label} color={pillColors[i % pillColors.length]} />
+            ))}
+            {!reducedMotion && (
+              <button
+                type="button"
+                onClick={() => setPaused((p) => !p)}
+                aria-label={paused ? m.motion.play : m.motion.pause}
+                title={paused ? m.motion.play : m.motion.pause}
+                className="rounded-full p-1.5 text-white/60 hover:text-white/90 focus:outline-none focus:ring-2 focus:ring-white/20"
+              >
+                {paused ? <Play aria-hidden className="h-3.5 w-3.5" /> : <Pause aria-hidden className="h-3.5 w-3.5" />}
+              </button>
+            )}
           </motion.div>
 
           <motion.div variants={floating} className="mx-auto mt-5 flex items-center justify-center">
             <span
               className="inline-flex items-center gap-2 rounded-2xl border px-4 py-2 text-sm font-medium"
               style={{
-                border: `1px solid ${hexWithAlpha(BRAND.aqua, 0.35)}`,
-                backgroundColor: hexWithAlpha(BRAND.aqua, 0.10),
+                border: `1px solid ${hexWithAlpha(brand.aqua, 0.35)}`,
+                backgroundColor: hexWithAlpha(brand.aqua, 0.10),
                 color: '#E6FAFF',
               }}
             >
-              <span aria-hidden className="inline-block h-2 w-2 animate-pulse rounded-full" style={{ backgroundColor: BRAND.teal }} />
+              <span aria-hidden className="inline-block h-2 w-2 motion-safe:animate-pulse rounded-full" style={{ backgroundColor: brand.teal }} />
               <Sparkles className="h-4 w-4 opacity-80" />
-              Stay curious — launch imminent
+              {remaining !== null ? (
+                <span>{m.launch.countdown} <span className="tabular-nums">{formatCountdown(remaining, m.launch.units)}</span></span>
+              ) : copy.launchBadge}
             </span>
           </motion.div>
 
+          {/* Invited visitors get the beta sign-up instead of the waitlist */}
+          {invite !== null && (
+            <motion.div variants={floating}>
+              <InvitePanel
+                raw={invite.raw}
+                joined={invite.joined}
+                locale={locale}
+                m={m}
+                accent={brand.teal}
+                signIn={content.signInUrl ? { url: content.signInUrl, label: copy.signIn } : undefined}
+                onOpenTerms={() => { setShowTerms(true); track("terms_open"); }}
+              />
+            </motion.div>
+          )}
+
+          {/* After launch the waitlist gives way to a sign-in link */}
+          {launched && invite === null && (
+            <motion.div variants={floating} className="mx-auto mt-6 flex items-center justify-center">
+              <a
+                href={content.signInUrl}
+                className="rounded-xl px-5 py-3 text-sm font-medium"
+                style={{
+                  border: `1px solid ${hexWithAlpha(brand.teal,0.4)}`,
+                  backgroundColor: hexWithAlpha(brand.teal,0.12),
+                  color: '#e9fbff',
+                }}
+              >
+                {copy.signIn}
+              </a>
+            </motion.div>
+          )}
+
           {/* Interested CTA (reveals the form in-place without changing page height) */}
-          {!interestOpen && (
+          {!launched && invite === null && !interestOpen && (
             <motion.div variants={floating} className="mx-auto mt-6 flex items-center justify-center">
               <button
                 type="button"
-                onClick={() => setInterestOpen(true)}
+                onClick={() => { setInterestOpen(true); track("interest_click"); }}
                 aria-expanded={interestOpen}
                 aria-controls="interest-form"
                 className="rounded-xl px-5 py-3 text-sm font-medium"
                 style={{
-                  border: `1px solid ${hexWithAlpha(BRAND.teal,0.4)}`,
-                  backgroundColor: hexWithAlpha(BRAND.teal,0.12),
+                  border: `1px solid ${hexWithAlpha(brand.teal,0.4)}`,
+                  backgroundColor: hexWithAlpha(brand.teal,0.12),
                   color: '#e9fbff',
                 }}
               >
-                I’m interested
+                {ctaLabel}
               </button>
             </motion.div>
           )}
 
           <AnimatePresence initial={false}>
-            {interestOpen && (
+            {!launched && invite === null && interestOpen && (
               <motion.section
                 key="interest-form"
                 initial={{ opacity: 0, scale: 0.98 }}
@@ -272,7 +449,7 @@ export default function App() {
                 className="mx-auto mt-6 w-full max-w-md"
               >
                 <form onSubmit={handleSubmit} className="rounded-2xl border border-white/10 bg-white/5 p-4 shadow-sm backdrop-blur">
-                  <label htmlFor="email" className="block text-sm text-white/80">Get notified at</label>
+                  <label htmlFor="email" className="block text-sm text-white/80">{m.form.label}</label>
                   <div className="mt-2 flex gap-2">
                     <input
                       id="email"
@@ -281,36 +458,91 @@ export default function App() {
                       value={email}
                       ref={emailRef}
                       autoComplete="email"
-                      onChange={(e) => setEmail(e.target.value)}
-                      placeholder="you@school.edu"
+                      onChange={(e) => { setEmail(e.target.value); clearError("email"); }}
+                      aria-invalid={!!fieldErrors.email}
+                      aria-describedby={fieldErrors.email ? "email-error" : undefined}
+                      placeholder={m.form.emailPlaceholder}
                       className="w-full rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm text-white placeholder-white/40 outline-none focus:border-white/30"
-                      aria-label="Email address"
+                      aria-label={m.form.emailAria}
                     />
                     <button
                       type="submit"
-                      disabled={isLoading}
+                      disabled={isLoading || retryAt !== null}
                       className="shrink-0 rounded-xl px-4 py-2 text-sm font-medium disabled:cursor-not-allowed disabled:opacity-60"
                       style={{
-                        border: `1px solid ${hexWithAlpha(BRAND.teal,0.4)}`,
-                        backgroundColor: hexWithAlpha(BRAND.teal,0.12),
+                        border: `1px solid ${hexWithAlpha(brand.teal,0.4)}`,
+                        backgroundColor: hexWithAlpha(brand.teal,0.12),
                         color: `#e9fbff`,
                       }}
-                      onMouseEnter={(e) => (e.currentTarget.style.backgroundColor = hexWithAlpha(BRAND.teal,0.16))}
-                      onMouseLeave={(e) => (e.currentTarget.style.backgroundColor = hexWithAlpha(BRAND.teal,0.12))}
+                      onMouseEnter={(e) => (e.currentTarget.style.backgroundColor = hexWithAlpha(brand.teal,0.16))}
+                      onMouseLeave={(e) => (e.currentTarget.style.backgroundColor = hexWithAlpha(brand.teal,0.12))}
                     >
-                      {isLoading ? "Sending…" : "Notify me"}
+                      {isLoading ? m.form.sending : m.form.submit}
                     </button>
                   </div>
+                  <FieldError id="email-error" msg={fieldErrors.email && m.errors.email} />
+
+                  {/* Optional campus details for university pilots */}
+                  <div className="mt-3 flex gap-2">
+                    <select
+                      value={role}
+                      onChange={(e) => { setRole(e.target.value as Role | ""); clearError("role"); }}
+                      aria-label={m.form.roleAria}
+                      aria-invalid={!!fieldErrors.role}
+                      aria-describedby={fieldErrors.role ? "role-error" : undefined}
+                      className="w-2/5 rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm text-white outline-none focus:border-white/30"
+                    >
+                      <option value="">{m.form.rolePlaceholder}</option>
+                      {ROLES.map((r) => <option key={r} value={r}>{m.form.roles[r]}</option>)}
+                    </select>
+                    <input
+                      type="text"
+                      value={institution}
+                      maxLength={INSTITUTION_MAX}
+                      autoComplete="organization"
+                      onChange={(e) => { setInstitution(e.target.value); clearError("institution"); }}
+                      placeholder={m.form.institutionPlaceholder}
+                      aria-label={m.form.institutionPlaceholder}
+                      aria-invalid={!!fieldErrors.institution}
+                      aria-describedby={fieldErrors.institution ? "institution-error" : undefined}
+                      className="w-3/5 rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm text-white placeholder-white/40 outline-none focus:border-white/30"
+                    />
+                  </div>
+                  <FieldError id="role-error" msg={fieldErrors.role && m.errors.role} />
+                  <FieldError id="institution-error" msg={fieldErrors.institution && m.errors.institution} />
 
                   <div className="mt-3">
                     <textarea
                       value={note}
-                      onChange={(e) => setNote(e.target.value)}
-                      placeholder="Optional: a line about your use case"
+                      maxLength={NOTE_MAX}
+                      onChange={(e) => { setNote(e.target.value); clearError("note"); }}
+                      aria-label={m.form.noteAria}
+                      aria-invalid={!!fieldErrors.note}
+                      aria-describedby={fieldErrors.note ? "note-error" : undefined}
+                      placeholder={m.form.notePlaceholder}
                       rows={2}
                       className="w-full rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm text-white placeholder-white/40 outline-none focus:border-white/30"
                     />
                   </div>
+                  <FieldError id="note-error" msg={fieldErrors.note && m.errors.note} />
+
+                  <div className="mt-3 flex items-start gap-2 text-xs text-white/70">
+                    <input
+                      id="consent"
+                      type="checkbox"
+                      checked={consent}
+                      onChange={(e) => { setConsent(e.target.checked); clearError("consent"); }}
+                      aria-invalid={!!fieldErrors.consent}
+                      aria-describedby={fieldErrors.consent ? "consent-error" : undefined}
+                      className="mt-0.5 accent-teal-400"
+                    />
+                    <label htmlFor="consent" className="leading-snug">
+                      {m.consent.before}
+                      <button type="button" onClick={() => { setShowPrivacy(true); track("privacy_open"); }} className="underline underline-offset-2 hover:text-white">{m.consent.link}</button>
+                      {m.consent.after}
+                    </label>
+                  </div>
+                  <FieldError id="consent-error" msg={fieldErrors.consent && m.errors.consent} />
 
                   {/* Honeypot input */}
                   <input type="text" value={trap} onChange={(e) => setTrap(e.target.value)} tabIndex={-1} autoComplete="off" className="hidden" aria-hidden />
@@ -326,12 +558,12 @@ export default function App() {
                         border: `1px solid ${status.ok ? hexWithAlpha("#10B981",0.3) : hexWithAlpha("#F43F5E",0.3)}`,
                       }}
                     >
-                      {status.msg}
+                      {status.msg(m)}
                     </div>
                   )}
 
                   <p className="mt-3 text-[11px] leading-snug text-white/50">
-                    We’ll only email you about launch updates. By submitting, you agree to our privacy notice.
+                    {m.form.disclaimer}
                   </p>
                 </form>
               </motion.section>
@@ -352,55 +584,34 @@ export default function App() {
       </div>
 
       {/* FOOTER inside viewport, pinned to bottom */}
-      <footer className="absolute bottom-3 left-0 right-0 z-10 mx-auto flex w-full max-w-5xl items-center justify-between px-6 text-xs text-white/70">
+      <footer inert={modalOpen} className="absolute bottom-3 left-0 right-0 z-10 mx-auto flex w-full max-w-5xl items-center justify-between px-6 text-xs text-white/70">
         <p>© {new Date().getFullYear()} erlySense</p>
         <nav className="flex items-center gap-3">
-          <button onClick={() => setShowTerms(true)} className="rounded px-1.5 py-0.5 underline-offset-2 hover:underline focus:outline-none focus:ring-2 focus:ring-white/20">Terms</button>
+          <button onClick={() => { setShowTerms(true); track("terms_open"); }} className="rounded px-1.5 py-0.5 underline-offset-2 hover:underline focus:outline-none focus:ring-2 focus:ring-white/20">{m.footer.terms}</button>
           <span className="opacity-40">·</span>
-          <button onClick={() => setShowPrivacy(true)} className="rounded px-1.5 py-0.5 underline-offset-2 hover:underline focus:outline-none focus:ring-2 focus:ring-white/20">Privacy</button>
+          <button onClick={() => { setShowPrivacy(true); track("privacy_open"); }} className="rounded px-1.5 py-0.5 underline-offset-2 hover:underline focus:outline-none focus:ring-2 focus:ring-white/20">{m.footer.privacy}</button>
+          <span className="opacity-40">·</span>
+          <select
+            value={locale}
+            onChange={(e) => { const next = e.target.value as Locale; setLocale(next); rememberLocale(next); }}
+            aria-label={m.footer.language}
+            className="rounded bg-transparent px-1 py-0.5 text-white/70 focus:outline-none focus:ring-2 focus:ring-white/20"
+          >
+            {LOCALES.map((l) => <option key={l} value={l} lang={l} className="bg-[#0b1620]">{LOCALE_NAMES[l]}</option>)}
+          </select>
         </nav>
       </footer>
 
       {/* Legal modals (fixed overlay; do not change page height) */}
       {showTerms && (
-        <SimpleModal title="Early Access Terms" onClose={() => setShowTerms(false)}>
-          <LegalBlock>
-            <h3>Scope & Eligibility</h3>
-            <p>These Early Access Terms govern your participation in our private beta and the use of any pre-release features of erlySense (the “Service”). Participation is by invitation only and may be suspended or ended at any time.</p>
-            <h3>Confidentiality</h3>
-            <p>You agree not to disclose non-public information about the Service, including performance, features, or feedback, except to your internal team with a need to know. You may not publish benchmarks without prior written consent.</p>
-            <h3>Feedback License</h3>
-            <p>If you choose to provide feedback, you grant us a worldwide, royalty-free license to use it to improve the Service.</p>
-            <h3>Pre-Release Disclaimer</h3>
-            <p>The Service is provided “as is” and may contain defects. To the fullest extent permitted by law, we disclaim all warranties and limit liability to direct damages capped at the fees you paid for the beta, if any.</p>
-            <h3>Data & Security</h3>
-            <p>We take appropriate technical and organizational measures to protect data. Do not input personal data of children under 13 or any sensitive categories without a written agreement with us.</p>
-            <h3>Termination</h3>
-            <p>Either party may terminate beta access at any time. Upon termination you’ll stop using the pre-release features and, where applicable, delete related materials.</p>
-            <p className="text-[11px] text-white/50 mt-4">Note: This is a concise beta overview for launch-phase use. For a signed agreement, contact us.</p>
-          </LegalBlock>
+        <SimpleModal title={legalText(currentVersion("terms"), locale).title} page="/terms" m={m} onClose={() => setShowTerms(false)}>
+          <LegalDocument entry={currentVersion("terms")} locale={locale} m={m} />
         </SimpleModal>
       )}
 
       {showPrivacy && (
-        <SimpleModal title="Privacy Notice (Waitlist)" onClose={() => setShowPrivacy(false)}>
-          <LegalBlock>
-            <h3>What we collect</h3>
-            <p>When you join the waitlist, we collect your email and any optional note you provide. We also store the date/time and approximate region derived from network information.</p>
-            <h3>How we use it</h3>
-            <p>We use your details to send launch updates and—if you opt in—beta invitations. We do not sell your personal data. You can opt out at any time via the unsubscribe link in our emails.</p>
-            <h3>Legal basis</h3>
-            <p>For users in the EU/UK, our processing is based on your consent for marketing updates. You may withdraw consent at any time.</p>
-            <h3>Retention</h3>
-            <p>We retain waitlist data until general availability or until you unsubscribe—whichever occurs first—unless a longer period is required by law.</p>
-            <h3>Your rights</h3>
-            <p>Where applicable, you may request access, correction, deletion, or objection to processing. Contact us using the details below.</p>
-            <h3>Children</h3>
-            <p>We do not knowingly collect personal information from children under 13. If you believe a child provided information, contact us and we will delete it.</p>
-            <h3>Contact</h3>
-            <p>Questions or requests: <a className="underline" href="mailto:privacy@erlysense.com">privacy@erlysense.com</a></p>
-            <p className="text-[11px] text-white/50 mt-4">This notice is for the waitlist/coming-soon page only and will be replaced by a full policy at GA.</p>
-          </LegalBlock>
+        <SimpleModal title={legalText(currentVersion("privacy"), locale).title} page="/privacy" m={m} onClose={() => setShowPrivacy(false)}>
+          <LegalDocument entry={currentVersion("privacy")} locale={locale} m={m} rights={<DataRequestForm m={m} />} />
         </SimpleModal>
       )}
     </div>
@@ -408,8 +619,14 @@ export default function App() {
 }
 
 // ——— UI primitives for legal modals ———
-function SimpleModal({ title, onClose, children }: { title: string; onClose: () => void; children: React.ReactNode }) {
+function SimpleModal({ title, page, m, onClose, children }: { title: string; page: string; m: Messages; onClose: () => void; children: React.ReactNode }) {
   const containerRef = React.useRef<HTMLDivElement | null>(null);
+  const titleId = React.useId();
+  // Whatever opened the modal gets focus back when it closes
+  React.useEffect(() => {
+    const trigger = document.activeElement as HTMLElement | null;
+    return () => trigger?.focus();
+  }, []);
   React.useEffect(() => {
     const onKey = (e: KeyboardEvent) => {
       if (e.key === 'Escape') onClose();
@@ -434,12 +651,15 @@ function SimpleModal({ title, onClose, children }: { title: string; onClose: ()
   }, [onClose]);
 
   return (
-    <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center" role="dialog" aria-modal="true" aria-labelledby="modal-title">
+    <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center" role="dialog" aria-modal="true" aria-labelledby={titleId}>
       <div className="absolute inset-0 bg-black/60" onClick={onClose} />
       <div ref={containerRef} className="relative z-10 m-4 w-full max-w-2xl overflow-hidden rounded-2xl border border-white/10 bg-[#0b1620]/95 p-0 shadow-xl backdrop-blur">
         <div className="flex items-center justify-between border-b border-white/10 px-4 py-3">
-          <h2 id="modal-title" className="text-sm font-semibold">{title}</h2>
-          <button onClick={onClose} className="rounded px-2 py-1 text-white/70 hover:text-white/90 focus:outline-none focus:ring-2 focus:ring-white/20">Close</button>
+          <h2 id={titleId} className="text-sm font-semibold">{title}</h2>
+          <div className="flex items-center gap-1">
+            <a href={page} className="rounded px-2 py-1 text-xs text-white/60 underline-offset-2 hover:underline focus:outline-none focus:ring-2 focus:ring-white/20">{m.legal.openPage}</a>
+            <button onClick={onClose} className="rounded px-2 py-1 text-white/70 hover:text-white/90 focus:outline-none focus:ring-2 focus:ring-white/20">{m.close}</button>
+          </div>
         </div>
         <div className="max-h-[70vh] overflow-y-auto p-4 text-[13px] leading-relaxed text-white/90">
           {children}
@@ -449,15 +669,172 @@ function SimpleModal({ title, onClose, children }: { title: string; onClose: ()
   );
 }
 
-function LegalBlock({ children }: { children: React.ReactNode }) {
+// ——— Beta invitation (?invite=CODE) ———
+// Checks the code, takes the Early Access Terms acceptance and activates the waitlist record
+type InviteView =
+  | { step: "checking" }
+  | { step: "ready"; needsEmail: boolean; expiresAt: string }
+  | { step: "emailed" }
+  | { step: "done"; returning: boolean }
+  | { step: "problem"; problem: InviteProblem | "error" };
+
+function InvitePanel({ raw, joined, locale, m, accent, signIn, onOpenTerms }: {
+  raw: string;
+  joined?: Joined;
+  locale: Locale;
+  m: Messages;
+  accent: string;
+  signIn?: { url: string; label: string };
+  onOpenTerms: () => void;
+}) {
+  const code = normalizeInviteCode(raw);
+  const [view, setView] = React.useState<InviteView>(
+    !code ? { step: "problem", problem: "invalid" } : joined ? { step: "done", returning: joined === "returning" } : { step: "checking" },
+  );
+  const [email, setEmail] = React.useState("");
+  const [accept, setAccept] = React.useState(false);
+  const [errors, setErrors] = React.useState<{ email?: boolean; accept?: boolean }>({});
+  const [notice, setNotice] = React.useState<StatusLine | null>(null);
+  const [isLoading, setIsLoading] = React.useState(false);
+  const buttonStyle = { border: `1px solid ${hexWithAlpha(accent, 0.4)}`, backgroundColor: hexWithAlpha(accent, 0.12), color: "#e9fbff" };
+
+  React.useEffect(() => {
+    if (!code || joined) return;
+    fetch(`${INVITE_ENDPOINT}?code=${encodeURIComponent(code)}`, { headers: { Accept: "application/json" } })
+      .then((r) => r.json())
+      .then((body: InviteCheckResponse) => setView(body.ok
+        ? { step: "ready", needsEmail: body.needsEmail, expiresAt: body.expiresAt }
+        : { step: "problem", problem: body.problem || "error" }))
+      .catch((err) => {
+        log.warn("Invite check failed", { err });
+        setView({ step: "problem", problem: "error" });
+      });
+  }, [code, joined]);
+
+  async function redeem(e: React.FormEvent) {
+    e.preventDefault();
+    if (view.step !== "ready" || !code) return;
+    const checked = validateRedemption({ code, email: view.needsEmail ? email : undefined, accept, termsVersion: CURRENT_VERSIONS.terms, locale });
+    const missingEmail = view.needsEmail && !email.trim();
+    if (!checked.ok || missingEmail) {
+      setErrors({ email: missingEmail || (!checked.ok && !!checked.errors.email), accept: !checked.ok && !!checked.errors.accept });
+      if (!checked.ok && checked.errors._form) setNotice({ ok: false, msg: (t) => t.errors.form });
+      return;
+    }
+    try {
+      setIsLoading(true); setNotice(null); setErrors({});
+      const res = await fetch(INVITE_ENDPOINT, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(checked.value),
+      });
+      const body: RedeemResponse | null = await res.json().catch(() => null);
+      if (body?.ok) {
+        setView("emailed" in body ? { step: "emailed" } : { step: "done", returning: body.returning });
+        return;
+      }
+      if (res.status === 429) {
+        const wait = Number(res.headers.get("Retry-After")) || 60;
+        setNotice({ ok: false, msg: (t) => t.status.rateLimited(formatWait(wait, t.wait)) });
+        return;
+      }
+      if (body?.problem) {
+        setView({ step: "problem", problem: body.problem });
+        return;
+      }
+      if (res.status === 400 && body?.fields) {
+        const fields = body.fields;
+        setErrors({ email: !!fields.email, accept: !!fields.accept });
+        if (fields._form) setNotice({ ok: false, msg: (t) => t.errors.form });
+        return;
+      }
+      log.warn("Invite redeem failed", { status: res.status, requestId: body?.requestId });
+      setNotice({ ok: false, msg: (t) => t.invite.problems.error });
+    } catch (err) {
+      log.warn("Invite redeem failed", { err });
+      setNotice({ ok: false, msg: (t) => t.invite.problems.error });
+    } finally { setIsLoading(false); }
+  }
+
   return (
-    <div className="prose prose-invert prose-sm max-w-none">
-      {children}
-      <style>{`.prose h3{font-size:0.95rem;margin-top:1rem;margin-bottom:0.35rem}.prose p{margin:0.4rem 0}.prose a{color:#a6e8ff}`}</style>
-    </div>
+    <section aria-labelledby="invite-heading" className="mx-auto mt-6 w-full max-w-md rounded-2xl border border-white/10 bg-white/5 p-4 text-sm shadow-sm backdrop-blur">
+      <h2 id="invite-heading" className="font-medium text-white">{m.invite.heading}</h2>
+
+      {view.step === "checking" && <p role="status" className="mt-2 text-white/70">{m.invite.checking}</p>}
+
+      {view.step === "problem" && <p role="alert" className="mt-2 text-rose-200">{m.invite.problems[view.problem]}</p>}
+
+      {view.step === "emailed" && <p role="status" className="mt-2 text-emerald-100">{m.invite.emailed}</p>}
+
+      {view.step === "done" && (
+        <div role="status" className="mt-2">
+          <p className="text-emerald-100">{view.returning ? m.invite.returning : m.invite.activated}</p>
+          {signIn ? (
+            <a href={signIn.url} className="mt-3 inline-block rounded-xl px-4 py-2 font-medium" style={buttonStyle}>{signIn.label}</a>
+          ) : (
+            <p className="mt-1 text-white/60">{m.invite.signInLater}</p>
+          )}
+        </div>
+      )}
+
+      {view.step === "ready" && (
+        <form onSubmit={redeem} noValidate className="mt-2">
+          <p className="text-white/80">{m.invite.intro}</p>
+          <p className="mt-1 text-xs text-white/60">{m.invite.expires(new Date(view.expiresAt).toLocaleDateString(locale, { dateStyle: "long" }))}</p>
+
+          {view.needsEmail && (
+            <>
+              <label htmlFor="invite-email" className="mt-3 block text-white/80">{m.invite.emailLabel}</label>
+              <input
+                id="invite-email"
+                type="email"
+                value={email}
+                autoComplete="email"
+                onChange={(e) => { setEmail(e.target.value); setErrors((prev) => ({ ...prev, email: false })); }}
+                aria-invalid={!!errors.email}
+                aria-describedby={errors.email ? "invite-email-error" : undefined}
+                placeholder={m.form.emailPlaceholder}
+                className="mt-2 w-full rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm text-white placeholder-white/40 outline-none focus:border-white/30"
+              />
+              <FieldError id="invite-email-error" msg={errors.email ? m.invite.errors.email : undefined} />
+            </>
+          )}
+
+          <div className="mt-3 flex items-start gap-2 text-xs text-white/70">
+            <input
+              id="invite-accept"
+              type="checkbox"
+              checked={accept}
+              onChange={(e) => { setAccept(e.target.checked); setErrors((prev) => ({ ...prev, accept: false })); }}
+              aria-invalid={!!errors.accept}
+              aria-describedby={errors.accept ? "invite-accept-error" : undefined}
+              className="mt-0.5 accent-teal-400"
+            />
+            <label htmlFor="invite-accept" className="leading-snug">
+              {m.invite.accept.before}
+              <button type="button" onClick={onOpenTerms} className="underline underline-offset-2 hover:text-white">{legalText(currentVersion("terms"), locale).title}</button>
+              {m.invite.accept.after}
+            </label>
+          </div>
+          <FieldError id="invite-accept-error" msg={errors.accept ? m.invite.errors.accept : undefined} />
+
+          {notice && <p role="alert" className="mt-3 text-xs text-rose-200">{notice.msg(m)}</p>}
+
+          <button type="submit" disabled={isLoading} className="mt-3 w-full rounded-xl px-4 py-2 font-medium disabled:cursor-not-allowed disabled:opacity-60" style={buttonStyle}>
+            {isLoading ? m.invite.sending : m.invite.submit}
+          </button>
+        </form>
+      )}
+    </section>
   );
 }
 
+// Inline message under a form control; the control points at it via aria-describedby
+function FieldError({ id, msg }: { id: string; msg?: string }) {
+  if (!msg) return null;
+  return <p id={id} className="mt-1 text-xs text-rose-200">{msg}</p>;
+}
+
 function TeaserPill({ label, color }: { label: string; color: string }) {
   return (
     <span
@@ -473,6 +850,13 @@ function TeaserPill({ label, color }: { label: string; color: string }) {
   );
 }
 
+// Human-friendly Retry-After ("45 seconds", "3 minutes") in the visitor's language
+function formatWait(seconds: number, w: Messages["wait"] = en.wait) {
+  if (seconds < 60) return w.seconds(seconds);
+  const minutes = Math.ceil(seconds / 60);
+  return minutes === 1 ? w.minute : w.minutes(minutes);
+}
+
 // Utility to add alpha to a hex color
 function hexWithAlpha(hex: string, alpha: number) {
   const a = Math.max(0, Math.min(1, alpha));
@@ -494,4 +878,6 @@ if (typeof import.meta !== "undefined" && (import.meta as any).env && (import.me
   console.assert(hexWithAlpha("#FFF", 0.5) === "rgba(255, 255, 255, 0.5)", "hexWithAlpha: 3-digit expansion");
   console.assert(hexWithAlpha("#123456", -1).endsWith(", 0)"), "hexWithAlpha: clamps low alpha to 0");
   console.assert(hexWithAlpha("#123456", 2).endsWith(", 1)"), "hexWithAlpha: clamps high alpha to 1");
+  console.assert(formatWait(45) === "45 seconds", "formatWait: seconds under a minute");
+  console.assert(formatWait(61) === "2 minutes", "formatWait: rounds up to whole minutes");
 }
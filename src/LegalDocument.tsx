@@ -0,0 +1,86 @@
+import React from "react";
+import type { Messages } from "./i18n";
+import { legalText, type LegalVersion } from "./legal";
+import type { Locale } from "./shared/locale";
+import { isValidEmail } from "./shared/interest";
+
+/**
+ * Legal text rendering shared by the landing-page modals and the standalone /terms and /privacy pages.
+ * The text comes from a versioned content file (src/legal); only the chrome comes from the catalog.
+ */
+
+const PRIVACY_EMAIL = "privacy@erlysense.com";
+
+// Self-service access/erasure: the server emails a magic link, so we never reveal whether an address is on file
+const PRIVACY_REQUEST_ENDPOINT = "/api/privacy/request";
+
+export function DataRequestForm({ m }: { m: Messages }) {
+  const [email, setEmail] = React.useState("");
+  const [busy, setBusy] = React.useState(false);
+  const [msg, setMsg] = React.useState<string | null>(null);
+
+  async function send(action: "export" | "delete") {
+    if (!isValidEmail(email)) { setMsg(m.errors.email); return; }
+    setBusy(true); setMsg(null);
+    try {
+      const res = await fetch(PRIVACY_REQUEST_ENDPOINT, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email, action }),
+      });
+      if (res.status === 429) { setMsg(m.dataRequest.tooMany); return; }
+      if (!res.ok) throw new Error("Network error");
+      setMsg(m.dataRequest.sent);
+    } catch {
+      setMsg(m.status.error);
+    } finally { setBusy(false); }
+  }
+
+  return (
+    <div className="not-prose mt-2 rounded-xl border border-white/10 bg-black/20 p-3">
+      <label htmlFor="dsr-email" className="block text-xs text-white/70">{m.dataRequest.label}</label>
+      <div className="mt-2 flex flex-wrap gap-2">
+        <input
+          id="dsr-email"
+          type="email"
+          value={email}
+          autoComplete="email"
+          onChange={(e) => setEmail(e.target.value)}
+          className="min-w-0 flex-1 rounded-xl border border-white/10 bg-black/30 px-3 py-1.5 text-sm text-white placeholder-white/40 outline-none focus:border-white/30"
+        />
+        <button type="button" disabled={busy} onClick={() => send("export")} className="rounded-xl border border-white/15 px-3 py-1.5 text-xs disabled:opacity-60">{m.dataRequest.download}</button>
+        <button type="button" disabled={busy} onClick={() => send("delete")} className="rounded-xl border border-white/15 px-3 py-1.5 text-xs disabled:opacity-60">{m.dataRequest.delete}</button>
+      </div>
+      {msg && <p role="status" aria-live="polite" className="mt-2 text-xs text-white/70">{msg}</p>}
+    </div>
+  );
+}
+
+// One version of a legal text; `rights` is the self-service control shown under "Your rights"
+export function LegalDocument({ entry, locale, m, rights }: { entry: LegalVersion; locale: Locale; m: Messages; rights?: React.ReactNode }) {
+  const doc = legalText(entry, locale);
+  return (
+    <LegalBlock>
+      <p className="text-[11px] text-white/50">{m.legal.version} {entry.version} · {entry.effective}</p>
+      {doc.sections.map((section) => (
+        <React.Fragment key={section.heading}>
+          <h3>{section.heading}</h3>
+          <p>
+            {section.body}
+            {section.id === "contact" && <> <a className="underline" href={`mailto:${PRIVACY_EMAIL}`}>{PRIVACY_EMAIL}</a></>}
+          </p>
+          {section.id === "rights" && rights}
+        </React.Fragment>
+      ))}
+      <p className="text-[11px] text-white/50 mt-4">{doc.note}</p>
+    </LegalBlock>
+  );
+}
+
+function LegalBlock({ children }: { children: React.ReactNode }) {
+  return (
+    <div className="prose prose-invert prose-sm max-w-none">
+      {children}
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+import React from "react";
+import { BRAND } from "./shared/brand";
+import { MESSAGES, applyDocumentLocale, detectLocale } from "./i18n";
+import { currentVersion, findVersion, legalText, type LegalDocId } from "./legal";
+import { DataRequestForm, LegalDocument } from "./LegalDocument";
+
+/**
+ * erlySense — standalone legal pages (/terms, /privacy)
+ * - Shows the current version by default; ?version=<version> opens an archived one
+ * - Linkable from emails and the consent checkbox without loading the landing page's modal state
+ */
+
+export default function LegalPage({ doc }: { doc: LegalDocId }) {
+  const [locale] = React.useState(detectLocale);
+  const m = MESSAGES[locale];
+  React.useEffect(() => { applyDocumentLocale(locale); }, [locale]);
+
+  const requested = React.useMemo(() => new URLSearchParams(window.location.search).get("version"), []);
+  const current = currentVersion(doc);
+  const entry = requested ? findVersion(doc, requested) : current;
+  const older = !!entry && entry.version !== current.version;
+
+  React.useEffect(() => {
+    if (entry) document.title = `${legalText(entry, locale).title} — erlySense`;
+  }, [entry, locale]);
+
+  return (
+    <div className="min-h-[100dvh] px-6 py-10 text-white" style={{ background: `linear-gradient(180deg, ${BRAND.ink} 0%, ${BRAND.deep} 100%)` }}>
+      <main className="mx-auto w-full max-w-2xl rounded-2xl border border-white/10 bg-white/5 p-6 text-[13px] leading-relaxed text-white/90 backdrop-blur">
+        <a href="/" className="text-xs text-white/60 underline-offset-2 hover:underline">{m.legal.back}</a>
+
+        {!entry && <p role="alert" className="mt-4 text-sm text-rose-200">{m.legal.notFound} <a href={`/${doc}`} className="underline">{m.legal.seeCurrent}</a></p>}
+
+        {entry && (
+          <>
+            <h1 className="mt-3 text-lg font-semibold">{legalText(entry, locale).title}</h1>
+            {older && (
+              <p className="mt-2 rounded-xl border border-amber-300/20 bg-amber-300/10 px-3 py-2 text-xs text-amber-100">
+                {m.legal.older} <a href={`/${doc}`} className="underline">{m.legal.seeCurrent}</a>
+              </p>
+            )}
+            <div className="mt-3">
+              <LegalDocument entry={entry} locale={locale} m={m} rights={doc === "privacy" && !older ? <DataRequestForm m={m} /> : undefined} />
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
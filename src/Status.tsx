@@ -0,0 +1,88 @@
+import React from "react";
+import { Sparkles } from "lucide-react";
+import { BRAND } from "./shared/brand";
+
+/**
+ * erlySense — subscriber status (/status?token=…)
+ * - Reached from the confirmation redirect or the welcome email
+ * - Queue position and referral count come from /api/status; nothing is computed here
+ */
+
+const STATUS_ENDPOINT = "/api/status";
+
+interface StatusBody {
+  email: string;
+  position: number | null;
+  total: number | null;
+  referrals: number;
+  referralUrl: string;
+}
+
+export default function Status() {
+  const params = React.useMemo(() => new URLSearchParams(window.location.search), []);
+  const token = params.get("token") || "";
+  const justConfirmed = params.get("confirmed") === "1";
+  const [data, setData] = React.useState<StatusBody | null>(null);
+  const [error, setError] = React.useState<string | null>(token ? null : "This status link is incomplete.");
+  const [copied, setCopied] = React.useState(false);
+
+  React.useEffect(() => {
+    if (!token) return;
+    fetch(`${STATUS_ENDPOINT}?token=${encodeURIComponent(token)}`)
+      .then(async (r) => {
+        const body = await r.json().catch(() => ({}));
+        if (!r.ok) throw new Error(body.error || "Something went wrong.");
+        setData(body);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : String(err)));
+  }, [token]);
+
+  async function copy() {
+    if (!data) return;
+    try {
+      await navigator.clipboard.writeText(data.referralUrl);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      setCopied(false);
+    }
+  }
+
+  return (
+    <div className="flex min-h-[100dvh] items-center justify-center px-6 text-white" style={{ background: `linear-gradient(180deg, ${BRAND.ink} 0%, ${BRAND.deep} 100%)` }}>
+      <main className="w-full max-w-md rounded-2xl border border-white/10 bg-white/5 p-6 text-center backdrop-blur">
+        <div className="mx-auto mb-3 flex h-12 w-12 items-center justify-center rounded-2xl bg-white/5 ring-1 ring-white/10">
+          <Sparkles className="h-6 w-6" />
+        </div>
+        {justConfirmed && !error && <p className="mb-2 text-sm text-emerald-200">You’re confirmed — welcome to the waitlist!</p>}
+
+        {error && <p role="alert" className="text-sm text-rose-200">{error}</p>}
+        {!error && !data && <p className="text-sm text-white/70">Checking your place in line…</p>}
+
+        {data && (
+          <>
+            <p className="text-sm text-white/70">Your place in line</p>
+            <p className="mt-1 text-5xl font-semibold" style={{ color: BRAND.aqua }}>
+              {data.position ? `#${data.position}` : "—"}
+            </p>
+            {data.total && <p className="mt-1 text-xs text-white/50">of {data.total} on the waitlist</p>}
+
+            <p className="mt-5 text-sm text-white/80">
+              {data.referrals === 0
+                ? "Share your link — every friend who confirms moves you up."
+                : `${data.referrals} ${data.referrals === 1 ? "friend has" : "friends have"} joined through your link.`}
+            </p>
+            <div className="mt-3 flex gap-2">
+              <input readOnly value={data.referralUrl} aria-label="Your referral link" onFocus={(e) => e.currentTarget.select()} className="w-full rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-xs text-white outline-none" />
+              <button type="button" onClick={copy} className="shrink-0 rounded-xl border border-white/15 px-3 py-2 text-xs font-medium hover:bg-white/10">
+                {copied ? "Copied" : "Copy"}
+              </button>
+            </div>
+          </>
+        )}
+
+        <a href="/" className="mt-6 inline-block text-xs text-white/60 underline-offset-2 hover:underline">Back to erlySense</a>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+// ---- Dev-only accessibility audit ----
+// Runs axe-core against whatever is on screen: once after the first render, then again whenever
+// the DOM settles after a change (a modal opens, the interest form appears, an error shows up).
+// Violations go to the console, each one reported once per page load. Never loaded in production:
+// main.tsx imports this module behind the DEV flag, so axe stays out of the built bundle.
+
+const SETTLE_MS = 1000;
+
+export async function startAccessibilityAudit() {
+  const { default: axe } = await import("axe-core");
+  const seen = new Set<string>();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let running = false;
+
+  const run = async () => {
+    if (running) { schedule(); return; }
+    running = true;
+    try {
+      const { violations } = await axe.run(document, { resultTypes: ["violations"] });
+      for (const v of violations) {
+        const fresh = v.nodes.filter((n) => {
+          const key = `${v.id} ${n.target.join(" ")}`;
+          if (seen.has(key)) return false;
+          seen.add(key);
+          return true;
+        });
+        if (!fresh.length) continue;
+        console.warn(`[a11y] ${v.impact ?? "minor"}: ${v.help} (${v.id})\n${v.helpUrl}`, fresh.map((n) => n.target.join(" ")));
+      }
+    } catch (err) {
+      console.error("[a11y] audit failed:", err);
+    } finally {
+      running = false;
+    }
+  };
+
+  function schedule() {
+    clearTimeout(timer);
+    timer = setTimeout(run, SETTLE_MS);
+  }
+
+  // The rotating headline and the countdown keep this busy too; the "seen" set keeps the console quiet
+  new MutationObserver(schedule).observe(document.body, { childList: true, subtree: true, attributes: true, attributeFilter: ["aria-expanded", "aria-invalid", "role", "inert", "hidden"] });
+  schedule();
+}
@@ -0,0 +1,59 @@
+import { pickUtm, type AnalyticsEvent, type EventPayload, type Utm } from "./shared/analytics";
+import { reportedAssignment, takeFreshAssignment } from "./experiments";
+
+// ---- Cookieless funnel events ----
+// Fire-and-forget beacons to /api/events. Nothing is stored on the device except the visit's
+// utm_* tags in sessionStorage, so a conversion later in the tab is still attributed, and the
+// visitor's A/B variants (see experiments.ts), so each event counts toward its variant.
+
+const EVENTS_ENDPOINT = "/api/events";
+const UTM_KEY = "erlysense.utm";
+
+// Do Not Track and Global Privacy Control both mean "don't count me"
+export function trackingAllowed() {
+  if (typeof navigator === "undefined") return false;
+  const nav = navigator as Navigator & { globalPrivacyControl?: boolean };
+  const win = window as Window & { doNotTrack?: string };
+  if (nav.globalPrivacyControl === true) return false;
+  return nav.doNotTrack !== "1" && win.doNotTrack !== "1";
+}
+
+function visitUtm(): Utm {
+  try {
+    const fromUrl = pickUtm(new URLSearchParams(window.location.search));
+    if (Object.keys(fromUrl).length) {
+      sessionStorage.setItem(UTM_KEY, JSON.stringify(fromUrl));
+      return fromUrl;
+    }
+    return pickUtm(JSON.parse(sessionStorage.getItem(UTM_KEY) || "{}"));
+  } catch {
+    return {};
+  }
+}
+
+export function track(event: AnalyticsEvent) {
+  if (!trackingAllowed()) return;
+  send(event, reportedAssignment());
+}
+
+// Counts a browser the first time it is dealt variants: the experiment report's trials are
+// visitors, not page views. Carries only the new variants, so adding an experiment later
+// doesn't count everyone again for the old ones.
+export function trackNewVisitor() {
+  if (!trackingAllowed()) return;
+  const exp = takeFreshAssignment();
+  if (Object.keys(exp).length) send("visitor", exp);
+}
+
+function send(event: AnalyticsEvent, exp: EventPayload["exp"]) {
+  const utm = visitUtm();
+  const payload: EventPayload = { event, exp, ...(Object.keys(utm).length ? { utm } : {}) };
+  const body = JSON.stringify(payload);
+  try {
+    // sendBeacon survives navigation; fall back to a keepalive fetch where it's missing or refuses
+    if (navigator.sendBeacon && navigator.sendBeacon(EVENTS_ENDPOINT, new Blob([body], { type: "application/json" }))) return;
+    fetch(EVENTS_ENDPOINT, { method: "POST", headers: { "Content-Type": "application/json" }, body, keepalive: true }).catch(() => {});
+  } catch {
+    // analytics must never break the page
+  }
+}
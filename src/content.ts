@@ -0,0 +1,69 @@
+import React from "react";
+import type { Messages } from "./i18n";
+import { DEFAULT_CONTENT, validateLandingContent, type LandingContent } from "./shared/content";
+import type { Locale } from "./shared/locale";
+
+// ---- Landing content (client) ----
+// Starts from the built-in default so the page renders immediately, then swaps in the published
+// config from /api/content. ?preview=<id> loads an admin draft instead.
+
+const CONTENT_ENDPOINT = "/api/content";
+
+export function useLandingContent() {
+  const [preview] = React.useState(() => new URLSearchParams(window.location.search).get("preview"));
+  const [content, setContent] = React.useState<LandingContent>(DEFAULT_CONTENT);
+
+  React.useEffect(() => {
+    const url = preview ? `${CONTENT_ENDPOINT}?preview=${encodeURIComponent(preview)}` : CONTENT_ENDPOINT;
+    fetch(url, { headers: { Accept: "application/json" } })
+      .then((r) => r.json())
+      .then((body: { content?: unknown }) => {
+        // Never trust the wire blindly: a bad config keeps the default rather than breaking the page
+        const result = validateLandingContent(body.content);
+        if (result.ok) setContent(result.value);
+      })
+      .catch(() => { /* keep the default */ });
+  }, [preview]);
+
+  return { content, preview: !!preview };
+}
+
+export type LandingCopy = Pick<Messages, "anticipated" | "voices" | "pills" | "tagline" | "launchBadge" | "cta"> & { signIn: string };
+
+// The config's copy for this language over the catalog's
+export function landingCopy(m: Messages, content: LandingContent, locale: Locale): LandingCopy {
+  const o = content.copy[locale] || {};
+  return {
+    anticipated: o.anticipated ?? m.anticipated,
+    voices: o.voices ?? m.voices,
+    pills: o.pills ?? m.pills,
+    tagline: o.tagline ?? m.tagline,
+    launchBadge: o.launchBadge ?? m.launchBadge,
+    cta: o.cta ?? m.cta,
+    signIn: o.signIn ?? m.launch.signIn,
+  };
+}
+
+// Milliseconds until `iso`, ticking once a second; null when there is no date or it has passed
+export function useCountdown(iso: string | undefined) {
+  const target = iso ? Date.parse(iso) : NaN;
+  const [now, setNow] = React.useState(Date.now);
+  const live = Number.isFinite(target) && target > now;
+
+  React.useEffect(() => {
+    if (!live) return;
+    const id = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(id);
+  }, [live]);
+
+  return live ? target - now : null;
+}
+
+// "3d 04h 12m 09s" with the catalog's unit letters; days are dropped once under a day
+export function formatCountdown(ms: number, units: Messages["launch"]["units"]) {
+  const s = Math.floor(ms / 1000);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  const d = Math.floor(s / 86400), h = Math.floor(s / 3600) % 24, min = Math.floor(s / 60) % 60, sec = s % 60;
+  const rest = `${pad(h)}${units.hours} ${pad(min)}${units.minutes} ${pad(sec)}${units.seconds}`;
+  return d > 0 ? `${d}${units.days} ${rest}` : rest;
+}
@@ -0,0 +1,81 @@
+import { EXPERIMENTS, EXPERIMENT_IDS, isVariant, pickAssignment, type Assignment, type ExperimentId } from "./shared/experiments";
+
+// ---- A/B variant assignment ----
+// Each visitor is dealt one variant per experiment, uniformly at random, and keeps it: the
+// assignment is stored first-party in localStorage (no cookie, nothing server-side until they
+// sign up). ?exp=cta:notify,form:open forces variants for QA without touching the stored ones;
+// the tab is then marked as forced and reports no variants, so QA never skews the results.
+
+const EXP_KEY = "erlysense.exp";
+const FORCED_KEY = "erlysense.exp-forced";
+
+let cached: Assignment | null = null;
+// Variants dealt (and stored) on this page load, for the once-per-visitor "visitor" event
+let fresh: Assignment = {};
+
+function readStored(): Assignment {
+  try { return pickAssignment(JSON.parse(localStorage.getItem(EXP_KEY) || "{}")); } catch { return {}; }
+}
+
+function overrides(): Assignment {
+  const raw: Record<string, string> = {};
+  const param = new URLSearchParams(window.location.search).get("exp") || "";
+  for (const pair of param.split(",")) {
+    const [id, variant] = pair.split(":");
+    if (id && variant) raw[id] = variant;
+  }
+  return pickAssignment(raw);
+}
+
+// Forced once, forced for the rest of the tab: later pages without ?exp are still QA
+function forced() {
+  const forcedNow = Object.keys(overrides()).length > 0;
+  try {
+    if (forcedNow) sessionStorage.setItem(FORCED_KEY, "1");
+    return forcedNow || sessionStorage.getItem(FORCED_KEY) === "1";
+  } catch {
+    return forcedNow;
+  }
+}
+
+// The variants this page shows
+export function assignment(): Assignment {
+  if (cached) return cached;
+  const stored = readStored();
+  const dealt: Record<string, string> = { ...stored };
+  const newly: Record<string, string> = {};
+  for (const id of EXPERIMENT_IDS) {
+    if (dealt[id]) continue;
+    const variants = EXPERIMENTS[id];
+    dealt[id] = newly[id] = variants[Math.floor(Math.random() * variants.length)];
+  }
+  // Storage can be blocked; the visitor then just gets a fresh deal per page load, and isn't
+  // reported as new each time. A forced tab keeps nothing, so the browser's first real visit
+  // is still dealt, and counted, like anyone else's.
+  if (!forced()) {
+    try {
+      localStorage.setItem(EXP_KEY, JSON.stringify(dealt));
+      fresh = newly as Assignment;
+    } catch { /* not fatal */ }
+  }
+  cached = { ...(dealt as Assignment), ...overrides() };
+  return cached;
+}
+
+export function variantOf<E extends ExperimentId>(experiment: E) {
+  const v = assignment()[experiment];
+  return isVariant(experiment, v) ? v : EXPERIMENTS[experiment][0];
+}
+
+// The variants events and signups count toward: none in a forced tab
+export function reportedAssignment(): Assignment {
+  return forced() ? {} : assignment();
+}
+
+// Hands out the newly dealt variants once; empty for a returning visitor and in a forced tab
+export function takeFreshAssignment(): Assignment {
+  assignment();
+  const out = fresh;
+  fresh = {};
+  return out;
+}
@@ -0,0 +1,121 @@
+import type { Messages } from "./types";
+
+export const ar: Messages = {
+  logoAlt: "شعار erlySense",
+  anticipated: "مُرتقَب",
+  voices: ["قريبًا", "بهدوء", "بخصوصية", "برفق", "بثبات", "وشيكًا"],
+  pills: [
+    ["نسخة تجريبية خاصة", "المعالجة على الجهاز أولًا", "الخصوصية منذ التصميم"],
+    ["للمؤسسين فقط", "ذكاء اصطناعي على الجهاز", "مقاوم للضوضاء"],
+    ["جاهز للجامعات", "زمن استجابة منخفض", "الإطلاق وشيك"],
+  ],
+  tagline: "خطوة مبتكرة نحو رفاه استباقي للطلاب. أما الآن، فمجرد همسة.",
+  launchBadge: "ابقَ فضوليًا — الإطلاق وشيك",
+  cta: "أنا مهتم",
+
+  form: {
+    label: "أعلمني على",
+    emailAria: "البريد الإلكتروني",
+    emailPlaceholder: "you@university.edu",
+    submit: "أعلمني",
+    sending: "جارٍ الإرسال…",
+    rolePlaceholder: "أنا… (اختياري)",
+    roleAria: "دورك (اختياري)",
+    roles: {
+      student: "طالب/ة",
+      counselor: "مرشد/ة",
+      administrator: "إداري/ة",
+      researcher: "باحث/ة",
+    },
+    institutionPlaceholder: "المؤسسة (اختياري)",
+    noteAria: "ملاحظة (اختياري)",
+    notePlaceholder: "اختياري: سطر عن طريقة استخدامك",
+    disclaimer: "لن نراسلك إلا بشأن الإطلاق. يمكنك إلغاء الاشتراك في أي وقت.",
+  },
+
+  errors: {
+    email: "يُرجى إدخال بريد إلكتروني صالح.",
+    role: "يُرجى اختيار أحد الأدوار المدرجة.",
+    institution: "يُرجى التحقق من اسم المؤسسة.",
+    note: "يُرجى ألا تتجاوز الملاحظة 500 حرف.",
+    form: "انتهت صلاحية النموذج. يُرجى إعادة تحميل الصفحة والمحاولة مجددًا.",
+    consent: "يُرجى تحديد المربع للموافقة على إشعار الخصوصية.",
+  },
+
+  status: {
+    tooFast: "مهلًا، كان ذلك سريعًا! انتظر لحظة ثم حاول مجددًا.",
+    rateLimited: (wait) => `محاولات كثيرة جدًا. يُرجى المحاولة مجددًا بعد ${wait}.`,
+    pending: "أوشكت على الانتهاء — افحص بريدك الوارد وانقر الرابط لتأكيد بريدك الإلكتروني.",
+    returningPending: "أنت مسجَّل بالفعل — أعدنا إرسال رسالة التأكيد.",
+    returningConfirmed: "أنت على القائمة بالفعل — سنتواصل معك.",
+    queued: "أنت غير متصل — حفظنا تسجيلك وسنرسله فور عودتك إلى الاتصال.",
+    error: "حدث خطأ ما. يُرجى المحاولة مجددًا.",
+    confirm: {
+      expired: "انتهت صلاحية رابط التأكيد. يُرجى التسجيل مجددًا.",
+      invalid: "رابط التأكيد غير صالح. يُرجى التسجيل مجددًا.",
+      error: "تعذّر تأكيد بريدك الإلكتروني الآن. يُرجى فتح الرابط مجددًا.",
+    },
+  },
+
+  wait: {
+    seconds: (n) => `${n} ثانية`,
+    minute: "دقيقة",
+    minutes: (n) => `${n} دقائق`,
+  },
+
+  footer: { terms: "الشروط", privacy: "الخصوصية", language: "اللغة" },
+  close: "إغلاق",
+  motion: { pause: "إيقاف الحركة مؤقتًا", play: "تشغيل الحركة" },
+
+  consent: { before: "أوافق على ", link: "إشعار الخصوصية", after: " وعلى تلقي تحديثات الإطلاق عبر البريد الإلكتروني." },
+
+  launch: {
+    countdown: "الإطلاق خلال",
+    units: { days: "ي", hours: "س", minutes: "د", seconds: "ث" },
+    signIn: "تسجيل الدخول",
+    preview: "معاينة — لم يُنشر هذا المحتوى بعد.",
+  },
+
+  legal: {
+    version: "الإصدار",
+    openPage: "فتح كصفحة كاملة",
+    back: "العودة إلى erlySense",
+    older: "أنت تطّلع على إصدار سابق من هذا المستند.",
+    seeCurrent: "عرض الإصدار الحالي",
+    notFound: "تعذّر العثور على هذا الإصدار من المستند.",
+  },
+
+  dataRequest: {
+    label: "بريدك المسجّل في قائمة الانتظار",
+    download: "تنزيل بياناتي",
+    delete: "حذف بياناتي",
+    tooMany: "طلبات كثيرة جدًا. يُرجى المحاولة لاحقًا.",
+    sent: "إذا كان هذا العنوان في قائمة الانتظار، فقد أرسلنا إليه رابطًا لإتمام الطلب.",
+  },
+
+  invite: {
+    checking: "جارٍ التحقق من دعوتك…",
+    heading: "أنت مدعو إلى النسخة التجريبية الخاصة",
+    intro: "وافق على شروط الوصول المبكر لتفعيل دعوتك.",
+    expires: (date) => `هذه الدعوة صالحة حتى ${date}.`,
+    emailLabel: "بريدك المسجّل في قائمة الانتظار",
+    accept: { before: "أوافق على ", after: "." },
+    submit: "الانضمام إلى النسخة التجريبية",
+    sending: "جارٍ الانضمام…",
+    emailed: "تحقّق من بريدك الوارد. إذا كان هذا العنوان مؤكَّدًا في قائمة الانتظار، فقد أرسلنا إليه رابطًا لإكمال انضمامك إلى النسخة التجريبية.",
+    activated: "تم الانضمام — مرحبًا بك في النسخة التجريبية الخاصة.",
+    returning: "لقد انضممت بالفعل إلى النسخة التجريبية الخاصة.",
+    signInLater: "سنراسلك عبر البريد الإلكتروني فور فتح تسجيل الدخول إلى النسخة التجريبية.",
+    errors: {
+      email: "يُرجى إدخال البريد الإلكتروني الذي انضممت به إلى قائمة الانتظار.",
+      accept: "يُرجى الموافقة على شروط الوصول المبكر للمتابعة.",
+    },
+    problems: {
+      "invalid": "هذه الدعوة غير صالحة. يُرجى استخدام الرابط الموجود في رسالة الدعوة.",
+      "expired": "انتهت صلاحية هذه الدعوة. تواصل معنا وسنرسل لك دعوة جديدة.",
+      "used": "تم استخدام هذه الدعوة من قبل.",
+      "not-listed": "هذا البريد ليس عنوانًا مؤكدًا في قائمة الانتظار. انضم إلى قائمة الانتظار أولًا ثم استخدم دعوتك.",
+      "error": "تعذّر التحقق من دعوتك الآن. يُرجى المحاولة مرة أخرى.",
+    },
+  },
+};
@@ -0,0 +1,117 @@
+import { ROLE_LABELS } from "../shared/institution";
+import type { Messages } from "./types";
+
+export const en: Messages = {
+  logoAlt: "erlySense logo",
+  anticipated: "Anticipated",
+  voices: ["sooner", "quietly", "privately", "softly", "steadily", "imminently"],
+  pills: [
+    ["Private Beta", "Edge-first", "Privacy by design"],
+    ["Founders only", "On-device AI", "Noise-resilient"],
+    ["University-ready", "Low latency", "Launch-imminent"],
+  ],
+  tagline: "An innovative step toward proactive student well-being. For now, just a whisper.",
+  launchBadge: "Stay curious — launch imminent",
+  cta: "I’m interested",
+
+  form: {
+    label: "Get notified at",
+    emailAria: "Email address",
+    emailPlaceholder: "you@school.edu",
+    submit: "Notify me",
+    sending: "Sending…",
+    rolePlaceholder: "I’m a… (optional)",
+    roleAria: "Your role (optional)",
+    roles: ROLE_LABELS,
+    institutionPlaceholder: "Institution (optional)",
+    noteAria: "Note (optional)",
+    notePlaceholder: "Optional: a line about your use case",
+    disclaimer: "We’ll only email you about launch updates. You can unsubscribe at any time.",
+  },
+
+  errors: {
+    email: "Please enter a valid email.",
+    role: "Please pick one of the listed roles.",
+    institution: "Please check the institution name.",
+    note: "Please keep your note under 500 characters.",
+    form: "Form expired. Please reload the page and try again.",
+    consent: "Please tick the box to agree to the privacy notice.",
+  },
+
+  status: {
+    tooFast: "Whoa, that was quick! Give it a moment and try again.",
+    rateLimited: (wait) => `Too many attempts. Please try again in ${wait}.`,
+    pending: "Almost there — check your inbox and click the link to confirm your email.",
+    returningPending: "You're already signed up — we've re-sent your confirmation email.",
+    returningConfirmed: "You're already on the list — we'll be in touch.",
+    queued: "You’re offline — we’ve saved your signup and will send it as soon as you’re back online.",
+    error: "Something went wrong. Please try again.",
+    confirm: {
+      expired: "That confirmation link has expired. Please sign up again.",
+      invalid: "That confirmation link isn't valid. Please sign up again.",
+      error: "We couldn't confirm your email just now. Please try the link again.",
+    },
+  },
+
+  wait: {
+    seconds: (n) => `${n} seconds`,
+    minute: "a minute",
+    minutes: (n) => `${n} minutes`,
+  },
+
+  footer: { terms: "Terms", privacy: "Privacy", language: "Language" },
+  close: "Close",
+  motion: { pause: "Pause animation", play: "Play animation" },
+
+  consent: { before: "I agree to the ", link: "Privacy Notice", after: " and to receive launch updates by email." },
+
+  launch: {
+    countdown: "Launching in",
+    units: { days: "d", hours: "h", minutes: "m", seconds: "s" },
+    signIn: "Sign in",
+    preview: "Preview — this content is not published yet.",
+  },
+
+  legal: {
+    version: "Version",
+    openPage: "Open as a page",
+    back: "Back to erlySense",
+    older: "You’re viewing an earlier version of this document.",
+    seeCurrent: "See the current version",
+    notFound: "We couldn’t find that version of the document.",
+  },
+
+  dataRequest: {
+    label: "Your waitlist email",
+    download: "Download my data",
+    delete: "Delete my data",
+    tooMany: "Too many requests. Please try again later.",
+    sent: "If that address is on our waitlist, we’ve emailed it a link to finish the request.",
+  },
+
+  invite: {
+    checking: "Checking your invitation…",
+    heading: "You’re invited to the private beta",
+    intro: "Accept the Early Access Terms to activate your invitation.",
+    expires: (date) => `This invitation is valid until ${date}.`,
+    emailLabel: "Your waitlist email",
+    accept: { before: "I accept the ", after: "." },
+    submit: "Join the beta",
+    sending: "Joining…",
+    emailed: "Check your inbox. If that address is a confirmed waitlist subscriber, we’ve emailed it a link to finish joining the beta.",
+    activated: "You’re in — welcome to the private beta.",
+    returning: "You’ve already joined the private beta.",
+    signInLater: "We’ll email you as soon as beta sign-in opens.",
+    errors: {
+      email: "Please enter the email you joined the waitlist with.",
+      accept: "Please accept the Early Access Terms to continue.",
+    },
+    problems: {
+      "invalid": "That invitation isn’t valid. Please use the link from your invitation email.",
+      "expired": "That invitation has expired. Contact us and we’ll send you a new one.",
+      "used": "That invitation has already been used.",
+      "not-listed": "That email isn’t a confirmed waitlist address. Join the waitlist first, then use your invitation.",
+      "error": "We couldn’t check your invitation just now. Please try again.",
+    },
+  },
+};
@@ -0,0 +1,121 @@
+import type { Messages } from "./types";
+
+export const es: Messages = {
+  logoAlt: "Logotipo de erlySense",
+  anticipated: "Anticipado",
+  voices: ["pronto", "en silencio", "en privado", "con calma", "sin pausa", "inminente"],
+  pills: [
+    ["Beta privada", "Primero en el dispositivo", "Privacidad por diseño"],
+    ["Solo fundadores", "IA en el dispositivo", "Resistente al ruido"],
+    ["Listo para universidades", "Baja latencia", "Lanzamiento inminente"],
+  ],
+  tagline: "Un paso innovador hacia el bienestar estudiantil proactivo. Por ahora, solo un susurro.",
+  launchBadge: "Mantén la curiosidad: lanzamiento inminente",
+  cta: "Me interesa",
+
+  form: {
+    label: "Avísame en",
+    emailAria: "Correo electrónico",
+    emailPlaceholder: "tu@universidad.edu",
+    submit: "Avísame",
+    sending: "Enviando…",
+    rolePlaceholder: "Soy… (opcional)",
+    roleAria: "Tu rol (opcional)",
+    roles: {
+      student: "Estudiante",
+      counselor: "Orientador/a",
+      administrator: "Administrativo/a",
+      researcher: "Investigador/a",
+    },
+    institutionPlaceholder: "Institución (opcional)",
+    noteAria: "Nota (opcional)",
+    notePlaceholder: "Opcional: una línea sobre tu caso de uso",
+    disclaimer: "Solo te escribiremos sobre el lanzamiento. Puedes darte de baja en cualquier momento.",
+  },
+
+  errors: {
+    email: "Introduce un correo electrónico válido.",
+    role: "Elige uno de los roles de la lista.",
+    institution: "Revisa el nombre de la institución.",
+    note: "La nota debe tener menos de 500 caracteres.",
+    form: "El formulario ha caducado. Recarga la página e inténtalo de nuevo.",
+    consent: "Marca la casilla para aceptar el aviso de privacidad.",
+  },
+
+  status: {
+    tooFast: "¡Qué rapidez! Espera un momento e inténtalo de nuevo.",
+    rateLimited: (wait) => `Demasiados intentos. Vuelve a intentarlo en ${wait}.`,
+    pending: "Casi listo: revisa tu bandeja de entrada y haz clic en el enlace para confirmar tu correo.",
+    returningPending: "Ya estabas registrado: te hemos reenviado el correo de confirmación.",
+    returningConfirmed: "Ya estás en la lista: te escribiremos pronto.",
+    queued: "Estás sin conexión: guardamos tu registro y lo enviaremos en cuanto vuelvas a estar en línea.",
+    error: "Algo salió mal. Inténtalo de nuevo.",
+    confirm: {
+      expired: "Ese enlace de confirmación ha caducado. Vuelve a registrarte.",
+      invalid: "Ese enlace de confirmación no es válido. Vuelve a registrarte.",
+      error: "No pudimos confirmar tu correo en este momento. Vuelve a abrir el enlace.",
+    },
+  },
+
+  wait: {
+    seconds: (n) => `${n} segundos`,
+    minute: "un minuto",
+    minutes: (n) => `${n} minutos`,
+  },
+
+  footer: { terms: "Términos", privacy: "Privacidad", language: "Idioma" },
+  close: "Cerrar",
+  motion: { pause: "Pausar animación", play: "Reanudar animación" },
+
+  consent: { before: "Acepto el ", link: "Aviso de privacidad", after: " y recibir novedades del lanzamiento por correo." },
+
+  launch: {
+    countdown: "Lanzamiento en",
+    units: { days: "d", hours: "h", minutes: "min", seconds: "s" },
+    signIn: "Iniciar sesión",
+    preview: "Vista previa: este contenido aún no está publicado.",
+  },
+
+  legal: {
+    version: "Versión",
+    openPage: "Abrir como página",
+    back: "Volver a erlySense",
+    older: "Estás viendo una versión anterior de este documento.",
+    seeCurrent: "Ver la versión actual",
+    notFound: "No encontramos esa versión del documento.",
+  },
+
+  dataRequest: {
+    label: "Tu correo de la lista de espera",
+    download: "Descargar mis datos",
+    delete: "Eliminar mis datos",
+    tooMany: "Demasiadas solicitudes. Inténtalo más tarde.",
+    sent: "Si esa dirección está en nuestra lista de espera, le hemos enviado un enlace para completar la solicitud.",
+  },
+
+  invite: {
+    checking: "Comprobando tu invitación…",
+    heading: "Estás invitado/a a la beta privada",
+    intro: "Acepta los Términos de acceso anticipado para activar tu invitación.",
+    expires: (date) => `Esta invitación es válida hasta el ${date}.`,
+    emailLabel: "Tu correo de la lista de espera",
+    accept: { before: "Acepto los ", after: "." },
+    submit: "Unirme a la beta",
+    sending: "Uniéndote…",
+    emailed: "Revisa tu bandeja de entrada. Si esa dirección está confirmada en la lista de espera, le enviamos un enlace para terminar de unirte a la beta.",
+    activated: "Ya estás dentro: te damos la bienvenida a la beta privada.",
+    returning: "Ya te uniste a la beta privada.",
+    signInLater: "Te escribiremos en cuanto se abra el acceso a la beta.",
+    errors: {
+      email: "Introduce el correo con el que te uniste a la lista de espera.",
+      accept: "Acepta los Términos de acceso anticipado para continuar.",
+    },
+    problems: {
+      "invalid": "Esa invitación no es válida. Usa el enlace de tu correo de invitación.",
+      "expired": "Esa invitación ha caducado. Escríbenos y te enviaremos una nueva.",
+      "used": "Esa invitación ya se ha usado.",
+      "not-listed": "Ese correo no es una dirección confirmada de la lista de espera. Únete primero a la lista y luego usa tu invitación.",
+      "error": "No pudimos comprobar tu invitación en este momento. Inténtalo de nuevo.",
+    },
+  },
+};
@@ -0,0 +1,121 @@
+import type { Messages } from "./types";
+
+export const fr: Messages = {
+  logoAlt: "Logo erlySense",
+  anticipated: "Attendu",
+  voices: ["bientôt", "discrètement", "en privé", "en douceur", "sûrement", "imminent"],
+  pills: [
+    ["Bêta privée", "Priorité à l’appareil", "Confidentialité native"],
+    ["Fondateurs uniquement", "IA embarquée", "Résistant au bruit"],
+    ["Prêt pour l’université", "Faible latence", "Lancement imminent"],
+  ],
+  tagline: "Une avancée innovante vers un bien-être étudiant proactif. Pour l’instant, juste un murmure.",
+  launchBadge: "Restez curieux — lancement imminent",
+  cta: "Ça m’intéresse",
+
+  form: {
+    label: "Prévenez-moi à",
+    emailAria: "Adresse e-mail",
+    emailPlaceholder: "vous@universite.fr",
+    submit: "Me prévenir",
+    sending: "Envoi…",
+    rolePlaceholder: "Je suis… (facultatif)",
+    roleAria: "Votre rôle (facultatif)",
+    roles: {
+      student: "Étudiant·e",
+      counselor: "Conseiller·ère",
+      administrator: "Administrateur·rice",
+      researcher: "Chercheur·se",
+    },
+    institutionPlaceholder: "Établissement (facultatif)",
+    noteAria: "Note (facultative)",
+    notePlaceholder: "Facultatif : une ligne sur votre usage",
+    disclaimer: "Nous ne vous écrirons qu’au sujet du lancement. Vous pouvez vous désinscrire à tout moment.",
+  },
+
+  errors: {
+    email: "Veuillez saisir une adresse e-mail valide.",
+    role: "Veuillez choisir l’un des rôles proposés.",
+    institution: "Veuillez vérifier le nom de l’établissement.",
+    note: "Votre note doit faire moins de 500 caractères.",
+    form: "Le formulaire a expiré. Rechargez la page et réessayez.",
+    consent: "Veuillez cocher la case pour accepter la politique de confidentialité.",
+  },
+
+  status: {
+    tooFast: "Doucement ! Patientez un instant puis réessayez.",
+    rateLimited: (wait) => `Trop de tentatives. Réessayez dans ${wait}.`,
+    pending: "Presque fini : ouvrez votre boîte de réception et cliquez sur le lien pour confirmer votre adresse.",
+    returningPending: "Vous êtes déjà inscrit·e : nous vous avons renvoyé l’e-mail de confirmation.",
+    returningConfirmed: "Vous êtes déjà sur la liste : nous vous écrirons bientôt.",
+    queued: "Vous êtes hors ligne — nous avons enregistré votre inscription et l’enverrons dès votre retour en ligne.",
+    error: "Une erreur s’est produite. Veuillez réessayer.",
+    confirm: {
+      expired: "Ce lien de confirmation a expiré. Veuillez vous réinscrire.",
+      invalid: "Ce lien de confirmation n’est pas valide. Veuillez vous réinscrire.",
+      error: "Impossible de confirmer votre adresse pour le moment. Réessayez avec le lien.",
+    },
+  },
+
+  wait: {
+    seconds: (n) => `${n} secondes`,
+    minute: "une minute",
+    minutes: (n) => `${n} minutes`,
+  },
+
+  footer: { terms: "Conditions", privacy: "Confidentialité", language: "Langue" },
+  close: "Fermer",
+  motion: { pause: "Mettre l’animation en pause", play: "Reprendre l’animation" },
+
+  consent: { before: "J’accepte la ", link: "Politique de confidentialité", after: " et de recevoir des nouvelles du lancement par e-mail." },
+
+  launch: {
+    countdown: "Lancement dans",
+    units: { days: "j", hours: "h", minutes: "min", seconds: "s" },
+    signIn: "Se connecter",
+    preview: "Aperçu — ce contenu n’est pas encore publié.",
+  },
+
+  legal: {
+    version: "Version",
+    openPage: "Ouvrir en pleine page",
+    back: "Retour à erlySense",
+    older: "Vous consultez une version antérieure de ce document.",
+    seeCurrent: "Voir la version actuelle",
+    notFound: "Cette version du document est introuvable.",
+  },
+
+  dataRequest: {
+    label: "Votre e-mail de la liste d’attente",
+    download: "Télécharger mes données",
+    delete: "Supprimer mes données",
+    tooMany: "Trop de demandes. Veuillez réessayer plus tard.",
+    sent: "Si cette adresse figure sur notre liste d’attente, nous lui avons envoyé un lien pour finaliser la demande.",
+  },
+
+  invite: {
+    checking: "Vérification de votre invitation…",
+    heading: "Vous êtes invité·e à la bêta privée",
+    intro: "Acceptez les Conditions d’accès anticipé pour activer votre invitation.",
+    expires: (date) => `Cette invitation est valable jusqu’au ${date}.`,
+    emailLabel: "Votre e-mail de la liste d’attente",
+    accept: { before: "J’accepte les ", after: "." },
+    submit: "Rejoindre la bêta",
+    sending: "Activation…",
+    emailed: "Consultez votre boîte de réception. Si cette adresse est confirmée sur la liste d’attente, nous lui avons envoyé un lien pour finaliser votre accès à la bêta.",
+    activated: "C’est fait : bienvenue dans la bêta privée.",
+    returning: "Vous avez déjà rejoint la bêta privée.",
+    signInLater: "Nous vous écrirons dès l’ouverture de la connexion à la bêta.",
+    errors: {
+      email: "Saisissez l’e-mail avec lequel vous avez rejoint la liste d’attente.",
+      accept: "Veuillez accepter les Conditions d’accès anticipé pour continuer.",
+    },
+    problems: {
+      "invalid": "Cette invitation n’est pas valide. Utilisez le lien de votre e-mail d’invitation.",
+      "expired": "Cette invitation a expiré. Contactez-nous et nous vous en enverrons une nouvelle.",
+      "used": "Cette invitation a déjà été utilisée.",
+      "not-listed": "Cet e-mail n’est pas une adresse confirmée de la liste d’attente. Inscrivez-vous d’abord, puis utilisez votre invitation.",
+      "error": "Impossible de vérifier votre invitation pour le moment. Veuillez réessayer.",
+    },
+  },
+};
@@ -0,0 +1,121 @@
+import type { Messages } from "./types";
+
+export const hi: Messages = {
+  logoAlt: "erlySense लोगो",
+  anticipated: "प्रतीक्षित",
+  voices: ["जल्द ही", "चुपचाप", "निजी तौर पर", "धीरे से", "लगातार", "बस आने को"],
+  pills: [
+    ["निजी बीटा", "एज-फ़र्स्ट", "डिज़ाइन से ही निजता"],
+    ["केवल संस्थापक", "ऑन-डिवाइस AI", "शोर-रोधी"],
+    ["विश्वविद्यालयों के लिए तैयार", "कम विलंब", "लॉन्च नज़दीक"],
+  ],
+  tagline: "विद्यार्थियों की भलाई की ओर एक नया, सक्रिय कदम। अभी के लिए, बस एक फुसफुसाहट।",
+  launchBadge: "जिज्ञासु बने रहें — लॉन्च नज़दीक है",
+  cta: "मेरी रुचि है",
+
+  form: {
+    label: "मुझे यहाँ सूचित करें",
+    emailAria: "ईमेल पता",
+    emailPlaceholder: "aap@college.ac.in",
+    submit: "सूचित करें",
+    sending: "भेजा जा रहा है…",
+    rolePlaceholder: "मैं हूँ… (वैकल्पिक)",
+    roleAria: "आपकी भूमिका (वैकल्पिक)",
+    roles: {
+      student: "विद्यार्थी",
+      counselor: "परामर्शदाता",
+      administrator: "प्रशासक",
+      researcher: "शोधकर्ता",
+    },
+    institutionPlaceholder: "संस्थान (वैकल्पिक)",
+    noteAria: "टिप्पणी (वैकल्पिक)",
+    notePlaceholder: "वैकल्पिक: आप इसका उपयोग कैसे करेंगे, एक पंक्ति में",
+    disclaimer: "हम आपको केवल लॉन्च से जुड़ी जानकारी भेजेंगे। आप कभी भी अनसब्सक्राइब कर सकते हैं।",
+  },
+
+  errors: {
+    email: "कृपया एक मान्य ईमेल दर्ज करें।",
+    role: "कृपया सूची में से एक भूमिका चुनें।",
+    institution: "कृपया संस्थान का नाम जाँचें।",
+    note: "कृपया टिप्पणी 500 अक्षरों से कम रखें।",
+    form: "फ़ॉर्म की समय-सीमा समाप्त हो गई। कृपया पेज फिर से लोड करके दोबारा कोशिश करें।",
+    consent: "निजता सूचना से सहमति के लिए कृपया बॉक्स पर टिक करें।",
+  },
+
+  status: {
+    tooFast: "अरे, बहुत जल्दी! थोड़ा रुककर फिर कोशिश करें।",
+    rateLimited: (wait) => `बहुत ज़्यादा प्रयास। कृपया ${wait} बाद फिर कोशिश करें।`,
+    pending: "बस एक कदम बाकी — अपना इनबॉक्स देखें और ईमेल की पुष्टि के लिए लिंक पर क्लिक करें।",
+    returningPending: "आप पहले से साइन अप हैं — हमने पुष्टि ईमेल फिर से भेज दिया है।",
+    returningConfirmed: "आप पहले से सूची में हैं — हम जल्द संपर्क करेंगे।",
+    queued: "आप ऑफ़लाइन हैं — हमने आपका साइन अप सहेज लिया है और ऑनलाइन होते ही भेज देंगे।",
+    error: "कुछ गड़बड़ हो गई। कृपया फिर कोशिश करें।",
+    confirm: {
+      expired: "पुष्टि लिंक की समय-सीमा समाप्त हो गई है। कृपया फिर से साइन अप करें।",
+      invalid: "यह पुष्टि लिंक मान्य नहीं है। कृपया फिर से साइन अप करें।",
+      error: "अभी हम आपके ईमेल की पुष्टि नहीं कर सके। कृपया लिंक फिर से खोलें।",
+    },
+  },
+
+  wait: {
+    seconds: (n) => `${n} सेकंड`,
+    minute: "एक मिनट",
+    minutes: (n) => `${n} मिनट`,
+  },
+
+  footer: { terms: "शर्तें", privacy: "निजता", language: "भाषा" },
+  close: "बंद करें",
+  motion: { pause: "एनिमेशन रोकें", play: "एनिमेशन चलाएँ" },
+
+  consent: { before: "मैं ", link: "निजता सूचना", after: " से सहमत हूँ और ईमेल से लॉन्च अपडेट पाना चाहता/चाहती हूँ।" },
+
+  launch: {
+    countdown: "लॉन्च में शेष",
+    units: { days: "दि", hours: "घं", minutes: "मि", seconds: "से" },
+    signIn: "साइन इन करें",
+    preview: "पूर्वावलोकन — यह सामग्री अभी प्रकाशित नहीं हुई है।",
+  },
+
+  legal: {
+    version: "संस्करण",
+    openPage: "पूरे पेज पर खोलें",
+    back: "erlySense पर वापस जाएँ",
+    older: "आप इस दस्तावेज़ का पुराना संस्करण देख रहे हैं।",
+    seeCurrent: "वर्तमान संस्करण देखें",
+    notFound: "दस्तावेज़ का यह संस्करण नहीं मिला।",
+  },
+
+  dataRequest: {
+    label: "आपका प्रतीक्षा सूची ईमेल",
+    download: "मेरा डेटा डाउनलोड करें",
+    delete: "मेरा डेटा हटाएँ",
+    tooMany: "बहुत ज़्यादा अनुरोध। कृपया बाद में कोशिश करें।",
+    sent: "यदि यह पता हमारी प्रतीक्षा सूची में है, तो हमने अनुरोध पूरा करने के लिए उस पर एक लिंक भेज दिया है।",
+  },
+
+  invite: {
+    checking: "आपका आमंत्रण जाँचा जा रहा है…",
+    heading: "आपको निजी बीटा में आमंत्रित किया गया है",
+    intro: "अपना आमंत्रण सक्रिय करने के लिए अर्ली एक्सेस शर्तें स्वीकार करें।",
+    expires: (date) => `यह आमंत्रण ${date} तक मान्य है।`,
+    emailLabel: "आपका प्रतीक्षा सूची ईमेल",
+    accept: { before: "मैं ", after: " स्वीकार करता/करती हूँ।" },
+    submit: "बीटा से जुड़ें",
+    sending: "जोड़ा जा रहा है…",
+    emailed: "अपना इनबॉक्स देखें। अगर वह पता प्रतीक्षा सूची में पुष्ट है, तो हमने उस पर बीटा में शामिल होना पूरा करने का लिंक भेज दिया है।",
+    activated: "आप जुड़ गए हैं — निजी बीटा में आपका स्वागत है।",
+    returning: "आप पहले ही निजी बीटा से जुड़ चुके हैं।",
+    signInLater: "बीटा साइन-इन खुलते ही हम आपको ईमेल करेंगे।",
+    errors: {
+      email: "कृपया वह ईमेल दर्ज करें जिससे आप प्रतीक्षा सूची में जुड़े थे।",
+      accept: "आगे बढ़ने के लिए कृपया अर्ली एक्सेस शर्तें स्वीकार करें।",
+    },
+    problems: {
+      "invalid": "यह आमंत्रण मान्य नहीं है। कृपया अपने आमंत्रण ईमेल का लिंक इस्तेमाल करें।",
+      "expired": "इस आमंत्रण की अवधि समाप्त हो गई है। हमसे संपर्क करें, हम नया भेज देंगे।",
+      "used": "यह आमंत्रण पहले ही इस्तेमाल हो चुका है।",
+      "not-listed": "यह ईमेल प्रतीक्षा सूची का पुष्ट पता नहीं है। पहले प्रतीक्षा सूची से जुड़ें, फिर अपना आमंत्रण इस्तेमाल करें।",
+      "error": "हम अभी आपका आमंत्रण नहीं जाँच सके। कृपया फिर से कोशिश करें।",
+    },
+  },
+};
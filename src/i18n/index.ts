@@ -0,0 +1,42 @@
+import { DEFAULT_LOCALE, dirOf, isLocale, matchLocale, type Locale } from "../shared/locale";
+import type { Messages } from "./types";
+import { en } from "./en";
+import { es } from "./es";
+import { fr } from "./fr";
+import { hi } from "./hi";
+import { ar } from "./ar";
+
+export type { Messages } from "./types";
+
+export const MESSAGES: Record<Locale, Messages> = { en, es, fr, hi, ar };
+
+const LANG_KEY = "erlysense.lang";
+
+// ?lang= wins (shareable), then an earlier pick from the switcher, then the browser's languages
+export function detectLocale(): Locale {
+  try {
+    const param = new URLSearchParams(window.location.search).get("lang")?.toLowerCase().split(/[-_]/)[0];
+    if (isLocale(param)) return param;
+    const stored = localStorage.getItem(LANG_KEY);
+    if (isLocale(stored)) return stored;
+  } catch {
+    // storage can be blocked; fall through to the browser
+  }
+  if (typeof navigator === "undefined") return DEFAULT_LOCALE;
+  return matchLocale(navigator.languages?.length ? navigator.languages : [navigator.language]);
+}
+
+// Remembers an explicit choice and keeps a ?lang= in the address bar in step with it
+export function rememberLocale(locale: Locale) {
+  try { localStorage.setItem(LANG_KEY, locale); } catch { /* not fatal */ }
+  const params = new URLSearchParams(window.location.search);
+  if (params.has("lang")) {
+    params.set("lang", locale);
+    window.history.replaceState(null, "", `${window.location.pathname}?${params}${window.location.hash}`);
+  }
+}
+
+export function applyDocumentLocale(locale: Locale) {
+  document.documentElement.lang = locale;
+  document.documentElement.dir = dirOf(locale);
+}
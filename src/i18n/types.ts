@@ -0,0 +1,110 @@
+import type { Role } from "../shared/institution";
+import type { InviteProblem } from "../shared/invite";
+
+// ---- Landing page message catalog ----
+// Every locale implements the whole interface, so a missing string is a type error, not a blank.
+// The Terms and Privacy text itself is versioned separately (src/legal); only the chrome is here.
+
+export interface Messages {
+  logoAlt: string;
+  anticipated: string;         // headline word before the rotating one
+  voices: string[];            // rotating headline words
+  pills: string[][];           // rotating teaser pill sets (three per set)
+  tagline: string;
+  launchBadge: string;
+  cta: string;
+
+  form: {
+    label: string;
+    emailAria: string;
+    emailPlaceholder: string;
+    submit: string;
+    sending: string;
+    rolePlaceholder: string;
+    roleAria: string;
+    roles: Record<Role, string>;
+    institutionPlaceholder: string;
+    noteAria: string;
+    notePlaceholder: string;
+    disclaimer: string;
+  };
+
+  // Shown next to the field the shared validator (or the server) flagged
+  errors: {
+    email: string;
+    role: string;
+    institution: string;
+    note: string;
+    form: string;
+    consent: string;
+  };
+
+  status: {
+    tooFast: string;
+    rateLimited: (wait: string) => string;
+    pending: string;
+    returningPending: string;
+    returningConfirmed: string;
+    queued: string;              // saved by the service worker while offline
+    error: string;
+    confirm: { expired: string; invalid: string; error: string };
+  };
+
+  wait: {
+    seconds: (n: number) => string;
+    minute: string;
+    minutes: (n: number) => string;
+  };
+
+  footer: { terms: string; privacy: string; language: string };
+  close: string;
+
+  // Pause control for the rotating headline word and teaser pills
+  motion: { pause: string; play: string };
+
+  // Consent checkbox: before + linked notice title + after
+  consent: { before: string; link: string; after: string };
+
+  // Launch modes from the landing content config (countdown, launched) and the admin preview banner
+  launch: {
+    countdown: string;           // label before the remaining time
+    units: { days: string; hours: string; minutes: string; seconds: string };
+    signIn: string;
+    preview: string;
+  };
+
+  legal: {
+    version: string;
+    openPage: string;
+    back: string;
+    older: string;
+    seeCurrent: string;
+    notFound: string;
+  };
+
+  dataRequest: {
+    label: string;
+    download: string;
+    delete: string;
+    tooMany: string;
+    sent: string;
+  };
+
+  // Arriving with ?invite=CODE: accept the Early Access Terms to join the private beta
+  invite: {
+    checking: string;
+    heading: string;
+    intro: string;
+    expires: (date: string) => string;
+    emailLabel: string;          // multi-use codes only
+    accept: { before: string; after: string };   // around the Early Access Terms title
+    submit: string;
+    sending: string;
+    emailed: string;             // multi-use codes: the join link went out (if the address is listed)
+    activated: string;
+    returning: string;
+    signInLater: string;         // shown when no sign-in link is published yet
+    errors: { email: string; accept: string };
+    problems: Record<InviteProblem | "error", string>;
+  };
+}
@@ -0,0 +1,64 @@
+import type { Locale } from "../shared/locale";
+import terms20261019 from "./terms/2026-10-19.json";
+import privacy20261019 from "./privacy/2026-10-19.json";
+import privacy20261019b from "./privacy/2026-10-19-2.json";
+
+// ---- Versioned legal documents ----
+// Each published version is its own content file (./<doc>/<version>.json) holding every locale.
+// Never edit a published file: copy it to a new version, change the copy, and append it below.
+// Old versions stay so a consent receipt can always be matched to the exact text that was shown.
+
+export const LEGAL_DOCS = ["terms", "privacy"] as const;
+export type LegalDocId = (typeof LEGAL_DOCS)[number];
+
+export interface LegalSection {
+  id?: "rights" | "contact";   // sections the page appends a control to
+  heading: string;
+  body: string;
+}
+
+export interface LegalDoc {
+  title: string;
+  sections: LegalSection[];
+  note: string;                // small print under the last section
+}
+
+export interface LegalVersion {
+  version: string;             // YYYY-MM-DD (-2, -3… for another the same day), also the file name
+  effective: string;
+  locales: Record<Locale, LegalDoc>;
+}
+
+// Oldest first; the last entry is what the site shows today
+export const LEGAL_HISTORY: Record<LegalDocId, LegalVersion[]> = {
+  terms: [terms20261019 as LegalVersion],
+  privacy: [privacy20261019 as LegalVersion, privacy20261019b as LegalVersion],
+};
+
+export const currentVersion = (doc: LegalDocId) => LEGAL_HISTORY[doc][LEGAL_HISTORY[doc].length - 1];
+
+export const CURRENT_VERSIONS: Record<LegalDocId, string> = {
+  terms: currentVersion("terms").version,
+  privacy: currentVersion("privacy").version,
+};
+
+export function findVersion(doc: LegalDocId, version: string | null | undefined) {
+  return LEGAL_HISTORY[doc].find((v) => v.version === version) || null;
+}
+
+// Every version ships every locale, but fall back to English rather than render nothing
+export function legalText(entry: LegalVersion, locale: Locale): LegalDoc {
+  return entry.locales[locale] || entry.locales.en;
+}
+
+export function isLegalDoc(v: unknown): v is LegalDocId {
+  return typeof v === "string" && (LEGAL_DOCS as readonly string[]).includes(v);
+}
+
+// What a subscriber agreed to, stored on their waitlist record (and on each submission's touch)
+export interface ConsentReceipt {
+  at: string;                                  // server time of the submission
+  locale: Locale;                              // language the documents were shown in
+  checkbox: boolean;                           // state of the consent checkbox when the form was sent
+  documents: Record<LegalDocId, string>;       // versions that were on screen
+}
@@ -0,0 +1,16 @@
+import { createLogger, isLogLevel } from "./shared/log";
+
+// ---- Browser logger ----
+// Development prints everything; production builds only warnings and errors, unless the build
+// sets VITE_LOG_LEVEL (e.g. "debug" for a staging deploy, "silent" to print nothing).
+
+const env = (import.meta as ImportMeta & { env?: { DEV?: boolean; VITE_LOG_LEVEL?: string } }).env;
+
+export const log = createLogger({
+  level: isLogLevel(env?.VITE_LOG_LEVEL) ? env.VITE_LOG_LEVEL : env?.DEV ? "debug" : "warn",
+  sink: (level, msg, fields) => {
+    const args: unknown[] = [`[erlySense] ${msg}`];
+    if (Object.keys(fields).length) args.push(fields);
+    console[level === "debug" ? "log" : level](...args);
+  },
+});
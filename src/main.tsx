@@ -1,10 +1,33 @@
 import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
+import { MotionConfig } from 'framer-motion'
 import './index.css'
 import App from './App'
+import Admin from './Admin'
+import Status from './Status'
+import LegalPage from './LegalPage'
+import { registerServiceWorker } from './offline'
 
+// Tiny path switch; Pages serves index.html for any unknown path
+const path = window.location.pathname.replace(/\/+$/, '')
+const Page = path === '/admin' ? Admin
+  : path === '/status' ? Status
+  : path === '/terms' ? () => <LegalPage doc="terms" />
+  : path === '/privacy' ? () => <LegalPage doc="privacy" />
+  : App
+
+registerServiceWorker()
+
+// axe-core audit of every page while developing; see a11yAudit.ts
+if ((import.meta as ImportMeta & { env?: { DEV?: boolean } }).env?.DEV) {
+  import('./a11yAudit').then((a) => a.startAccessibilityAudit())
+}
+
+// reducedMotion="user": framer-motion drops transform animations when the OS asks for less motion
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <App />
+    <MotionConfig reducedMotion="user">
+      <Page />
+    </MotionConfig>
   </StrictMode>,
 )
@@ -0,0 +1,51 @@
+import type { InterestPayload, InterestResponse } from "./shared/interest";
+
+// ---- Offline support (page side) ----
+// The service worker (public/sw.js) owns the cache and the IndexedDB outbox; this file registers
+// it, hands it submissions that couldn't be sent, and relays what happened when they were replayed.
+
+const SW_URL = "/sw.js";
+
+export function registerServiceWorker() {
+  if (!("serviceWorker" in navigator)) return;
+  // Dev serves modules straight from Vite; a caching worker there only gets in the way
+  if (!(import.meta as ImportMeta & { env?: { PROD?: boolean } }).env?.PROD) return;
+  window.addEventListener("load", () => {
+    navigator.serviceWorker.register(SW_URL).catch(() => { /* the page works without it */ });
+  });
+  // Browsers without Background Sync rely on this nudge to flush the outbox
+  const replay = () => navigator.serviceWorker.controller?.postMessage({ type: "replay-interest" });
+  window.addEventListener("online", replay);
+  navigator.serviceWorker.ready.then(replay).catch(() => {});
+}
+
+// True once the worker has stored the submission; false when there's no worker to hold it
+export async function queueInterest(id: string, payload: InterestPayload): Promise<boolean> {
+  const worker = navigator.serviceWorker?.controller;
+  if (!worker) return false;
+  return new Promise((resolve) => {
+    const channel = new MessageChannel();
+    const timer = setTimeout(() => resolve(false), 3000);
+    channel.port1.onmessage = (e) => { clearTimeout(timer); resolve(!!e.data?.ok); };
+    worker.postMessage({ type: "queue-interest", id, payload }, [channel.port2]);
+  });
+}
+
+export interface ReplayedInterest {
+  id: string;
+  status: number;
+  body: InterestResponse | null;
+}
+
+// Subscribes to replays finishing; returns the unsubscribe function (for effects)
+export function onInterestReplayed(cb: (r: ReplayedInterest) => void) {
+  if (!("serviceWorker" in navigator)) return () => {};
+  const listener = (e: MessageEvent) => { if (e.data?.type === "interest-replayed") cb(e.data); };
+  navigator.serviceWorker.addEventListener("message", listener);
+  return () => navigator.serviceWorker.removeEventListener("message", listener);
+}
+
+// Network failures only: a server that answered, even with an error, isn't an offline problem
+export function isOfflineError(err: unknown) {
+  return (typeof navigator !== "undefined" && navigator.onLine === false) || err instanceof TypeError;
+}
@@ -0,0 +1,57 @@
+import { pickAssignment, type Assignment } from "./experiments";
+
+// ---- Funnel analytics contract ----
+// What the landing page may report to /api/events. Events carry no identifiers: no cookies,
+// no client id, no IP or user agent. Only the event name, the visit's utm_* tags and the
+// A/B variants it was shown.
+
+export const EVENTS = [
+  "page_view",
+  "visitor",          // first view in this browser: sent once, with only the variants just dealt
+  "interest_click",   // "I'm interested" opened the form
+  "submit",           // passed client validation and was sent
+  "submit_success",
+  "submit_error",
+  "terms_open",
+  "privacy_open",
+] as const;
+export type AnalyticsEvent = (typeof EVENTS)[number];
+
+export const UTM_KEYS = ["utm_source", "utm_medium", "utm_campaign"] as const;
+export type UtmKey = (typeof UTM_KEYS)[number];
+export type Utm = Partial<Record<UtmKey, string>>;
+
+export interface EventPayload {
+  event: AnalyticsEvent;
+  utm?: Utm;
+  exp?: Assignment;
+}
+
+export function isEvent(v: unknown): v is AnalyticsEvent {
+  return typeof v === "string" && (EVENTS as readonly string[]).includes(v);
+}
+
+// Campaign tags are free text from the URL; keep them short and boring before counting them
+export function cleanUtmValue(v: unknown) {
+  if (typeof v !== "string") return "";
+  return v.trim().toLowerCase().replace(/[^a-z0-9._-]+/g, "-").replace(/^-+|-+$/g, "").slice(0, 64);
+}
+
+export function pickUtm(params: URLSearchParams | Record<string, unknown>): Utm {
+  const get = (k: UtmKey) => (params instanceof URLSearchParams ? params.get(k) : params[k]);
+  const utm: Utm = {};
+  for (const k of UTM_KEYS) {
+    const v = cleanUtmValue(get(k));
+    if (v) utm[k] = v;
+  }
+  return utm;
+}
+
+export function parseEvent(input: unknown): EventPayload | null {
+  if (!input || typeof input !== "object" || Array.isArray(input)) return null;
+  const raw = input as { event?: unknown; utm?: unknown; exp?: unknown };
+  if (!isEvent(raw.event)) return null;
+  const utm = raw.utm && typeof raw.utm === "object" ? pickUtm(raw.utm as Record<string, unknown>) : {};
+  const exp = pickAssignment(raw.exp);
+  return { event: raw.event, ...(Object.keys(utm).length ? { utm } : {}), ...(Object.keys(exp).length ? { exp } : {}) };
+}
@@ -0,0 +1,12 @@
+// ---- Brand palette (from logo) ----
+// Shared by the landing page and the email templates in functions/_lib/mail
+export const BRAND = {
+  aqua: "#57C8C7",
+  teal: "#2FB3C4",
+  blue: "#0E5C8B",
+  deep: "#073B5C",
+  ink:  "#08141C",
+};
+
+export type BrandColor = keyof typeof BRAND;
+export type BrandPalette = Record<BrandColor, string>;
@@ -0,0 +1,127 @@
+import { BRAND, type BrandColor, type BrandPalette } from "./brand";
+import { LOCALES, isLocale, type Locale } from "./locale";
+import defaultContent from "../content/landing.json";
+
+// ---- Landing content config ----
+// What the landing page shows around the form: copy overrides, palette, and the launch mode.
+// Published to KV by the admin (/api/admin/content); src/content/landing.json is the default
+// when nothing has been published. Both sides run validateLandingContent.
+
+export const CONTENT_MODES = ["waitlist", "countdown", "launched"] as const;
+export type ContentMode = (typeof CONTENT_MODES)[number];
+
+// Per-locale overrides; anything left out falls back to the UI catalog for that language
+export interface ContentCopy {
+  anticipated?: string;        // headline word before the rotating one
+  voices?: string[];           // rotating headline words
+  pills?: string[][];          // rotating teaser pill sets
+  tagline?: string;
+  launchBadge?: string;
+  cta?: string;                // waitlist button
+  signIn?: string;             // sign-in link in "launched" mode
+}
+
+export interface LandingContent {
+  mode: ContentMode;
+  launchAt?: string;           // ISO 8601; required for "countdown"
+  signInUrl?: string;          // https URL or site path; required for "launched"
+  brand: BrandPalette;
+  copy: Partial<Record<Locale, ContentCopy>>;
+}
+
+export const CONTENT_MAX_BYTES = 32_000;
+
+const TEXT_MAX = 200;
+const WORD_MAX = 40;
+const LIST_MAX = 12;
+const PILLS_PER_SET = 3;
+const HEX_RE = /^#(?:[0-9a-fA-F]{3}|[0-9a-fA-F]{6})$/;
+const BRAND_KEYS = Object.keys(BRAND) as BrandColor[];
+const COPY_TEXT = ["anticipated", "tagline", "launchBadge", "cta", "signIn"] as const;
+const COPY_KEYS: (keyof ContentCopy)[] = [...COPY_TEXT, "voices", "pills"];
+const TOP_KEYS: (keyof LandingContent)[] = ["mode", "launchAt", "signInUrl", "brand", "copy"];
+
+export const DEFAULT_CONTENT = defaultContent as LandingContent;
+
+export type ContentValidation =
+  | { ok: true; value: LandingContent }
+  | { ok: false; errors: string[] };
+
+const isObject = (v: unknown): v is Record<string, unknown> => !!v && typeof v === "object" && !Array.isArray(v);
+const isText = (v: unknown, max: number) => typeof v === "string" && v.trim().length > 0 && v.length <= max;
+
+function unknownKeys(obj: Record<string, unknown>, allowed: readonly string[], path: string) {
+  return Object.keys(obj).filter((k) => !allowed.includes(k)).map((k) => `${path}${k}: unknown field`);
+}
+
+function checkWords(v: unknown, path: string, max: number, errors: string[]) {
+  if (!Array.isArray(v) || v.length === 0 || v.length > LIST_MAX) {
+    errors.push(`${path}: expected 1–${LIST_MAX} entries`);
+    return;
+  }
+  v.forEach((w, i) => { if (!isText(w, max)) errors.push(`${path}[${i}]: expected text up to ${max} characters`); });
+}
+
+// Sign-in target: our own path or an https URL, never javascript: and friends
+function isSignInUrl(v: unknown) {
+  if (typeof v !== "string" || v.length > 500) return false;
+  if (v.startsWith("/") && !v.startsWith("//")) return true;
+  try { return new URL(v).protocol === "https:"; } catch { return false; }
+}
+
+// Collects every problem (with a path) instead of stopping at the first, so the admin can fix them in one go
+export function validateLandingContent(input: unknown): ContentValidation {
+  if (!isObject(input)) return { ok: false, errors: ["Expected a JSON object."] };
+  const errors = unknownKeys(input, TOP_KEYS, "");
+
+  const mode = input.mode;
+  if (!(CONTENT_MODES as readonly unknown[]).includes(mode)) errors.push(`mode: expected one of ${CONTENT_MODES.join(", ")}`);
+
+  if (input.launchAt !== undefined && (typeof input.launchAt !== "string" || Number.isNaN(Date.parse(input.launchAt)))) {
+    errors.push("launchAt: expected an ISO 8601 date, e.g. 2026-12-01T09:00:00Z");
+  } else if (mode === "countdown" && input.launchAt === undefined) {
+    errors.push("launchAt: required in countdown mode");
+  }
+
+  if (input.signInUrl !== undefined && !isSignInUrl(input.signInUrl)) {
+    errors.push("signInUrl: expected an https:// URL or a path starting with /");
+  } else if (mode === "launched" && input.signInUrl === undefined) {
+    errors.push("signInUrl: required in launched mode");
+  }
+
+  if (!isObject(input.brand)) {
+    errors.push("brand: expected an object of colors");
+  } else {
+    errors.push(...unknownKeys(input.brand, BRAND_KEYS, "brand."));
+    const brand = input.brand;
+    BRAND_KEYS.forEach((k) => { if (typeof brand[k] !== "string" || !HEX_RE.test(brand[k] as string)) errors.push(`brand.${k}: expected a hex color like #2FB3C4`); });
+  }
+
+  if (!isObject(input.copy)) {
+    errors.push("copy: expected an object keyed by language");
+  } else {
+    Object.entries(input.copy).forEach(([locale, copy]) => {
+      const path = `copy.${locale}`;
+      if (!isLocale(locale)) { errors.push(`${path}: unknown language (use ${LOCALES.join(", ")})`); return; }
+      if (!isObject(copy)) { errors.push(`${path}: expected an object`); return; }
+      errors.push(...unknownKeys(copy, COPY_KEYS, `${path}.`));
+      COPY_TEXT.forEach((k) => {
+        if (copy[k] !== undefined && !isText(copy[k], TEXT_MAX)) errors.push(`${path}.${k}: expected text up to ${TEXT_MAX} characters`);
+      });
+      if (copy.voices !== undefined) checkWords(copy.voices, `${path}.voices`, WORD_MAX, errors);
+      if (copy.pills !== undefined) {
+        if (!Array.isArray(copy.pills) || copy.pills.length === 0 || copy.pills.length > LIST_MAX) {
+          errors.push(`${path}.pills: expected 1–${LIST_MAX} sets`);
+        } else {
+          copy.pills.forEach((set, i) => {
+            if (!Array.isArray(set) || set.length !== PILLS_PER_SET) errors.push(`${path}.pills[${i}]: expected exactly ${PILLS_PER_SET} pills`);
+            else checkWords(set, `${path}.pills[${i}]`, WORD_MAX, errors);
+          });
+        }
+      }
+    });
+  }
+
+  if (errors.length) return { ok: false, errors };
+  return { ok: true, value: input as unknown as LandingContent };
+}
@@ -0,0 +1,29 @@
+// ---- A/B experiments ----
+// The experiments and their variants; what each variant changes lives with the UI (App.tsx).
+// The first variant is the control. Assignments travel with funnel events and signups, and the
+// server drops anything not listed here, so retiring a variant just means deleting it.
+
+export const EXPERIMENTS = {
+  headline: ["rotating", "static"],     // rotating word vs. a fixed one
+  cta: ["interested", "notify"],        // "I'm interested" vs. "Notify me"
+  form: ["on-demand", "open"],          // revealed by the CTA vs. shown on load
+} as const;
+
+export type ExperimentId = keyof typeof EXPERIMENTS;
+export type Variant<E extends ExperimentId = ExperimentId> = (typeof EXPERIMENTS)[E][number];
+export type Assignment = { [E in ExperimentId]?: Variant<E> };
+
+export const EXPERIMENT_IDS = Object.keys(EXPERIMENTS) as ExperimentId[];
+
+export function isVariant<E extends ExperimentId>(experiment: E, v: unknown): v is Variant<E> {
+  return typeof v === "string" && (EXPERIMENTS[experiment] as readonly string[]).includes(v);
+}
+
+// Keeps only known experiment/variant pairs; anything else is silently dropped
+export function pickAssignment(input: unknown): Assignment {
+  if (!input || typeof input !== "object" || Array.isArray(input)) return {};
+  const raw = input as Record<string, unknown>;
+  const out: Record<string, string> = {};
+  for (const id of EXPERIMENT_IDS) if (isVariant(id, raw[id])) out[id] = raw[id] as string;
+  return out as Assignment;
+}
@@ -0,0 +1,65 @@
+// ---- Campus capture: roles and institution names ----
+// Shared by the interest form and /api/interest so both sides enforce the same rules.
+
+export const ROLES = ["student", "counselor", "administrator", "researcher"] as const;
+export type Role = (typeof ROLES)[number];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  student: "Student",
+  counselor: "Counselor",
+  administrator: "Administrator",
+  researcher: "Researcher",
+};
+
+export const INSTITUTION_MAX = 120;
+const INSTITUTION_RE = /^[\p{L}\p{M}0-9 .,&'’()\-/]+$/u;
+
+export function isRole(value: unknown): value is Role {
+  return ROLES.includes(value as Role);
+}
+
+// Returns an error message, or null when the (optional) institution is acceptable
+export function validateInstitution(value: string) {
+  const v = value.trim();
+  if (!v) return null;
+  if (v.length < 2) return "Institution name is too short.";
+  if (v.length > INSTITUTION_MAX) return `Institution name must be at most ${INSTITUTION_MAX} characters.`;
+  if (!INSTITUTION_RE.test(v)) return "Institution name contains unsupported characters.";
+  return null;
+}
+
+const ABBREVIATIONS: [RegExp, string][] = [
+  [/\buniv\.?(?=\s|$)/gi, "University"],
+  [/\bu\.?\s+of\b/gi, "University of"],
+  [/\binst\.?(?=\s|$)/gi, "Institute"],
+  [/\bcoll\.?(?=\s|$)/gi, "College"],
+  [/\s&\s/g, " and "],
+];
+const SMALL_WORDS = new Set(["of", "and", "the", "at", "in", "for", "de", "la", "du"]);
+
+// "the univ. of  michigan" → "University of Michigan". Acronyms (MIT, UCLA) are kept.
+export function normalizeInstitution(value: string) {
+  let v = value.trim().replace(/\s+/g, " ").replace(/^the\s+/i, "").replace(/[.,]+$/, "");
+  for (const [re, full] of ABBREVIATIONS) v = v.replace(re, full);
+  // Someone typing in all caps isn't telling us every word is an acronym
+  const shouting = v.includes(" ") && v === v.toUpperCase();
+  return v
+    .split(" ")
+    .map((w, i) => {
+      if (!shouting && /^[A-Z0-9&]{2,}$/.test(w)) return w;
+      const lower = w.toLowerCase();
+      if (i > 0 && SMALL_WORDS.has(lower)) return lower;
+      return lower.charAt(0).toUpperCase() + lower.slice(1);
+    })
+    .join(" ");
+}
+
+// Grouping key so "University of Michigan" and "UNIVERSITY OF MICHIGAN." count as one campus
+export function institutionKey(name: string) {
+  return normalizeInstitution(name)
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
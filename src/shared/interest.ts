@@ -0,0 +1,127 @@
+import { INSTITUTION_MAX, isRole, validateInstitution, type Role } from "./institution";
+import { isLocale, type Locale } from "./locale";
+import { findVersion } from "../legal";
+import { pickAssignment, type Assignment } from "./experiments";
+
+// ---- Interest form contract ----
+// The one definition of what the landing page POSTs to /api/interest and what comes back.
+// Both sides run validateInterest, so the browser and the Pages function can't drift apart.
+
+export const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+export const EMAIL_MAX = 254;     // RFC 5321 path limit
+export const NOTE_MAX = 500;
+export const SOURCES = ["coming-soon"] as const;
+export type Source = (typeof SOURCES)[number];
+
+export interface InterestPayload {
+  email: string;
+  note?: string;
+  role?: Role;
+  institution?: string;
+  source: Source;
+  locale?: Locale;      // UI language at signup; emails follow it
+  consent: boolean;     // the explicit consent checkbox; must be ticked
+  termsVersion: string;   // legal document versions the visitor was shown
+  privacyVersion: string;
+  ref?: string;         // referral code from ?ref=
+  experiments?: Assignment; // A/B variants the visitor saw
+  trap?: string;        // honeypot; must stay empty
+  formToken?: string;   // signed form timestamp from GET /api/interest
+}
+
+export type InterestField = keyof InterestPayload;
+
+// Keyed by field; "_form" carries problems that belong to no single input
+export type FieldErrors = Partial<Record<InterestField | "_form", string>>;
+
+export type InterestResponse =
+  | { ok: true; status: "pending" | "confirmed"; returning: boolean }
+  | { ok: false; error: string; fields?: FieldErrors; retryAfter?: number; requestId?: string };
+
+export interface FormTokenResponse {
+  ok: boolean;
+  formToken?: string;
+}
+
+const FIELDS: InterestField[] = ["email", "note", "role", "institution", "source", "locale", "consent", "termsVersion", "privacyVersion", "ref", "experiments", "trap", "formToken"];
+
+export function isValidEmail(email: string) {
+  return email.length <= EMAIL_MAX && EMAIL_RE.test(email);
+}
+
+export type Validation =
+  | { ok: true; value: InterestPayload }
+  | { ok: false; errors: FieldErrors };
+
+// Trims strings, drops empty optionals, and rejects anything not in the contract
+export function validateInterest(input: unknown): Validation {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    return { ok: false, errors: { _form: "Expected a JSON object." } };
+  }
+  const raw = input as Record<string, unknown>;
+  const errors: FieldErrors = {};
+
+  const unknown = Object.keys(raw).filter((k) => !FIELDS.includes(k as InterestField));
+  if (unknown.length) errors._form = `Unexpected field${unknown.length > 1 ? "s" : ""}: ${unknown.join(", ")}`;
+
+  const str = (k: InterestField) => {
+    const v = raw[k];
+    if (v === undefined || v === null) return "";
+    if (typeof v !== "string") { errors[k] = "Must be text."; return ""; }
+    return v.trim();
+  };
+
+  const email = str("email");
+  const note = str("note");
+  const role = str("role");
+  const institution = str("institution");
+  const source = str("source");
+  const locale = str("locale");
+  const ref = str("ref").toUpperCase();
+  const trap = str("trap");
+  const formToken = str("formToken");
+  const termsVersion = str("termsVersion");
+  const privacyVersion = str("privacyVersion");
+  // Variants retired since the page loaded are dropped rather than failing the signup
+  const experiments = pickAssignment(raw.experiments);
+
+  if (!errors.email) {
+    if (!email) errors.email = "Please enter your email.";
+    else if (!isValidEmail(email)) errors.email = "Please enter a valid email.";
+  }
+  if (!errors.note && note.length > NOTE_MAX) errors.note = `Please keep your note under ${NOTE_MAX} characters.`;
+  if (!errors.role && role && !isRole(role)) errors.role = "Please pick one of the listed roles.";
+  if (!errors.institution) {
+    const problem = validateInstitution(institution);
+    if (problem) errors.institution = problem;
+  }
+  if (!errors.source && !SOURCES.includes(source as Source)) errors.source = "Unknown source.";
+  if (!errors.locale && locale && !isLocale(locale)) errors.locale = "Unsupported language.";
+  if (raw.consent !== true) errors.consent = "Please confirm you agree to the privacy notice.";
+  // A version we never published means a stale or hand-made request; a reload fixes the former
+  if (!findVersion("terms", termsVersion) || !findVersion("privacy", privacyVersion)) {
+    errors._form ||= "The legal documents have changed. Please reload the page and try again.";
+  }
+  if (!errors.ref && ref && !/^[A-Z0-9]{8}$/.test(ref)) errors.ref = "That referral code doesn't look right.";
+  if (!errors.formToken && formToken.length > 512) errors.formToken = "Invalid form token.";
+
+  if (Object.keys(errors).length) return { ok: false, errors };
+  return {
+    ok: true,
+    value: {
+      email,
+      source: source as Source,
+      consent: true,
+      termsVersion,
+      privacyVersion,
+      ...(note ? { note } : {}),
+      ...(role ? { role: role as Role } : {}),
+      ...(institution ? { institution: institution.slice(0, INSTITUTION_MAX) } : {}),
+      ...(locale ? { locale: locale as Locale } : {}),
+      ...(ref ? { ref } : {}),
+      ...(Object.keys(experiments).length ? { experiments } : {}),
+      ...(trap ? { trap } : {}),
+      ...(formToken ? { formToken } : {}),
+    },
+  };
+}
@@ -0,0 +1,79 @@
+import { isValidEmail } from "./interest";
+import { isLocale, type Locale } from "./locale";
+import { findVersion } from "../legal";
+
+// ---- Beta invitation contract ----
+// What the landing page sends to /api/invite when someone arrives with ?invite=CODE, and what
+// comes back. Codes are issued by the admin API (functions/api/admin/invites) and emailed.
+
+const CODE_CHARS = "A-HJKMNP-Z2-9";                // same alphabet as referral codes: no 0/O, 1/I/L
+export const INVITE_CODE_RE = new RegExp(`^[${CODE_CHARS}]{4}-[${CODE_CHARS}]{4}-[${CODE_CHARS}]{4}$`);
+
+// Why a code can't be used; the page shows a message for each
+export const INVITE_PROBLEMS = ["invalid", "expired", "used", "not-listed"] as const;
+export type InviteProblem = (typeof INVITE_PROBLEMS)[number];
+
+// Accepts what people paste or type: any case, spaces, missing or extra dashes
+export function normalizeInviteCode(raw: string) {
+  const compact = raw.toUpperCase().replace(/[\s-]+/g, "");
+  const code = compact.length === 12 ? `${compact.slice(0, 4)}-${compact.slice(4, 8)}-${compact.slice(8)}` : compact;
+  return INVITE_CODE_RE.test(code) ? code : null;
+}
+
+// GET /api/invite?code=… — multi-use codes ask who is redeeming; personal ones already know
+export type InviteCheckResponse =
+  | { ok: true; needsEmail: boolean; expiresAt: string }
+  | { ok: false; error: string; problem?: InviteProblem; retryAfter?: number; requestId?: string };
+
+export interface RedeemPayload {
+  code: string;
+  email?: string;       // required for multi-use codes: a link to finish joining is emailed there
+  accept: boolean;      // the Early Access Terms checkbox; must be ticked
+  termsVersion: string; // version of the terms that was on screen
+  locale?: Locale;
+}
+
+export type RedeemField = keyof RedeemPayload;
+
+// Multi-use codes always answer "emailed", whether or not the address is on the waitlist
+export type RedeemResponse =
+  | { ok: true; returning: boolean }
+  | { ok: true; emailed: true }
+  | { ok: false; error: string; problem?: InviteProblem; fields?: Partial<Record<RedeemField | "_form", string>>; retryAfter?: number; requestId?: string };
+
+export type RedeemValidation =
+  | { ok: true; value: RedeemPayload }
+  | { ok: false; errors: Partial<Record<RedeemField | "_form", string>> };
+
+// Run by the page before sending and by the function on receipt
+export function validateRedemption(input: unknown): RedeemValidation {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    return { ok: false, errors: { _form: "Expected a JSON object." } };
+  }
+  const raw = input as Record<string, unknown>;
+  const errors: Partial<Record<RedeemField | "_form", string>> = {};
+  const str = (k: RedeemField) => (typeof raw[k] === "string" ? (raw[k] as string).trim() : "");
+
+  const code = normalizeInviteCode(str("code"));
+  const email = str("email");
+  const termsVersion = str("termsVersion");
+  const locale = str("locale");
+
+  if (!code) errors.code = "That invitation code doesn't look right.";
+  if (email && !isValidEmail(email)) errors.email = "Please enter a valid email.";
+  if (raw.accept !== true) errors.accept = "Please accept the Early Access Terms.";
+  if (!findVersion("terms", termsVersion)) errors._form = "The terms have changed. Please reload the page and try again.";
+  if (locale && !isLocale(locale)) errors.locale = "Unsupported language.";
+
+  if (Object.keys(errors).length || !code) return { ok: false, errors };
+  return {
+    ok: true,
+    value: {
+      code,
+      accept: true,
+      termsVersion,
+      ...(email ? { email } : {}),
+      ...(locale ? { locale: locale as Locale } : {}),
+    },
+  };
+}
@@ -0,0 +1,47 @@
+// ---- Supported locales ----
+// Shared by the landing page (UI catalogs) and the functions (stored on the record, used for email).
+
+export const LOCALES = ["en", "es", "fr", "hi", "ar"] as const;
+export type Locale = (typeof LOCALES)[number];
+export const DEFAULT_LOCALE: Locale = "en";
+
+// Shown in the language switcher, each in its own language
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: "English",
+  es: "Español",
+  fr: "Français",
+  hi: "हिन्दी",
+  ar: "العربية",
+};
+
+const RTL: readonly Locale[] = ["ar"];
+
+export function isLocale(v: unknown): v is Locale {
+  return typeof v === "string" && (LOCALES as readonly string[]).includes(v);
+}
+
+export const dirOf = (locale: Locale): "ltr" | "rtl" => (RTL.includes(locale) ? "rtl" : "ltr");
+
+// First supported language among BCP 47 tags in preference order ("es-MX" → "es")
+export function matchLocale(tags: readonly string[]): Locale {
+  for (const tag of tags) {
+    const base = tag.trim().toLowerCase().split(/[-_]/)[0];
+    if (isLocale(base)) return base;
+  }
+  return DEFAULT_LOCALE;
+}
+
+// "fr-CH, fr;q=0.9, en;q=0.8, *;q=0.5" → ["fr-CH", "fr", "en"], highest q first
+export function parseAcceptLanguage(header: string | null | undefined): string[] {
+  if (!header) return [];
+  return header
+    .split(",")
+    .map((part, i) => {
+      const [tag, ...params] = part.trim().split(";");
+      const q = params.map((p) => p.trim()).find((p) => p.startsWith("q="));
+      return { tag: tag.trim(), q: q ? Number(q.slice(2)) : 1, i };
+    })
+    .filter((l) => l.tag && l.tag !== "*" && l.q > 0)
+    .sort((a, b) => b.q - a.q || a.i - b.i)
+    .map((l) => l.tag);
+}
@@ -0,0 +1,113 @@
+// ---- Structured logging with PII redaction (browser and functions) ----
+// Both sides log the same shape: a level, a short message and a bag of fields. Everything passes
+// through redact() on the way out, so call sites can hand over records, payloads and errors as-is:
+// fields are masked by name (email, ip, note, ua, secrets) and stray addresses in free text are masked too.
+
+export const LOG_LEVELS = ["debug", "info", "warn", "error", "silent"] as const;
+export type LogLevel = (typeof LOG_LEVELS)[number];
+export type LogFields = Record<string, unknown>;
+
+// Where formatted entries go; the browser prints them, the functions emit one JSON line each
+export type LogSink = (level: Exclude<LogLevel, "silent">, msg: string, fields: LogFields) => void;
+
+export interface Logger {
+  level: LogLevel;             // shared with every child, so changing it on the root applies everywhere
+  debug(msg: string, fields?: LogFields): void;
+  info(msg: string, fields?: LogFields): void;
+  warn(msg: string, fields?: LogFields): void;
+  error(msg: string, fields?: LogFields): void;
+  child(fields: LogFields): Logger;
+}
+
+export function isLogLevel(v: unknown): v is LogLevel {
+  return typeof v === "string" && (LOG_LEVELS as readonly string[]).includes(v);
+}
+
+// ---- Masking ----
+
+// j****e@example.edu: enough to tell two signups apart in a log, not enough to mail them
+export function maskEmail(e: string) {
+  if (!e || !e.includes("@")) return e;
+  const at = e.lastIndexOf("@");
+  const u = e.slice(0, at);
+  const d = e.slice(at + 1);
+  const uu = u.length <= 2 ? u[0] + "*" : u[0] + "*".repeat(Math.max(1, u.length - 2)) + u[u.length - 1];
+  return `${uu}@${d}`;
+}
+
+// Network prefix only: 203.0.113.0 for IPv4, the first three groups (a /48) for IPv6
+export function maskIp(ip: string) {
+  if (!ip) return ip;
+  if (ip.includes(":")) {
+    const groups = ip.split("::")[0].split(":").filter(Boolean).slice(0, 3);
+    return `${groups.join(":")}::`;
+  }
+  const parts = ip.split(".");
+  return parts.length === 4 ? `${parts.slice(0, 3).join(".")}.0` : "[ip]";
+}
+
+// Free text the visitor wrote can say anything; logs only learn that it exists and how long it is
+export function maskText(s: string) {
+  return s ? `[${s.length} chars]` : s;
+}
+
+const EMAIL_IN_TEXT = /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g;
+const SECRET = () => "[redacted]";
+
+// Matched case-insensitively against field names, at any depth
+const MASKS = new Map<string, (v: string) => string>([
+  ["email", maskEmail],
+  ["to", maskEmail],
+  ["ip", maskIp],
+  ["cf-connecting-ip", maskIp],
+  ["note", maskText],
+  ["ua", SECRET],
+  ["user-agent", SECRET],
+  ["authorization", SECRET],
+  ["token", SECRET],
+  ["formtoken", SECRET],
+  ["secret", SECRET],
+  ["password", SECRET],
+]);
+
+const MAX_DEPTH = 6;
+
+export function redact(value: unknown, depth = 0): unknown {
+  if (typeof value === "string") return value.replace(EMAIL_IN_TEXT, maskEmail);
+  if (value === null || typeof value !== "object") return value;
+  if (depth >= MAX_DEPTH) return "[…]";
+  if (value instanceof Error) {
+    return { name: value.name, message: redact(value.message), ...(value.stack ? { stack: redact(value.stack) } : {}) };
+  }
+  if (Array.isArray(value)) return value.map((v) => redact(v, depth + 1));
+  const out: Record<string, unknown> = {};
+  for (const [k, v] of Object.entries(value)) {
+    const mask = MASKS.get(k.toLowerCase());
+    out[k] = mask && typeof v === "string" ? mask(v) : redact(v, depth + 1);
+  }
+  return out;
+}
+
+// ---- Loggers ----
+
+const RANK: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40, silent: 100 };
+
+export function createLogger(options: { level: LogLevel; sink: LogSink; fields?: LogFields }): Logger {
+  const state = { level: options.level };
+  const make = (base: LogFields): Logger => {
+    const emit = (level: Exclude<LogLevel, "silent">) => (msg: string, fields?: LogFields) => {
+      if (RANK[level] < RANK[state.level]) return;
+      options.sink(level, msg, redact({ ...base, ...fields }) as LogFields);
+    };
+    return {
+      get level() { return state.level; },
+      set level(l: LogLevel) { state.level = l; },
+      debug: emit("debug"),
+      info: emit("info"),
+      warn: emit("warn"),
+      error: emit("error"),
+      child: (fields) => make({ ...base, ...fields }),
+    };
+  };
+  return make(options.fields || {});
+}
@@ -1,6 +0,0 @@
-import { defineConfig } from 'vite';
-import react from '@vitejs/plugin-react';
-// https://vite.dev/config/
-export default defineConfig({
-    plugins: [react()],
-});
@@ -1,7 +1,9 @@
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
+import { pagesFunctions } from './dev/pages'
 
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  // pagesFunctions only applies to `vite` (dev): it serves functions/ locally, see dev/pages.ts
+  plugins: [react(), pagesFunctions()],
 })